@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { SelectedAccountSchema } from "../services/contracts.js";
+import { matchSharedAccounts } from "../webapp/account-matcher.js";
+import type { DiscoveredAccount } from "../types/domain.js";
+
+function accounts(source: string, entries: Array<[string, number]>): DiscoveredAccount[] {
+  return entries.map(([name, callCount]) => ({
+    name,
+    normalizedName: name.toLowerCase().replace(/\b(inc|corp)\b/g, "").trim(),
+    source,
+    callCount,
+  }));
+}
+
+const providerAccounts = [
+  { provider: "gong", accounts: accounts("gong", [["Acme Inc", 4], ["Globex", 2]]) },
+  { provider: "zoom", accounts: accounts("zoom", [["Acme", 1], ["Initech", 5]]) },
+  { provider: "chorus", accounts: accounts("chorus", [["ACME Corp", 3]]) },
+];
+
+describe("matchSharedAccounts", () => {
+  it("keeps only accounts present in every provider by default", async () => {
+    const shared = await matchSharedAccounts({ providerAccounts });
+
+    expect(shared).toEqual([
+      {
+        id: "shared-1",
+        displayName: "ACME Corp",
+        providers: {
+          gong: { name: "Acme Inc", callCount: 4 },
+          zoom: { name: "Acme", callCount: 1 },
+          chorus: { name: "ACME Corp", callCount: 3 },
+        },
+        totalCallCount: 8,
+        confidence: 1,
+        matchReason: "exact",
+      },
+    ]);
+  });
+
+  it("also lists single-provider accounts when the scope is any", async () => {
+    const shared = await matchSharedAccounts({ providerAccounts, scope: "any" });
+
+    expect(shared.map((account) => [account.displayName, Object.keys(account.providers)])).toEqual([
+      ["ACME Corp", ["gong", "zoom", "chorus"]],
+      ["Initech", ["zoom"]],
+      ["Globex", ["gong"]],
+    ]);
+  });
+});
+
+describe("SelectedAccountSchema", () => {
+  it("maps legacy gongName/grainName fields onto providerNames", () => {
+    const selected = SelectedAccountSchema.parse({
+      id: "shared-1",
+      displayName: "Acme",
+      gongName: "Acme Inc",
+      grainName: "Acme",
+    });
+
+    expect(selected.providerNames).toEqual({ gong: "Acme Inc", grain: "Acme" });
+  });
+});
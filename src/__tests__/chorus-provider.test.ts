@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { ChorusProvider } from "../providers/chorusProvider.js";
+
+function fakeChorus() {
+  const urls: string[] = [];
+  const fetchImpl = (async (url: string | URL, init?: RequestInit) => {
+    const href = String(url);
+    urls.push(href);
+    expect(new Headers(init?.headers).get("authorization")).toBe("chorus-token");
+
+    if (href.includes("/v3/engagements")) {
+      return Response.json({
+        engagements: [
+          {
+            engagement_id: "e1",
+            subject: "Globex QBR",
+            date_time: 1767283200,
+            duration: 1800,
+            user_email: "rep@ourco.com",
+            account_name: "Globex Corporation",
+            participants: [
+              { name: "Rae Rep", email: "rep@ourco.com", type: "rep" },
+              { name: "Gia", email: "gia@globex-mail.com", type: "prospect", company_name: "Globex" },
+            ],
+          },
+          { engagement_id: "e2", subject: "No-show", no_show: true, account_name: "Initech" },
+          {
+            engagement_id: "e3",
+            subject: "Still processing",
+            duration: 600,
+            participants: [{ email: "ivy@initech.com", type: "prospect" }],
+          },
+        ],
+      });
+    }
+
+    if (href.endsWith("/api/v1/conversations/e1")) {
+      return Response.json({
+        data: {
+          id: "e1",
+          attributes: {
+            recording: {
+              utterances: [
+                { speaker_name: "Gia", snippet_time: 62.5, snippet: "Renewals closed 20% faster." },
+                { speaker_name: "Rae Rep", snippet_time: 70, snippet: "Can we quote that?" },
+              ],
+            },
+          },
+        },
+      });
+    }
+
+    return new Response("not found", { status: 404 });
+  }) as unknown as typeof fetch;
+
+  const provider = new ChorusProvider({
+    apiToken: "chorus-token",
+    baseUrl: "https://chorus.test",
+    internalDomains: "ourco.com",
+    http: { fetchImpl },
+  });
+
+  return { provider, urls };
+}
+
+describe("ChorusProvider", () => {
+  it("lists engagements, pulls utterances and prefers the CRM account name", async () => {
+    const { provider, urls } = fakeChorus();
+
+    const calls = await provider.fetchCalls({ fromDate: "2026-01-01" });
+
+    expect(urls[0]).toContain("min_date=2026-01-01T00%3A00%3A00.000Z");
+    expect(urls.some((url) => url.endsWith("/conversations/e2"))).toBe(false);
+    expect(calls).toHaveLength(1);
+    expect(calls[0]).toMatchObject({
+      provider: "chorus",
+      providerCallId: "e1",
+      accountName: "Globex Corporation",
+      occurredAt: "2026-01-01T16:00:00.000Z",
+      durationSeconds: 1800,
+    });
+    expect(calls[0].segments).toEqual([
+      { speaker: "Gia", text: "Renewals closed 20% faster.", startMs: 62500, endMs: 70000 },
+      { speaker: "Rae Rep", text: "Can we quote that?", startMs: 70000, endMs: null },
+    ]);
+    expect(calls[0].participants[0]).toEqual({ name: "Rae Rep", email: "rep@ourco.com", role: "host" });
+    expect(calls[0].metadata).toMatchObject({ accountCandidates: ["Globex Corporation", "Globex Mail"] });
+  });
+
+  it("discovers accounts from engagement metadata only", async () => {
+    const { provider, urls } = fakeChorus();
+
+    const accounts = await provider.discoverAccounts({});
+
+    expect(accounts.map((account) => [account.name, account.callCount])).toEqual([
+      ["Globex Corporation", 1],
+      ["Initech", 1],
+    ]);
+    expect(urls.every((url) => url.includes("/v3/engagements"))).toBe(true);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { MockLlmClient } from "../llm/mockClient.js";
+import { CaseStudyGenerator } from "../pipeline/caseStudies.js";
+import { createCitationLocator } from "../pipeline/citations.js";
+import { QuoteExtractor } from "../pipeline/quotes.js";
+import { USE_CASES } from "../prompts/useCases.js";
+import { segmentsToTranscriptText } from "../providers/transcript-parsers.js";
+import type { CallSegment, CanonicalCall } from "../types/domain.js";
+
+const segments: CallSegment[] = [
+  { speaker: "Dana Scott", text: "How did the rollout go?", startMs: 1000, endMs: 4000 },
+  { speaker: "Alex Rivera", text: "Invoice processing went from 12 days to 4 days.", startMs: 5000, endMs: 9000 },
+  {
+    speaker: "Alex Rivera",
+    text: "That freed up 30 hours a week for audit work.",
+    startMs: 9000,
+    endMs: 12000,
+    provenance: {
+      speaker: { provider: "gong", providerCallId: "g-1" },
+      text: { provider: "grain", providerCallId: "r-1" },
+      timing: { provider: "grain", providerCallId: "r-1" },
+    },
+  },
+];
+
+const call: CanonicalCall = {
+  provider: "gong",
+  providerCallId: "g-1",
+  accountId: "acme",
+  accountName: "Acme",
+  title: "Rollout review",
+  occurredAt: "2026-03-02T15:00:00Z",
+  durationSeconds: 900,
+  participants: [],
+  transcriptText: segmentsToTranscriptText(segments),
+  segments,
+};
+
+describe("createCitationLocator", () => {
+  it("points a transcript range at the segments, times and text sources it covers", () => {
+    const start = call.transcriptText.indexOf("4 days.");
+    const end = call.transcriptText.indexOf(" for audit");
+
+    expect(createCitationLocator(call)(start, end)).toEqual({
+      provider: "gong",
+      providerCallId: "g-1",
+      charStart: start,
+      charEnd: end,
+      segmentIndices: [1, 2],
+      segmentSources: [
+        { provider: "gong", providerCallId: "g-1" },
+        { provider: "grain", providerCallId: "r-1" },
+      ],
+      startMs: 5000,
+      endMs: 12000,
+    });
+  });
+
+  it("carries citations into the extracted evidence and the story prompt", async () => {
+    const llm = new MockLlmClient();
+    const { quotes, claims } = await new QuoteExtractor(llm).extractFromCalls([call]);
+
+    expect(quotes[1]).toMatchObject({
+      quote: "Alex Rivera: That freed up 30 hours a week for audit work.",
+      sourceTimestampMs: 9000,
+      citation: { segmentIndices: [2], startMs: 9000, endMs: 12000 },
+    });
+    expect(claims[0].citation.segmentIndices).toEqual([1]);
+
+    const prompts: string[] = [];
+    const recording = {
+      provider: llm.provider,
+      model: llm.model,
+      chat: (request: Parameters<MockLlmClient["chat"]>[0]) => {
+        prompts.push(request.messages[1].content);
+        return llm.chat(request);
+      },
+    };
+    await new CaseStudyGenerator(recording).generateAll(USE_CASES.slice(0, 1), [call], "", quotes, claims);
+
+    expect(prompts[0]).toContain("t=0:09 cite=[seg 2, chars");
+    expect(prompts[0]).toContain(", 0:09-0:12, grain] confidence=");
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import { MockLlmClient } from "../llm/mockClient.js";
+import { CaseStudyGenerator } from "../pipeline/caseStudies.js";
+import { findClaimConflicts } from "../pipeline/claimConflicts.js";
+import { QuoteExtractor } from "../pipeline/quotes.js";
+import { classifySpeakers } from "../pipeline/speakers.js";
+import { USE_CASES } from "../prompts/useCases.js";
+import { segmentsToTranscriptText } from "../providers/transcript-parsers.js";
+import type { CallSegment, CanonicalCall } from "../types/domain.js";
+
+function makeCall(id: string, title: string, occurredAt: string, lines: Array<[string, string]>): CanonicalCall {
+  const segments: CallSegment[] = lines.map(([speaker, text], index) => ({
+    speaker,
+    text,
+    startMs: index * 10_000,
+    endMs: index * 10_000 + 9_000,
+  }));
+  const call: CanonicalCall = {
+    provider: "gong",
+    providerCallId: id,
+    accountId: "acme",
+    accountName: "Acme",
+    title,
+    occurredAt,
+    durationSeconds: 1800,
+    participants: [
+      { name: "Alex Rivera", email: "alex@vendor.example", role: "host" },
+      { name: "Dana Scott", email: "dana@acme.example", role: "participant" },
+    ],
+    transcriptText: segmentsToTranscriptText(segments),
+    segments,
+  };
+  return classifySpeakers(call, { internalDomains: ["vendor.example"] });
+}
+
+const calls = [
+  makeCall("g-1", "Discovery", "2026-01-10T15:00:00Z", [
+    ["Dana Scott", "Billing errors dropped 35% after the pilot."],
+    ["Dana Scott", "Audit prep costs us $420,000 a year today."],
+  ]),
+  makeCall("g-2", "QBR", "2026-03-01T15:00:00Z", [
+    ["Dana Scott", "Billing errors dropped by 38% this quarter."],
+    ["Dana Scott", "Audit prep costs us $35,000 a month today."],
+  ]),
+  makeCall("g-3", "Renewal", "2026-04-01T15:00:00Z", [
+    ["Alex Rivera", "Your billing errors dropped 40% since launch."],
+    ["Dana Scott", "Onboarding took 12 days for the new team."],
+  ]),
+];
+
+describe("findClaimConflicts", () => {
+  it("groups a metric across calls and leads with the customer's most recent figure", async () => {
+    const { claims } = await new QuoteExtractor(new MockLlmClient(), { speakers: "all" }).extractFromCalls(calls);
+
+    const conflicts = findClaimConflicts(claims, calls);
+
+    // The yearly and monthly audit costs agree once both are per year; onboarding is stated once.
+    expect(conflicts).toHaveLength(1);
+    expect(conflicts[0]).toMatchObject({
+      subject: "billing error",
+      claimType: "error_reduction",
+      unitFamily: "percent",
+      consolidated: {
+        sourceCallId: "g-2",
+        speaker: "Dana Scott",
+        speakerAffiliation: "external",
+        normalized: { value: 38 },
+        basis: "most recent statement (2026-03-01) by a customer speaker",
+      },
+    });
+    expect(
+      conflicts[0].sources.map((source) => [source.sourceCallId, source.normalized.value, source.speakerAffiliation])
+    ).toEqual([
+      ["g-1", 35, "external"],
+      ["g-2", 38, "external"],
+      ["g-3", 40, "internal"],
+    ]);
+  });
+
+  it("passes conflicts to the story with the value to use", async () => {
+    const llm = new MockLlmClient();
+    const { quotes, claims } = await new QuoteExtractor(llm, { speakers: "all" }).extractFromCalls(calls);
+    const prompts: string[] = [];
+    const recording = {
+      provider: llm.provider,
+      model: llm.model,
+      chat: (request: Parameters<MockLlmClient["chat"]>[0]) => {
+        prompts.push(request.messages[1].content);
+        return llm.chat(request);
+      },
+    };
+
+    const { artifacts } = await new CaseStudyGenerator(recording).generateAll(
+      USE_CASES.slice(0, 1),
+      calls,
+      "",
+      quotes,
+      claims,
+      findClaimConflicts(claims, calls)
+    );
+
+    expect(prompts[0]).toContain(
+      "- metric=billing error type=error_reduction use=38% [g-2 2026-03-01 speaker=Dana Scott] basis=most recent statement (2026-03-01) by a customer speaker :: also stated: 35% [g-1 2026-01-10 speaker=Dana Scott]; 40% [g-3 2026-04-01 speaker=Alex Rivera]"
+    );
+    expect(artifacts[0].markdown).toContain(
+      "- billing error: 38% [g-2 2026-03-01 speaker=Dana Scott] (also stated: 35% [g-1 2026-01-10 speaker=Dana Scott]; 40% [g-3 2026-04-01 speaker=Alex Rivera])"
+    );
+  });
+});
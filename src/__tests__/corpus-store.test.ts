@@ -0,0 +1,143 @@
+import { mkdtemp, readdir, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { StoreBackedProvider } from "../providers/storeBackedProvider.js";
+import { CorpusStore } from "../store/corpusStore.js";
+import type { CallProvider, CanonicalCall, ProviderSyncInput } from "../types/domain.js";
+
+function mkCall(id: string, occurredAt: string, accountName = "Acme"): CanonicalCall {
+  return {
+    provider: "fake",
+    providerCallId: id,
+    accountId: "acct-1",
+    accountName,
+    title: `Call ${id}`,
+    occurredAt,
+    durationSeconds: 600,
+    participants: [],
+    transcriptText: `Transcript for ${id}`,
+    segments: [],
+  };
+}
+
+function fakeProvider(remote: CanonicalCall[], pageSize = 2) {
+  const requests: ProviderSyncInput[] = [];
+  const provider: CallProvider = {
+    name: "fake",
+    async fetchCalls() {
+      throw new Error("fetchCalls should not be used when syncCalls is available");
+    },
+    async syncCalls(input) {
+      requests.push(input);
+      const inWindow = remote.filter((call) => (input.fromDate ? call.occurredAt >= input.fromDate : true));
+      const offset = input.cursor ? Number(input.cursor) : 0;
+      const page = inWindow.slice(offset, offset + pageSize);
+      const next = offset + pageSize;
+      const complete = next >= inWindow.length;
+      return { calls: page, cursor: complete ? null : String(next), complete };
+    },
+  };
+  return { provider, requests };
+}
+
+describe("StoreBackedProvider", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "callcase-store-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("syncs all pages once, then only requests calls after the newest stored call", async () => {
+    const remote = [
+      mkCall("c1", "2026-01-01T10:00:00.000Z"),
+      mkCall("c2", "2026-01-10T10:00:00.000Z", "Other"),
+      mkCall("c3", "2026-01-20T10:00:00.000Z"),
+    ];
+    const { provider, requests } = fakeProvider(remote);
+    const stored = new StoreBackedProvider(provider, new CorpusStore(dir));
+
+    const first = await stored.fetchCalls({ accountName: "Acme" });
+    expect(first.map((call) => call.providerCallId)).toEqual(["c1", "c3"]);
+    expect(requests.map((request) => request.cursor)).toEqual([null, "2"]);
+
+    remote.push(mkCall("c4", "2026-02-01T10:00:00.000Z"));
+    requests.length = 0;
+
+    const second = await stored.fetchCalls({ accountName: "Acme" });
+    expect(second.map((call) => call.providerCallId)).toEqual(["c1", "c3", "c4"]);
+    expect(requests).toHaveLength(1);
+    expect(requests[0].fromDate).toBe("2026-01-18T10:00:00.000Z");
+  });
+
+  it("resumes an interrupted sync from the saved cursor", async () => {
+    const remote = [
+      mkCall("c1", "2026-01-01T10:00:00.000Z"),
+      mkCall("c2", "2026-01-02T10:00:00.000Z"),
+      mkCall("c3", "2026-01-03T10:00:00.000Z"),
+    ];
+    const { provider, requests } = fakeProvider(remote);
+    let failNext = false;
+    const flaky: CallProvider = {
+      ...provider,
+      async syncCalls(input) {
+        if (failNext) throw new Error("network down");
+        failNext = true;
+        return provider.syncCalls!(input);
+      },
+    };
+    const store = new CorpusStore(dir);
+
+    await expect(new StoreBackedProvider(flaky, store).fetchCalls({})).rejects.toThrow("network down");
+    expect((await store.readState())?.pending?.cursor).toBe("2");
+
+    requests.length = 0;
+    const calls = await new StoreBackedProvider(provider, store).fetchCalls({});
+    expect(calls).toHaveLength(3);
+    expect(requests[0].cursor).toBe("2");
+  });
+
+  it("re-syncs from scratch when refresh is requested", async () => {
+    const remote = [mkCall("c1", "2026-01-01T10:00:00.000Z")];
+    const { provider, requests } = fakeProvider(remote);
+    const stored = new StoreBackedProvider(provider, new CorpusStore(dir));
+
+    await stored.fetchCalls({});
+    requests.length = 0;
+    await stored.fetchCalls({ refresh: true });
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].fromDate).toBeUndefined();
+  });
+
+  it("runs concurrent syncs of the same store one after another", async () => {
+    const remote = [mkCall("c1", "2026-01-01T10:00:00.000Z"), mkCall("c2", "2026-01-02T10:00:00.000Z")];
+    const { provider } = fakeProvider(remote, 1);
+    let active = 0;
+    let peak = 0;
+    const slow: CallProvider = {
+      ...provider,
+      async syncCalls(input) {
+        active += 1;
+        peak = Math.max(peak, active);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        active -= 1;
+        return provider.syncCalls!(input);
+      },
+    };
+
+    const [a, b] = await Promise.all([
+      new StoreBackedProvider(slow, new CorpusStore(dir)).fetchCalls({}),
+      new StoreBackedProvider(slow, new CorpusStore(dir)).fetchCalls({}),
+    ]);
+
+    expect(peak).toBe(1);
+    expect(a.map((call) => call.providerCallId)).toEqual(["c1", "c2"]);
+    expect(b.map((call) => call.providerCallId)).toEqual(["c1", "c2"]);
+    expect((await readdir(dir)).filter((file) => file.endsWith(".tmp"))).toEqual([]);
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, expect, it } from "vitest";
 import type { CanonicalCall } from "../types/domain.js";
 import { dedupeCalls } from "../pipeline/dedupe.js";
+import { DEFAULT_DEDUPE_POLICY, DedupePolicyInputSchema, resolveDedupePolicy } from "../pipeline/dedupePolicy.js";
 
 function mkCall(overrides: Partial<CanonicalCall>): CanonicalCall {
   return {
@@ -55,4 +56,194 @@ describe("dedupe", () => {
     expect(result.calls).toHaveLength(1);
     expect(result.duplicates[0]?.reason).toBe("same_recording_url");
   });
+
+  it("matches near-identical transcripts within the time window but not across days", () => {
+    const words = Array.from({ length: 120 }, (_, i) => `topic${i}`);
+    const transcript = words.join(" ");
+    const a = mkCall({ provider: "gong", providerCallId: "g-3", title: "Weekly sync", transcriptText: transcript });
+    const b = mkCall({
+      provider: "zoom",
+      providerCallId: "z-3",
+      title: "Zoom meeting",
+      occurredAt: "2026-02-01T12:30:00Z",
+      transcriptText: `${transcript} closing remarks`,
+      segments: [],
+    });
+    const c = mkCall({
+      provider: "zoom",
+      providerCallId: "z-4",
+      title: "Zoom meeting",
+      occurredAt: "2026-02-03T12:00:00Z",
+      transcriptText: `${[...words].reverse().join(" ")} closing remarks`,
+      segments: [],
+    });
+
+    const result = dedupeCalls([c, b, a]);
+
+    expect(result.calls.map((call) => call.providerCallId)).toEqual(["g-3", "z-4"]);
+    expect(result.duplicates).toEqual([
+      {
+        keptCallId: "g-3",
+        keptProvider: "gong",
+        droppedCallId: "z-3",
+        droppedProvider: "zoom",
+        reason: "high_transcript_similarity",
+      },
+    ]);
+  });
+
+  it("drops a clip whose transcript is a stretch of a longer call", () => {
+    const words = Array.from({ length: 200 }, (_, i) => `phrase${i}`);
+    const full = mkCall({ provider: "gong", providerCallId: "g-5", transcriptText: words.join(" ") });
+    const clip = mkCall({
+      provider: "grain",
+      providerCallId: "gr-5",
+      title: "Highlight: ROI discussion",
+      occurredAt: "2026-02-04T09:00:00Z",
+      durationSeconds: 90,
+      transcriptText: words.slice(60, 120).join(" "),
+    });
+
+    const result = dedupeCalls([clip, full]);
+
+    expect(result.calls.map((call) => call.providerCallId)).toEqual(["g-5"]);
+    expect(result.duplicates[0]).toMatchObject({ keptCallId: "g-5", droppedCallId: "gr-5", reason: "contained_clip" });
+  });
+
+  it("stitches a recording that was stopped and restarted", () => {
+    const first = mkCall({
+      providerCallId: "g-6",
+      title: "Acme onboarding kickoff",
+      durationSeconds: 1200,
+      transcriptText: "Part one of the kickoff.",
+      segments: [{ speaker: "A", text: "Part one of the kickoff.", startMs: 0, endMs: 4000 }],
+    });
+    const second = mkCall({
+      providerCallId: "g-7",
+      title: "Acme onboarding kickoff (2)",
+      occurredAt: "2026-02-01T12:22:00Z",
+      durationSeconds: 600,
+      transcriptText: "Part two after the restart.",
+      segments: [{ speaker: "B", text: "Part two after the restart.", startMs: 1000, endMs: 3000 }],
+    });
+
+    const result = dedupeCalls([second, first]);
+
+    expect(result.calls).toHaveLength(1);
+    expect(result.calls[0]).toMatchObject({
+      providerCallId: "g-6",
+      durationSeconds: 1920,
+      transcriptText: "Part one of the kickoff.\n\nPart two after the restart.",
+    });
+    expect(result.calls[0].segments[1]).toMatchObject({ speaker: "B", startMs: 1321000, endMs: 1323000 });
+    expect(result.duplicates[0]).toMatchObject({ droppedCallId: "g-7", reason: "stitched_split_recording" });
+  });
+
+  it("honours forceKeep, preferProvider and forceMerge overrides", () => {
+    const a = mkCall({ provider: "gong", providerCallId: "g-8" });
+    const b = mkCall({ provider: "grain", providerCallId: "gr-8", transcriptText: "We reduced cycle time by 40%." });
+    const c = mkCall({
+      provider: "zoom",
+      providerCallId: "z-8",
+      title: "Customer interview",
+      occurredAt: "2026-03-10T09:00:00Z",
+      transcriptText: "An unrelated conversation about hiring plans.",
+    });
+
+    const kept = dedupeCalls([a, b], { overrides: { forceKeep: ["grain:gr-8"] } });
+    expect(kept.calls).toHaveLength(2);
+    expect(kept.decisions).toEqual([
+      expect.objectContaining({ outcome: "kept_by_override", reason: "matching_time_and_title", timeDeltaMinutes: 0 }),
+    ]);
+
+    const preferred = dedupeCalls([a, b], { overrides: { preferProvider: ["grain"] } });
+    expect(preferred.calls.map((call) => call.providerCallId)).toEqual(["gr-8"]);
+
+    const forced = dedupeCalls([a, b, c], {
+      overrides: { preferProvider: ["grain"], forceMerge: [["gong:g-8", "zoom:z-8"]] },
+    });
+    // g-8 was already merged into gr-8, so the forced pair follows it there.
+    expect(forced.calls.map((call) => call.providerCallId)).toEqual(["gr-8"]);
+    expect(forced.duplicates.map((duplicate) => [duplicate.droppedCallId, duplicate.reason])).toEqual([
+      ["g-8", "matching_time_and_title"],
+      ["z-8", "manual_merge"],
+    ]);
+  });
+
+  it("reports similar calls that were not merged as near misses", () => {
+    // Same title five minutes apart, but the durations are too far apart for the title rule.
+    const a = mkCall({ providerCallId: "g-9", title: "Acme pricing review" });
+    const b = mkCall({
+      providerCallId: "g-10",
+      title: "Acme pricing review",
+      occurredAt: "2026-02-01T12:05:00Z",
+      durationSeconds: 2400,
+      transcriptText: "Different discussion about contract terms.",
+    });
+
+    const result = dedupeCalls([a, b]);
+
+    expect(result.calls).toHaveLength(2);
+    expect(result.decisions).toEqual([
+      {
+        outcome: "near_miss",
+        reason: null,
+        score: null,
+        kept: { provider: "gong", providerCallId: "g-9", title: "Acme pricing review", occurredAt: a.occurredAt },
+        other: { provider: "gong", providerCallId: "g-10", title: "Acme pricing review", occurredAt: b.occurredAt },
+        timeDeltaMinutes: 5,
+        durationDeltaSeconds: 600,
+        titleSimilarity: 1,
+        transcriptSimilarity: 0,
+      },
+    ]);
+  });
+
+  it("applies a policy's thresholds, rules and provider preference", () => {
+    const morning = mkCall({
+      provider: "grain",
+      providerCallId: "gr-11",
+      title: "Async design review",
+      occurredAt: "2026-02-05T09:00:00Z",
+      durationSeconds: 600,
+    });
+    const evening = mkCall({
+      provider: "gong",
+      providerCallId: "g-11",
+      title: "Async design review",
+      occurredAt: "2026-02-05T18:00:00Z",
+      durationSeconds: 900,
+      transcriptText: "A shorter take on the same review.",
+      segments: [],
+    });
+    const sameDay = {
+      titleWindowMinutes: 1440,
+      titleDurationDeltaSeconds: 3600,
+      rules: ["matching_time_and_title" as const],
+    };
+
+    expect(dedupeCalls([morning, evening]).calls).toHaveLength(2);
+
+    const byQuality = dedupeCalls([morning, evening], { policy: sameDay });
+    expect(byQuality.calls.map((call) => call.providerCallId)).toEqual(["gr-11"]);
+    expect(byQuality.policy).toMatchObject({ ...sameDay, titleSimilarity: 0.72 });
+
+    const byProvider = dedupeCalls([morning, evening], { policy: { ...sameDay, providerPreference: ["gong"] } });
+    expect(byProvider.calls.map((call) => call.providerCallId)).toEqual(["g-11"]);
+
+    const onlyUrls = dedupeCalls([mkCall({ providerCallId: "g-12" }), mkCall({ providerCallId: "g-13" })], {
+      policy: { rules: ["same_recording_url"] },
+    });
+    expect(onlyUrls.calls).toHaveLength(2);
+  });
+
+  it("fills policy defaults and rejects unknown fields", () => {
+    expect(resolveDedupePolicy({ qualityWeights: { speakers: 3 } }).qualityWeights).toEqual({
+      ...DEFAULT_DEDUPE_POLICY.qualityWeights,
+      speakers: 3,
+    });
+    expect(DedupePolicyInputSchema.safeParse({ rules: ["same_title"] }).success).toBe(false);
+    expect(DedupePolicyInputSchema.safeParse({ titleWindow: 10 }).success).toBe(false);
+    expect(DedupePolicyInputSchema.safeParse({ transcriptSimilarity: 0.5 }).success).toBe(false);
+  });
 });
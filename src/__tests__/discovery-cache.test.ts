@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { DiscoveryCache } from "../services/discoveryCache.js";
+
+describe("DiscoveryCache", () => {
+  it("reuses a value until the TTL expires", async () => {
+    let now = 0;
+    let computed = 0;
+    const cache = new DiscoveryCache<number>(1000, () => now);
+    const compute = async () => {
+      computed += 1;
+      return computed;
+    };
+
+    const first = await cache.getOrCompute("k", compute);
+    now = 500;
+    const second = await cache.getOrCompute("k", compute);
+    now = 1500;
+    const third = await cache.getOrCompute("k", compute);
+
+    expect([first.value, second.value, third.value]).toEqual([1, 1, 2]);
+    expect(second.fromCache).toBe(true);
+    expect(second.generatedAt).toBe(new Date(0).toISOString());
+    expect(third.fromCache).toBe(false);
+  });
+
+  it("shares one computation between concurrent callers and honours refresh", async () => {
+    let computed = 0;
+    const cache = new DiscoveryCache<number>(60_000);
+    const compute = async () => {
+      computed += 1;
+      return computed;
+    };
+
+    const [a, b] = await Promise.all([cache.getOrCompute("k", compute), cache.getOrCompute("k", compute)]);
+    expect(a.value).toBe(1);
+    expect(b.value).toBe(1);
+
+    const refreshed = await cache.getOrCompute("k", compute, { refresh: true });
+    expect(refreshed.value).toBe(2);
+
+    expect(cache.invalidate()).toBe(1);
+    expect((await cache.getOrCompute("k", compute)).value).toBe(3);
+  });
+
+  it("does not hand a refresh the result of a lookup already in flight", async () => {
+    const resolvers: Array<(value: number) => void> = [];
+    const cache = new DiscoveryCache<number>(60_000);
+    const compute = () => new Promise<number>((resolve) => resolvers.push(resolve));
+
+    const stale = cache.getOrCompute("k", compute);
+    const refreshed = cache.getOrCompute("k", compute, { refresh: true });
+    expect(resolvers).toHaveLength(2);
+
+    resolvers[1](2);
+    resolvers[0](1);
+    expect((await stale).value).toBe(1);
+    expect((await refreshed).value).toBe(2);
+    expect((await cache.getOrCompute("k", compute)).value).toBe(2);
+  });
+});
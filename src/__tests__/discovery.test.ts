@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { GongProvider } from "../providers/gongProvider.js";
+import { GrainProvider } from "../providers/grainProvider.js";
+
+function recordingFetch(respond: (url: string) => unknown) {
+  const urls: string[] = [];
+  const fetchImpl = (async (url: string | URL) => {
+    urls.push(String(url));
+    return Response.json(respond(String(url)));
+  }) as unknown as typeof fetch;
+  return { fetchImpl, urls };
+}
+
+describe("metadata-only discovery", () => {
+  it("counts Gong accounts from parties without requesting transcripts", async () => {
+    const { fetchImpl, urls } = recordingFetch(() => ({
+      calls: [
+        { id: "1", duration: 1200, parties: [{ emailAddress: "ana@acme.io" }] },
+        { id: "2", duration: 900, parties: [{ emailAddress: "bo@acme.io" }] },
+        { id: "3", duration: 0, parties: [{ emailAddress: "cy@acme.io" }] },
+        { id: "4", duration: 600, parties: [{ emailAddress: "di@ourco.com" }] },
+      ],
+    }));
+
+    const gong = new GongProvider({
+      baseUrl: "https://gong.test",
+      accessToken: "token",
+      internalDomains: "ourco.com",
+      http: { fetchImpl },
+    });
+
+    const accounts = await gong.discoverAccounts({});
+
+    expect(accounts[0]).toMatchObject({ name: "Acme", callCount: 2 });
+    expect(urls.every((url) => url.endsWith("/v2/calls/extensive"))).toBe(true);
+  });
+
+  it("counts Grain accounts from the list payload without detail requests", async () => {
+    const { fetchImpl, urls } = recordingFetch(() => ({
+      recordings: [
+        { id: "r1", participants: [{ email: "ana@acme.io" }] },
+        { id: "r2", has_transcript: false, participants: [{ email: "bo@acme.io" }] },
+        { id: "r3", company: "Globex" },
+      ],
+    }));
+
+    const grain = new GrainProvider({
+      apiToken: "token",
+      baseUrl: "https://grain.test",
+      http: { fetchImpl },
+    });
+
+    const accounts = await grain.discoverAccounts({});
+
+    expect(accounts.map((account) => [account.name, account.callCount])).toEqual([
+      ["Acme", 1],
+      ["Globex", 1],
+    ]);
+    expect(urls).toHaveLength(1);
+    expect(urls[0]).not.toContain("transcript_format");
+  });
+});
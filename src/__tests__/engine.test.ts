@@ -0,0 +1,150 @@
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { DEFAULT_DEDUPE_POLICY } from "../pipeline/dedupePolicy.js";
+import { runCaseStudyPipeline } from "../pipeline/engine.js";
+import { USE_CASES } from "../prompts/useCases.js";
+import type { CallProvider, CanonicalCall, ProviderFetchInput } from "../types/domain.js";
+
+function mkCall(provider: string, id: string, occurredAt: string, transcriptText: string): CanonicalCall {
+  return {
+    provider,
+    providerCallId: id,
+    accountId: `${provider}-acct`,
+    accountName: `${provider} name`,
+    title: `Call ${id}`,
+    occurredAt,
+    durationSeconds: 1800,
+    participants: [],
+    transcriptText,
+    segments: [],
+  };
+}
+
+function fakeProvider(name: string, calls: CanonicalCall[]) {
+  const requests: ProviderFetchInput[] = [];
+  const provider: CallProvider = {
+    name,
+    async fetchCalls(input) {
+      requests.push(input);
+      return calls;
+    },
+  };
+  return { provider, requests };
+}
+
+describe("runCaseStudyPipeline", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "callcase-engine-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("fetches every source under its own account name, dedupes and writes the corpus", async () => {
+    const gong = fakeProvider("gong", [
+      mkCall("gong", "g-2", "2026-02-01T10:00:00Z", "Renewal planning for next year."),
+      mkCall("gong", "g-1", "2026-01-05T10:00:00Z", "We cut onboarding from six weeks to two."),
+    ]);
+    const grain = fakeProvider("grain", [
+      mkCall("grain", "r-1", "2026-01-05T10:00:00Z", "We cut onboarding from six weeks to two."),
+    ]);
+
+    const result = await runCaseStudyPipeline({
+      account: { id: "acme", name: "Acme Corp" },
+      sources: [
+        { provider: gong.provider, accountName: "Acme Inc" },
+        { provider: grain.provider },
+      ],
+      fetch: { fromDate: "2026-01-01" },
+      outputDir: path.join(dir, "out"),
+      useCases: [],
+      exportDir: path.join(dir, "downloads"),
+    });
+
+    expect(gong.requests[0]).toMatchObject({ accountName: "Acme Inc", fromDate: "2026-01-01" });
+    expect(grain.requests[0]).toMatchObject({ accountName: "Acme Corp", accountId: undefined });
+
+    expect(result.callsFetched).toBe(3);
+    expect(result.duplicatesRemoved).toBe(1);
+    expect(result.calls.map((call) => [call.occurredAt, call.accountName])).toEqual([
+      ["2026-01-05T10:00:00Z", "Acme Corp"],
+      ["2026-02-01T10:00:00Z", "Acme Corp"],
+    ]);
+    expect(result.evidence).toBeNull();
+    expect(result.stories).toEqual([]);
+
+    expect(result.corpus.mergedMarkdownExportPath).toBe(path.join(dir, "downloads", "Acme Corp.md"));
+    expect(await readFile(result.corpus.mergedMarkdownExportPath!, "utf8")).toBe(result.mergedMarkdown);
+
+    const manifest = JSON.parse(await readFile(result.manifestPath, "utf8"));
+    expect(result.manifestPath).toBe(path.join(dir, "out", "acme-corp", "manifest.json"));
+    expect(manifest).toMatchObject({
+      providers: ["gong", "grain"],
+      totalFetchedCalls: 3,
+      callsProcessed: 2,
+      dedupeReportPath: result.corpus.dedupeReportPath,
+      dedupePolicy: DEFAULT_DEDUPE_POLICY,
+      caseStudyPaths: [],
+    });
+  });
+
+  it("writes the dedupe review and honours the account's overrides file", async () => {
+    const calls = [
+      mkCall("gong", "g-1", "2026-01-05T10:00:00Z", "We cut onboarding from six weeks to two."),
+      mkCall("grain", "r-1", "2026-01-05T10:00:00Z", "We cut onboarding from six weeks to two."),
+    ];
+    const run = () =>
+      runCaseStudyPipeline({
+        account: { id: "acme", name: "Acme" },
+        sources: [{ provider: fakeProvider("mixed", calls).provider }],
+        outputDir: dir,
+        useCases: [],
+      });
+
+    const first = await run();
+    expect(first.duplicatesRemoved).toBe(1);
+    expect(first.corpus.dedupeOverridesPath).toBe(path.join(dir, "acme", "dedupe", "overrides.json"));
+    expect(await readFile(first.corpus.dedupeReviewMarkdownPath, "utf8")).toContain("| gong:g-1");
+    expect(await readFile(first.corpus.dedupeReviewHtmlPath, "utf8")).toContain("same_transcript_hash");
+
+    await writeFile(first.corpus.dedupeOverridesPath, JSON.stringify({ forceKeep: ["grain:r-1"] }));
+    const second = await run();
+    expect(second.duplicatesRemoved).toBe(0);
+    expect(await readFile(second.corpus.dedupeReviewMarkdownPath, "utf8")).toContain("## Kept by override (1)");
+
+    await writeFile(first.corpus.dedupeOverridesPath, JSON.stringify({ forceKeep: "grain:r-1" }));
+    await expect(run()).rejects.toThrow(/^Invalid overrides.json at /);
+  });
+
+  it("names every source in the error when no calls come back", async () => {
+    const empty = fakeProvider("zoom", []);
+
+    await expect(
+      runCaseStudyPipeline({
+        account: { id: "acme", name: "Acme" },
+        sources: [{ provider: empty.provider, label: "Zoom" }],
+        outputDir: dir,
+        useCases: [],
+      })
+    ).rejects.toThrow('No calls with transcripts found for account "Acme" in Zoom.');
+  });
+
+  it("requires an LLM client before generating case studies", async () => {
+    const gong = fakeProvider("gong", [mkCall("gong", "g-1", "2026-01-05T10:00:00Z", "Hello")]);
+
+    await expect(
+      runCaseStudyPipeline({
+        account: { id: "acme", name: "Acme" },
+        sources: [{ provider: gong.provider }],
+        outputDir: dir,
+        useCases: USE_CASES.slice(0, 1),
+      })
+    ).rejects.toThrow("An LLM client is required");
+    expect(gong.requests).toHaveLength(0);
+  });
+});
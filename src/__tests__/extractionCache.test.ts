@@ -0,0 +1,93 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { MockLlmClient } from "../llm/mockClient.js";
+import type { LlmClient } from "../llm/types.js";
+import { EXTRACTION_PROMPT_VERSION, QuoteExtractor } from "../pipeline/quotes.js";
+import { segmentsToTranscriptText } from "../providers/transcript-parsers.js";
+import { ExtractionCache } from "../store/extractionCache.js";
+import type { CallSegment, CanonicalCall } from "../types/domain.js";
+
+const segments: CallSegment[] = [
+  { speaker: "Alex Rivera", text: "Invoice processing went from 12 days to 4 days.", startMs: 0, endMs: 4000 },
+  { speaker: "Alex Rivera", text: "That freed up 30 hours a week for audit work.", startMs: 4000, endMs: 8000 },
+];
+
+function makeCall(provider: string, providerCallId: string): CanonicalCall {
+  return {
+    provider,
+    providerCallId,
+    accountId: "acme",
+    accountName: "Acme",
+    title: "Rollout review",
+    occurredAt: "2026-03-02T15:00:00Z",
+    durationSeconds: 600,
+    participants: [],
+    transcriptText: segmentsToTranscriptText(segments),
+    segments,
+  };
+}
+
+function countingClient(model = "mock"): LlmClient & { requests: number } {
+  const mock = new MockLlmClient();
+  return {
+    provider: "mock",
+    model,
+    requests: 0,
+    async chat(request) {
+      this.requests += 1;
+      return mock.chat(request);
+    },
+  };
+}
+
+describe("ExtractionCache", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "callcase-extraction-cache-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("reuses responses for a transcript already extracted with the same model and prompt", async () => {
+    const cache = new ExtractionCache(dir);
+    const first = countingClient();
+    const fresh = await new QuoteExtractor(first, { cache }).extractFromCalls([makeCall("gong", "g-1")]);
+
+    const second = countingClient();
+    const reused = await new QuoteExtractor(second, { cache }).extractFromCalls([makeCall("grain", "r-1")]);
+
+    expect(first.requests).toBe(1);
+    expect(second.requests).toBe(0);
+    expect(cache.stats()).toEqual({ hits: 1, misses: 1 });
+    expect(reused.quotes.map((quote) => quote.quote)).toEqual(fresh.quotes.map((quote) => quote.quote));
+    expect(reused.quotes.every((quote) => quote.sourceCallId === "r-1")).toBe(true);
+
+    const otherModel = countingClient("mock-2");
+    await new QuoteExtractor(otherModel, { cache }).extractFromCalls([makeCall("gong", "g-1")]);
+    expect(otherModel.requests).toBe(1);
+  });
+
+  it("lists and invalidates entries by transcript, call, model and prompt version", async () => {
+    const cache = new ExtractionCache(dir);
+    await new QuoteExtractor(countingClient(), { cache }).extractFromCalls([makeCall("gong", "g-1")]);
+    await new QuoteExtractor(countingClient("mock-2"), { cache }).extractFromCalls([makeCall("gong", "g-1")]);
+
+    const [entry] = await cache.list({ model: "mock" });
+    expect(entry).toMatchObject({
+      key: { llmProvider: "mock", model: "mock", promptVersion: EXTRACTION_PROMPT_VERSION, windowTokens: 12_000 },
+      source: { provider: "gong", providerCallId: "g-1", title: "Rollout review" },
+    });
+    expect(entry.responses).toHaveLength(1);
+
+    expect(await cache.invalidate({ stalePromptVersion: EXTRACTION_PROMPT_VERSION })).toBe(0);
+    expect(await cache.invalidate({ model: "mock-2" })).toBe(1);
+    expect(await cache.list({ providerCallId: "g-1" })).toHaveLength(1);
+    expect(await cache.invalidate({ transcriptHash: entry.key.transcriptHash })).toBe(1);
+    expect(await cache.list()).toEqual([]);
+  });
+});
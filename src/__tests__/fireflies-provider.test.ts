@@ -0,0 +1,154 @@
+import { createServer } from "node:http";
+import type { Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { FirefliesProvider } from "../providers/firefliesProvider.js";
+import { ProviderAuthError } from "../providers/httpClient.js";
+import { matchSharedAccounts } from "../webapp/account-matcher.js";
+
+interface GraphqlRequest {
+  query: string;
+  variables: Record<string, unknown>;
+  authorization: string | undefined;
+}
+
+const TRANSCRIPTS = [
+  {
+    id: "ff-1",
+    title: "Acme onboarding retro",
+    date: Date.parse("2026-03-04T15:00:00Z"),
+    duration: 42.5,
+    transcript_url: "https://app.fireflies.ai/view/ff-1",
+    organizer_email: "csm@ourco.com",
+    participants: ["csm@ourco.com,lee@acme.io"],
+    meeting_attendees: [{ displayName: "Lee Park", email: "lee@acme.io" }],
+    sentences: [
+      { index: 1, speaker_name: "Jo CSM", text: "Glad to hear it.", start_time: 12.2, end_time: 13.9 },
+      {
+        index: 0,
+        speaker_name: "Lee Park",
+        text: "We onboarded 40 reps in two weeks.",
+        start_time: 3.5,
+        end_time: 8,
+      },
+    ],
+  },
+];
+
+// Minimal stand-in for the Fireflies GraphQL endpoint.
+function startGraphqlStandIn(requests: GraphqlRequest[]): Promise<Server> {
+  const server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => {
+      const parsed = JSON.parse(body) as { query: string; variables: Record<string, unknown> };
+      requests.push({ ...parsed, authorization: req.headers.authorization });
+
+      res.setHeader("Content-Type", "application/json");
+      if (req.headers.authorization !== "Bearer ff-key") {
+        res.end(
+          JSON.stringify({
+            data: null,
+            errors: [{ message: "Invalid API key", code: "auth_failed", extensions: { status: 401 } }],
+          })
+        );
+        return;
+      }
+
+      const withSentences = parsed.query.includes("sentences");
+      const transcripts = TRANSCRIPTS.map(({ sentences, ...rest }) =>
+        withSentences ? { ...rest, sentences } : rest
+      );
+      res.end(JSON.stringify({ data: { transcripts } }));
+    });
+  });
+
+  return new Promise((resolve) => server.listen(0, "127.0.0.1", () => resolve(server)));
+}
+
+describe("FirefliesProvider", () => {
+  const requests: GraphqlRequest[] = [];
+  let server: Server;
+  let provider: FirefliesProvider;
+
+  beforeAll(async () => {
+    server = await startGraphqlStandIn(requests);
+    const { port } = server.address() as AddressInfo;
+    provider = new FirefliesProvider({ apiKey: "ff-key", baseUrl: `http://127.0.0.1:${port}/graphql` });
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("maps transcripts, sentences and attendees to canonical calls", async () => {
+    requests.length = 0;
+    const calls = await provider.fetchCalls({ fromDate: "2026-03-01", toDate: "2026-03-31" });
+
+    expect(requests[0].authorization).toBe("Bearer ff-key");
+    expect(requests[0].variables).toEqual({
+      limit: 50,
+      skip: 0,
+      fromDate: "2026-03-01T00:00:00.000Z",
+      toDate: "2026-03-31T23:59:59.999Z",
+    });
+
+    expect(calls[0]).toMatchObject({
+      provider: "fireflies",
+      providerCallId: "ff-1",
+      accountName: "Acme",
+      occurredAt: "2026-03-04T15:00:00.000Z",
+      durationSeconds: 2550,
+    });
+    expect(calls[0].segments).toEqual([
+      { speaker: "Lee Park", text: "We onboarded 40 reps in two weeks.", startMs: 3500, endMs: 8000 },
+      { speaker: "Jo CSM", text: "Glad to hear it.", startMs: 12200, endMs: 13900 },
+    ]);
+    expect(calls[0].participants).toEqual([
+      { name: "Lee Park", email: "lee@acme.io", role: "participant" },
+      { name: null, email: "csm@ourco.com", role: "host" },
+    ]);
+  });
+
+  it("discovers accounts without requesting sentences and joins the shared-account match", async () => {
+    requests.length = 0;
+    const firefliesAccounts = await provider.discoverAccounts({});
+
+    expect(requests.every((request) => !request.query.includes("sentences"))).toBe(true);
+    expect(firefliesAccounts).toEqual([
+      { name: "Acme", normalizedName: "acme", source: "fireflies", callCount: 1 },
+    ]);
+
+    const [shared] = await matchSharedAccounts({
+      providerAccounts: [
+        {
+          provider: "gong",
+          accounts: [{ name: "Acme Inc", normalizedName: "acme", source: "gong", callCount: 3 }],
+        },
+        {
+          provider: "grain",
+          accounts: [{ name: "Acme", normalizedName: "acme", source: "grain", callCount: 2 }],
+        },
+        { provider: "fireflies", accounts: firefliesAccounts },
+      ],
+    });
+
+    expect(shared).toMatchObject({
+      displayName: "Acme Inc",
+      totalCallCount: 6,
+      providers: { fireflies: { name: "Acme", callCount: 1 } },
+    });
+  });
+
+  it("reports GraphQL auth errors as rejected credentials", async () => {
+    const { port } = server.address() as AddressInfo;
+    const badKey = new FirefliesProvider({ apiKey: "wrong", baseUrl: `http://127.0.0.1:${port}/graphql` });
+
+    const error = await badKey.fetchCalls({}).catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(ProviderAuthError);
+    expect((error as ProviderAuthError).message).toBe(
+      "Fireflies transcripts query failed (401): credentials were rejected. Check FIREFLIES_API_KEY. Invalid API key"
+    );
+    expect((error as ProviderAuthError).status).toBe(401);
+  });
+});
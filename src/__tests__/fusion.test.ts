@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { MockLlmClient } from "../llm/mockClient.js";
+import { dedupeCalls } from "../pipeline/dedupe.js";
+import { fuseCalls } from "../pipeline/fusion.js";
+import { QuoteExtractor } from "../pipeline/quotes.js";
+import type { CallSegment, CanonicalCall } from "../types/domain.js";
+
+function mkCall(provider: string, id: string, segments: CallSegment[]): CanonicalCall {
+  return {
+    provider,
+    providerCallId: id,
+    accountId: "acct-1",
+    accountName: "Acme",
+    title: "Pilot review",
+    occurredAt: "2026-02-01T12:00:00Z",
+    durationSeconds: 1800,
+    participants: [],
+    transcriptText: segments.map((segment) => `${segment.speaker ?? ""}: ${segment.text}`).join("\n"),
+    segments,
+  };
+}
+
+// Gong knows who spoke but has no end times and garbles a line; Grain has clean text and
+// timestamps but generic speaker labels, and splits the last turn in two.
+const gong = mkCall("gong", "g-1", [
+  { speaker: "Dana Scott", text: "Thanks for joining, let's review the pilot.", startMs: 2000, endMs: null },
+  { speaker: "Alex Rivera", text: "um we cut invoice processing to [inaudible] four days", startMs: 9000, endMs: null },
+  {
+    speaker: "Alex Rivera",
+    text: "Billing errors dropped by 38% in Q4. Finance is thrilled with the rollout.",
+    startMs: 20000,
+    endMs: null,
+  },
+]);
+const grain = mkCall("grain", "r-1", [
+  { speaker: "Speaker 1", text: "Thanks for joining, let's review the pilot.", startMs: 1000, endMs: 6000 },
+  { speaker: "Speaker 2", text: "We cut invoice processing to four days.", startMs: 8000, endMs: 15000 },
+  { speaker: "Speaker 2", text: "Billing errors dropped by 38% in Q4.", startMs: 19000, endMs: 23000 },
+  { speaker: "Speaker 2", text: "Finance is thrilled with the rollout.", startMs: 23000, endMs: 26000 },
+]);
+
+describe("fuseCalls", () => {
+  it("takes the best speaker, text and timestamps per segment and records where each came from", () => {
+    const fused = fuseCalls(gong, grain);
+    const fromGong = { provider: "gong", providerCallId: "g-1" };
+    const fromGrain = { provider: "grain", providerCallId: "r-1" };
+
+    expect(fused.providerCallId).toBe("g-1");
+    expect(fused.segments).toHaveLength(3);
+    expect(fused.segments[1]).toEqual({
+      speaker: "Alex Rivera",
+      text: "We cut invoice processing to four days.",
+      startMs: 9000,
+      endMs: 16000,
+      provenance: { speaker: fromGong, text: fromGrain, timing: fromGrain },
+    });
+    // The split turn keeps Gong's full text and borrows Grain's end time.
+    expect(fused.segments[2]).toMatchObject({
+      speaker: "Alex Rivera",
+      text: "Billing errors dropped by 38% in Q4. Finance is thrilled with the rollout.",
+      startMs: 20000,
+      endMs: 27000,
+      provenance: { speaker: fromGong, text: fromGong, timing: fromGrain },
+    });
+    expect(fused.transcriptText).toContain("Alex Rivera: We cut invoice processing to four days.");
+  });
+
+  it("is used by dedupe when fusion is enabled and feeds quote attribution", async () => {
+    // Grain wins the whole-call comparison, so without fusion its generic labels are all that is left.
+    expect(dedupeCalls([gong, grain]).calls[0].segments[1].speaker).toBe("Speaker 2");
+
+    const { calls, duplicates } = dedupeCalls([gong, grain], { fuseSegments: true });
+    expect(duplicates).toHaveLength(1);
+    expect(calls[0].providerCallId).toBe("r-1");
+    expect(calls[0].segments[1].provenance?.speaker.provider).toBe("gong");
+
+    const { quotes } = await new QuoteExtractor(new MockLlmClient()).extractFromCalls(calls);
+    const quote = quotes.find((q) => q.quote.includes("38%"));
+    expect(quote).toMatchObject({ speaker: "Alex Rivera", sourceTimestampMs: 19000, sourceCallId: "r-1" });
+  });
+});
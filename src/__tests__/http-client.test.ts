@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import {
+  ProviderAuthError,
+  ProviderHttpClient,
+  ProviderRateLimitError,
+  parseRetryAfter,
+} from "../providers/httpClient.js";
+
+function scriptedFetch(responses: Array<() => Response>) {
+  let calls = 0;
+  const fetchImpl = (async () => {
+    const next = responses[Math.min(calls, responses.length - 1)];
+    calls += 1;
+    return next();
+  }) as unknown as typeof fetch;
+  return { fetchImpl, count: () => calls };
+}
+
+describe("ProviderHttpClient", () => {
+  it("retries transient failures and honours Retry-After", async () => {
+    const delays: number[] = [];
+    const { fetchImpl, count } = scriptedFetch([
+      () => new Response("slow down", { status: 429, headers: { "Retry-After": "2" } }),
+      () => new Response("bad gateway", { status: 502 }),
+      () => Response.json({ ok: true }),
+    ]);
+
+    const client = new ProviderHttpClient({
+      provider: "Gong",
+      fetchImpl,
+      baseDelayMs: 10,
+      sleep: async (ms) => {
+        delays.push(ms);
+      },
+    });
+
+    await expect(client.requestJson("https://example.test", { operation: "calls fetch" })).resolves.toEqual({
+      ok: true,
+    });
+    expect(count()).toBe(3);
+    expect(delays[0]).toBe(2000);
+    expect(delays[1]).toBeGreaterThanOrEqual(20);
+  });
+
+  it("fails with a rate limit error once retries are used up", async () => {
+    const { fetchImpl, count } = scriptedFetch([() => new Response("", { status: 429 })]);
+    const client = new ProviderHttpClient({
+      provider: "Grain",
+      fetchImpl,
+      maxAttempts: 3,
+      sleep: async () => {},
+    });
+
+    const error = await client
+      .requestJson("https://example.test", { operation: "list fetch" })
+      .catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(ProviderRateLimitError);
+    expect((error as Error).message).toContain("Grain list fetch failed (429) after 3 attempts");
+    expect(count()).toBe(3);
+  });
+
+  it("does not retry auth failures", async () => {
+    const { fetchImpl, count } = scriptedFetch([() => new Response("nope", { status: 401 })]);
+    const client = new ProviderHttpClient({
+      provider: "Gong",
+      authHint: "Check GONG_ACCESS_TOKEN.",
+      fetchImpl,
+      sleep: async () => {},
+    });
+
+    const error = await client
+      .requestJson("https://example.test", { operation: "calls fetch" })
+      .catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(ProviderAuthError);
+    expect((error as Error).message).toContain("Check GONG_ACCESS_TOKEN.");
+    expect(count()).toBe(1);
+  });
+
+  it("parses Retry-After seconds and dates", () => {
+    expect(parseRetryAfter("1.5")).toBe(1500);
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter(new Date(Date.now() + 60_000).toUTCString())).toBeGreaterThan(50_000);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { createLlmClient, llmConfigIssue, resolveLlmConfig } from "../llm/factory.js";
+
+function recordingFetch(respond: (url: string) => unknown) {
+  const requests: Array<{ url: string; headers: Headers; body: Record<string, unknown> }> = [];
+  const fetchImpl = (async (url: string | URL | Request, init?: RequestInit) => {
+    requests.push({
+      url: String(url),
+      headers: new Headers(init?.headers),
+      body: JSON.parse(String(init?.body)),
+    });
+    return Response.json(respond(String(url)));
+  }) as unknown as typeof fetch;
+  return { fetchImpl, requests };
+}
+
+describe("LLM backends", () => {
+  it("keeps OpenAI as the default and falls back to the legacy openai fields", () => {
+    expect(resolveLlmConfig({ openaiApiKey: "sk-1" })).toMatchObject({
+      provider: "openai",
+      model: "gpt-4o",
+      apiKey: "sk-1",
+    });
+    expect(resolveLlmConfig({ llmProvider: "anthropic", openaiApiKey: "sk-1" }).apiKey).toBeUndefined();
+    expect(llmConfigIssue(resolveLlmConfig({ llmProvider: "azure", llmApiKey: "k" }))).toContain("endpoint");
+    expect(
+      llmConfigIssue(resolveLlmConfig({ llmProvider: "openai-compatible", llmBaseUrl: "http://localhost:8000/v1" }))
+    ).toContain("model");
+  });
+
+  it("sends JSON-mode chats to an OpenAI-compatible server and reports usage", async () => {
+    const { fetchImpl, requests } = recordingFetch(() => ({
+      id: "c1",
+      object: "chat.completion",
+      model: "llama-3",
+      choices: [{ index: 0, message: { role: "assistant", content: "{\"ok\":true}" }, finish_reason: "stop" }],
+      usage: { prompt_tokens: 12, completion_tokens: 3, total_tokens: 15 },
+    }));
+
+    const llm = createLlmClient(
+      resolveLlmConfig({
+        llmProvider: "openai-compatible",
+        llmBaseUrl: "http://localhost:8000/v1",
+        llmModel: "llama-3",
+      }),
+      { fetchImpl }
+    );
+
+    const response = await llm.chat({ json: true, messages: [{ role: "user", content: "hi" }] });
+
+    expect(requests[0].url).toBe("http://localhost:8000/v1/chat/completions");
+    expect(requests[0].body).toMatchObject({ model: "llama-3", response_format: { type: "json_object" } });
+    expect(response).toEqual({ content: "{\"ok\":true}", model: "llama-3", usage: { inputTokens: 12, outputTokens: 3 } });
+  });
+
+  it("maps system messages and JSON mode onto the Anthropic Messages API", async () => {
+    const { fetchImpl, requests } = recordingFetch(() => ({
+      model: "claude-sonnet-4-5",
+      content: [{ type: "text", text: "Here you go:\n{\"quotes\":[]}\nDone." }],
+      usage: { input_tokens: 40, output_tokens: 8 },
+    }));
+
+    const llm = createLlmClient(resolveLlmConfig({ llmProvider: "anthropic", llmApiKey: "ant-key" }), {
+      fetchImpl,
+    });
+
+    const response = await llm.chat({
+      json: true,
+      messages: [
+        { role: "system", content: "Extract quotes." },
+        { role: "user", content: "Transcript" },
+      ],
+    });
+
+    expect(requests[0].url).toBe("https://api.anthropic.com/v1/messages");
+    expect(requests[0].headers.get("x-api-key")).toBe("ant-key");
+    expect(requests[0].body).toMatchObject({
+      model: "claude-sonnet-4-5",
+      messages: [{ role: "user", content: "Transcript" }],
+    });
+    expect(String(requests[0].body.system)).toMatch(/^Extract quotes\.\n\nRespond with a single JSON object/);
+    expect(response.content).toBe("{\"quotes\":[]}");
+    expect(response.usage).toEqual({ inputTokens: 40, outputTokens: 8 });
+  });
+});
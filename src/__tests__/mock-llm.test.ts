@@ -0,0 +1,98 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { runCaseStudyAgent } from "../agent/runCaseStudyAgent.js";
+import { MockLlmClient } from "../llm/mockClient.js";
+import { USE_CASES } from "../prompts/useCases.js";
+
+describe("mock LLM backend", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "callcase-mock-llm-"));
+    vi.stubEnv("JSON_INPUT_FILE", "sample-data/calls.json");
+    vi.stubEnv("CORPUS_STORE_DIR", path.join(dir, "store"));
+    vi.stubEnv("EXTRACTION_CACHE_DIR", path.join(dir, "extraction"));
+    vi.stubEnv("OPENAI_API_KEY", "");
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("runs the full pipeline offline against the sample calls", async () => {
+    const run = (outputDir: string) =>
+      runCaseStudyAgent({
+        provider: "json",
+        accountName: "Northstar Logistics",
+        outputDir,
+        mockLlm: true,
+      });
+
+    const first = await run(path.join(dir, "a"));
+    const second = await run(path.join(dir, "b"));
+
+    expect(first.callsProcessed).toBe(2);
+    expect(first.caseStudyPaths).toHaveLength(USE_CASES.length);
+
+    const csv = await readFile(path.join(path.dirname(first.quotesPath), "quotes.csv"), "utf8");
+    expect(csv).toContain('"In the pilot, we cut that to 4 days, a 66% improvement."');
+
+    const claims = JSON.parse(await readFile(first.claimsPath, "utf8")).claims;
+    expect(claims[0]).toMatchObject({ value: "12", unit: "days", sourceCallId: "gong-001" });
+
+    const story = await readFile(first.caseStudyPaths[0], "utf8");
+    expect(story).toMatch(/^# .+\n\n_Offline mock draft/);
+    expect(story).toContain("## Numeric Evidence");
+    expect(story).toBe(await readFile(second.caseStudyPaths[0], "utf8"));
+
+    const manifest = JSON.parse(
+      await readFile(path.join(path.dirname(first.mergedMarkdownPath), "..", "manifest.json"), "utf8")
+    );
+    expect(manifest.llm).toEqual({ provider: "mock", model: "mock" });
+    expect(manifest.llmUsage.requests).toBe(2 + USE_CASES.length);
+  });
+
+  it("skips and reports the work a spent LLM budget cannot cover", async () => {
+    const result = await runCaseStudyAgent({
+      provider: "json",
+      accountName: "Northstar Logistics",
+      outputDir: path.join(dir, "out"),
+      mockLlm: true,
+      llmLimits: { maxTokens: 1 },
+    });
+
+    expect(result.caseStudyPaths).toEqual([]);
+    expect(result.skipped.map((item) => item.stage)).toEqual([
+      "evidence",
+      "evidence",
+      ...USE_CASES.map(() => "stories"),
+    ]);
+    expect(result.skipped[0]).toMatchObject({ id: "gong-001", reason: "LLM budget exhausted (0 of 1 tokens used)." });
+
+    const manifest = JSON.parse(
+      await readFile(path.join(path.dirname(result.mergedMarkdownPath), "..", "manifest.json"), "utf8")
+    );
+    expect(manifest.llmBudget).toEqual({
+      maxTokens: 1,
+      maxCostUsd: null,
+      tokensUsed: 0,
+      estimatedCostUsd: 0,
+      exhausted: true,
+    });
+    expect(manifest.skipped).toHaveLength(2 + USE_CASES.length);
+  });
+
+  it("answers account matching with no matches", async () => {
+    const response = await new MockLlmClient().chat({
+      task: "match-accounts",
+      json: true,
+      messages: [{ role: "user", content: "Match these accounts" }],
+    });
+
+    expect(JSON.parse(response.content)).toEqual({ matches: [] });
+    expect(response.usage.inputTokens).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import type { LlmClient } from "../llm/types.js";
+import { findQuantities, normalizeClaimValue, parseLocaleNumber } from "../pipeline/quantities.js";
+import { QuoteExtractor } from "../pipeline/quotes.js";
+import type { CanonicalCall } from "../types/domain.js";
+
+function claim(text: string, value: string, unit: string | null = null) {
+  return { claim: text, value, unit, evidenceQuote: text };
+}
+
+describe("parseLocaleNumber", () => {
+  it("reads either separator convention and uses the locale only when the shape is ambiguous", () => {
+    expect(parseLocaleNumber("1,200,000")).toBe(1_200_000);
+    expect(parseLocaleNumber("1.200,50")).toBe(1200.5);
+    expect(parseLocaleNumber("1,200.50")).toBe(1200.5);
+    expect(parseLocaleNumber("1 200,5")).toBe(1200.5);
+    expect(parseLocaleNumber("4,5")).toBe(4.5);
+    expect(parseLocaleNumber("1.200")).toBe(1.2);
+    expect(parseLocaleNumber("1.200", ",")).toBe(1200);
+    expect(findQuantities("1.200 €", { locale: "de-DE" })[0]).toMatchObject({ value: 1200, currency: "EUR" });
+  });
+});
+
+describe("normalizeClaimValue", () => {
+  it("parses before/after pairs with their delta and direction", () => {
+    expect(normalizeClaimValue(claim("Invoice processing went from 12 to 4 days", "4", "days"))).toEqual({
+      value: 4,
+      currency: null,
+      unitFamily: "duration",
+      unit: "days",
+      period: null,
+      direction: "decrease",
+      baseline: 12,
+      after: 4,
+      delta: -8,
+      deltaPercent: -66.7,
+    });
+    expect(normalizeClaimValue(claim("Pipeline grew from $1.2M to $2.3M", "$2.3M"))).toMatchObject({
+      value: 2_300_000,
+      currency: "USD",
+      direction: "increase",
+      baseline: 1_200_000,
+      delta: 1_100_000,
+    });
+  });
+
+  it("restates a duration baseline in the after's unit before taking the delta", () => {
+    expect(
+      normalizeClaimValue(claim("Response time dropped from 2 hours to 30 minutes", "30", "minutes"))
+    ).toMatchObject({
+      value: 30,
+      unit: "minutes",
+      direction: "decrease",
+      baseline: 120,
+      after: 30,
+      delta: -90,
+      deltaPercent: -75,
+    });
+  });
+
+  it("reads currencies, percentages and periods", () => {
+    expect(normalizeClaimValue(claim("We save $420,000 annually", "$420,000", "annually"))).toMatchObject({
+      value: 420_000,
+      currency: "USD",
+      unitFamily: "currency",
+      period: "year",
+      direction: null,
+    });
+    expect(normalizeClaimValue(claim("Costs fell by 1.200,50 € a month", "1.200,50 €"))).toMatchObject({
+      value: 1200.5,
+      currency: "EUR",
+      period: "month",
+      direction: "decrease",
+    });
+    expect(normalizeClaimValue(claim("Billing errors dropped 38% in Q4", "38%"))).toMatchObject({
+      value: 38,
+      unitFamily: "percent",
+      unit: "%",
+      direction: "decrease",
+    });
+  });
+});
+
+describe("QuoteExtractor claims", () => {
+  it("keeps percentage and currency claims and attaches their normalized form", async () => {
+    const transcript = "Alex Rivera: Billing errors dropped by 38% in Q4. We now save $420,000 annually on audits.";
+    const llm: LlmClient = {
+      provider: "test",
+      model: "test",
+      async chat() {
+        return {
+          content: JSON.stringify({
+            quotes: [],
+            claims: [
+              { claim: "Billing errors dropped 38%", value: "38%", evidenceQuote: "Billing errors dropped by 38% in Q4." },
+              {
+                claim: "Saves $420,000 a year",
+                value: "$420,000",
+                evidenceQuote: "We now save $420,000 annually on audits.",
+              },
+            ],
+          }),
+          model: "test",
+          usage: { inputTokens: 1, outputTokens: 1 },
+        };
+      },
+    };
+    const call: CanonicalCall = {
+      provider: "gong",
+      providerCallId: "g-1",
+      accountId: "acme",
+      accountName: "Acme",
+      title: "QBR",
+      occurredAt: "2026-02-01T12:00:00Z",
+      durationSeconds: 1800,
+      participants: [],
+      transcriptText: transcript,
+      segments: [],
+    };
+
+    const { claims } = await new QuoteExtractor(llm).extractFromCalls([call]);
+
+    expect(claims.map((item) => item.normalized)).toMatchObject([
+      { value: 38, unitFamily: "percent", direction: "decrease" },
+      { value: 420_000, currency: "USD", period: "year" },
+    ]);
+  });
+});
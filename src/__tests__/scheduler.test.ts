@@ -0,0 +1,155 @@
+import { describe, expect, it } from "vitest";
+import { MockLlmClient } from "../llm/mockClient.js";
+import { LlmBudgetExceededError, LlmScheduler } from "../llm/scheduler.js";
+import type { LlmChatRequest, LlmClient } from "../llm/types.js";
+import { QuoteExtractor } from "../pipeline/quotes.js";
+import { segmentsToTranscriptText } from "../providers/transcript-parsers.js";
+import type { CallSegment, CanonicalCall } from "../types/domain.js";
+
+const request: LlmChatRequest = { messages: [{ role: "user", content: "x".repeat(400) }] };
+
+function fixedUsageClient(tokens: number, onChat: () => Promise<void> = async () => {}): LlmClient {
+  return {
+    provider: "test",
+    model: "test-model",
+    async chat() {
+      await onChat();
+      return { content: "{}", model: "test-model", usage: { inputTokens: tokens, outputTokens: 0 } };
+    },
+  };
+}
+
+function makeCall(id: string, text: string): CanonicalCall {
+  const segments: CallSegment[] = [{ speaker: "Alex Rivera", text, startMs: 0, endMs: 5000 }];
+  return {
+    provider: "gong",
+    providerCallId: id,
+    accountId: "acme",
+    accountName: "Acme",
+    title: `Call ${id}`,
+    occurredAt: "2026-03-02T15:00:00Z",
+    durationSeconds: 600,
+    participants: [],
+    transcriptText: segmentsToTranscriptText(segments),
+    segments,
+  };
+}
+
+describe("LlmScheduler", () => {
+  it("keeps no more than `concurrency` requests in flight", async () => {
+    let active = 0;
+    let peak = 0;
+    const scheduler = new LlmScheduler(
+      fixedUsageClient(10, async () => {
+        active += 1;
+        peak = Math.max(peak, active);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        active -= 1;
+      }),
+      { concurrency: 2 }
+    );
+
+    await Promise.all(Array.from({ length: 6 }, () => scheduler.chat(request)));
+
+    expect(peak).toBe(2);
+    expect(scheduler.report().tokensUsed).toBe(60);
+  });
+
+  it("waits for the rolling minute to make room under tokensPerMinute", async () => {
+    let now = 0;
+    const sleeps: number[] = [];
+    const scheduler = new LlmScheduler(
+      fixedUsageClient(100),
+      { concurrency: 1, tokensPerMinute: 250 },
+      {
+        now: () => now,
+        sleep: async (ms) => {
+          sleeps.push(ms);
+          now += ms;
+        },
+      }
+    );
+
+    for (let index = 0; index < 3; index += 1) {
+      await scheduler.chat(request);
+      now += 1000;
+    }
+
+    expect(sleeps).toEqual([58_000]);
+  });
+
+  it("stops admitting requests once the budget is spent and skips the calls it cannot cover", async () => {
+    const mock = new MockLlmClient();
+    const inner: LlmClient = {
+      provider: mock.provider,
+      model: mock.model,
+      chat: async (chatRequest) => ({ ...(await mock.chat(chatRequest)), usage: { inputTokens: 1000, outputTokens: 0 } }),
+    };
+    // Each extraction request reserves its prompt (~350 tokens) plus the 3300-token output cap.
+    const scheduler = new LlmScheduler(inner, { concurrency: 1, maxTokens: 4500 });
+    const calls = [
+      makeCall("g-1", "Invoice processing went from 12 days to 4 days."),
+      makeCall("g-2", "That freed up 30 hours a week for audit work."),
+    ];
+
+    const { quotes, skipped } = await new QuoteExtractor(scheduler).extractFromCalls(calls);
+
+    expect(quotes.map((quote) => quote.sourceCallId)).toEqual(["g-1"]);
+    expect(skipped).toEqual([
+      { stage: "evidence", id: "g-2", title: "Call g-2", reason: "LLM budget exhausted (1000 of 4500 tokens used)." },
+    ]);
+    await expect(scheduler.chat(request)).rejects.toBeInstanceOf(LlmBudgetExceededError);
+    expect(scheduler.report()).toMatchObject({ tokensUsed: 1000, estimatedCostUsd: 0, exhausted: true });
+  });
+
+  it("reserves each in-flight request's input and maxTokens so concurrent requests cannot overshoot", async () => {
+    const inner: LlmClient = {
+      provider: "test",
+      model: "test-model",
+      async chat() {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        return { content: "{}", model: "test-model", usage: { inputTokens: 100, outputTokens: 200 } };
+      },
+    };
+    // Each request reserves 100 estimated input tokens plus 200 for its reply.
+    const scheduler = new LlmScheduler(inner, { concurrency: 4, maxTokens: 1000 });
+
+    const results = await Promise.allSettled(
+      Array.from({ length: 8 }, () => scheduler.chat({ ...request, maxTokens: 200 }))
+    );
+
+    expect(results.filter((result) => result.status === "fulfilled")).toHaveLength(3);
+    expect(scheduler.report()).toMatchObject({ tokensUsed: 900, exhausted: true });
+  });
+
+  it("keeps concurrent extraction within the budget by reserving each window's output cap", async () => {
+    const mock = new MockLlmClient();
+    const inner: LlmClient = {
+      provider: mock.provider,
+      model: mock.model,
+      chat: async (chatRequest) => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        return { ...(await mock.chat(chatRequest)), usage: { inputTokens: 400, outputTokens: 3000 } };
+      },
+    };
+    const scheduler = new LlmScheduler(inner, { concurrency: 4, maxTokens: 10_000 });
+    const calls = Array.from({ length: 6 }, (_, index) =>
+      makeCall(`g-${index + 1}`, "Invoice processing went from 12 days to 4 days.")
+    );
+
+    const { quotes, skipped } = await new QuoteExtractor(scheduler).extractFromCalls(calls);
+
+    expect(new Set(quotes.map((quote) => quote.sourceCallId)).size).toBe(2);
+    expect(skipped).toHaveLength(4);
+    expect(scheduler.report()).toMatchObject({ tokensUsed: 6800, exhausted: true });
+  });
+
+  it("needs a price to budget by cost", () => {
+    expect(() => new LlmScheduler(fixedUsageClient(1), { maxCostUsd: 5 })).toThrow(/No price is known/);
+    const priced = new LlmScheduler(fixedUsageClient(1), {
+      maxCostUsd: 5,
+      pricing: { inputPerMillion: 1, outputPerMillion: 2 },
+    });
+    expect(priced.report()).toMatchObject({ maxCostUsd: 5, estimatedCostUsd: 0 });
+  });
+});
@@ -0,0 +1,90 @@
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { MockLlmClient } from "../llm/mockClient.js";
+import { runCaseStudyPipeline } from "../pipeline/engine.js";
+import { classifySpeakers } from "../pipeline/speakers.js";
+import { USE_CASES } from "../prompts/useCases.js";
+import { segmentsToTranscriptText } from "../providers/transcript-parsers.js";
+import type { CallSegment, CanonicalCall } from "../types/domain.js";
+
+const segments: CallSegment[] = [
+  { speaker: "Alex Rivera", text: "Most teams see a 50% drop in billing errors in the first month.", startMs: 0, endMs: 5000 },
+  { speaker: "Dana Scott", text: "Our billing errors dropped 38% after the rollout.", startMs: 5000, endMs: 9000 },
+  { speaker: "Sam Lee", text: "We closed 120 tickets without escalation last week.", startMs: 9000, endMs: 14000 },
+];
+
+const call: CanonicalCall = {
+  provider: "gong",
+  providerCallId: "g-1",
+  accountId: "acme",
+  accountName: "Acme",
+  title: "QBR",
+  occurredAt: "2026-03-02T15:00:00Z",
+  durationSeconds: 900,
+  participants: [
+    { name: "Alex Rivera", email: "alex@vendor.example", role: "host", affiliation: "internal" },
+    { name: null, email: "dana.scott@acme.example", role: "participant" },
+  ],
+  transcriptText: segmentsToTranscriptText(segments),
+  segments,
+};
+
+describe("classifySpeakers", () => {
+  it("tags participants from the provider or their email domain and segments by name or email", () => {
+    const classified = classifySpeakers(call);
+
+    expect(classified.participants.map((participant) => participant.affiliation)).toEqual(["internal", "external"]);
+    expect(classified.segments.map((segment) => segment.affiliation)).toEqual(["internal", "external", "unknown"]);
+
+    const configured = classifySpeakers(
+      { ...call, participants: call.participants.map((participant) => ({ ...participant, affiliation: undefined })) },
+      { internalDomains: ["acme.example"] }
+    );
+    expect(configured.segments.map((segment) => segment.affiliation)).toEqual(["external", "internal", "unknown"]);
+    expect(classifySpeakers({ ...call, participants: [] }).segments.every((s) => s.affiliation === "unknown")).toBe(true);
+  });
+});
+
+describe("customer-spoken evidence", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "callcase-speakers-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("keeps internal statements out of quotes.csv and customer stories but gives them to sales enablement", async () => {
+    const useCases = USE_CASES.filter((useCase) => ["roi_financial_outcomes", "sales_enablement"].includes(useCase.id));
+    const result = await runCaseStudyPipeline({
+      account: { id: "acme", name: "Acme" },
+      sources: [{ provider: { name: "gong", fetchCalls: async () => [call] } }],
+      outputDir: path.join(dir, "out"),
+      useCases,
+      llm: new MockLlmClient(),
+      exportDir: path.join(dir, "downloads"),
+    });
+
+    const quotes = result.evidence!.quotes;
+    expect(quotes.map((quote) => [quote.speaker, quote.speakerAffiliation])).toEqual([
+      ["Alex Rivera", "internal"],
+      ["Dana Scott", "external"],
+      ["Sam Lee", "unknown"],
+    ]);
+
+    const csv = await readFile(result.evidence!.quotesCsvPath, "utf8");
+    expect(csv.split("\n")[0]).toMatch(/,speaker_affiliation$/);
+    expect(csv).not.toContain("Alex Rivera");
+    expect(csv).toContain("Dana Scott");
+
+    const [roi, enablement] = result.stories;
+    expect(roi.markdown).not.toContain("50%");
+    expect(await readFile(roi.quotesCsvExportPath!, "utf8")).not.toContain("Alex Rivera");
+    expect(enablement.markdown).toContain("50%");
+    expect(await readFile(enablement.quotesCsvExportPath!, "utf8")).toContain("Alex Rivera");
+  });
+});
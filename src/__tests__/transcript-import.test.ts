@@ -0,0 +1,103 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { FolderProvider } from "../providers/folderProvider.js";
+import { parsePlainText, parseSrt, parseVtt } from "../providers/transcript-parsers.js";
+import { writeJsonFile, writeTextFile } from "../utils/fs.js";
+
+const ZOOM_VTT = `WEBVTT
+
+1
+00:00:01.250 --> 00:00:04.000
+Alex Rivera: Invoice processing took 12 days.
+
+2
+00:01:05.000 --> 00:01:09.500
+Dana Scott: And after the pilot?
+`;
+
+const TEAMS_VTT = `WEBVTT
+
+00:00:02.000 --> 00:00:05.000
+<v Priya Shah>We cut onboarding to four weeks.</v>
+`;
+
+const SRT = `1
+00:00:01,000 --> 00:00:03,500
+Sam: We saved $200k.
+
+2
+00:00:04,000 --> 00:00:06,000
+No speaker on this cue.
+`;
+
+describe("transcript parsers", () => {
+  it("parses Zoom and Teams style WebVTT cues", () => {
+    const zoom = parseVtt(ZOOM_VTT).segments;
+    expect(zoom).toEqual([
+      { speaker: "Alex Rivera", text: "Invoice processing took 12 days.", startMs: 1250, endMs: 4000 },
+      { speaker: "Dana Scott", text: "And after the pilot?", startMs: 65000, endMs: 69500 },
+    ]);
+
+    expect(parseVtt(TEAMS_VTT).segments[0]).toMatchObject({
+      speaker: "Priya Shah",
+      text: "We cut onboarding to four weeks.",
+    });
+  });
+
+  it("parses SRT cues with comma milliseconds", () => {
+    const segments = parseSrt(SRT).segments;
+    expect(segments[0]).toEqual({ speaker: "Sam", text: "We saved $200k.", startMs: 1000, endMs: 3500 });
+    expect(segments[1].speaker).toBeNull();
+  });
+
+  it("parses plain text headers, timestamps and wrapped lines", () => {
+    const parsed = parsePlainText(
+      "Title: Renewal Review\nDate: 2026-03-02\n\n[00:01:10] Lee: Adoption is at 90%\nacross all regions.\n\nKim: Great."
+    );
+    expect(parsed.headers).toEqual({ title: "Renewal Review", date: "2026-03-02" });
+    expect(parsed.segments).toEqual([
+      { speaker: "Lee", text: "Adoption is at 90% across all regions.", startMs: 70000, endMs: null },
+      { speaker: "Kim", text: "Great.", startMs: null, endMs: null },
+    ]);
+  });
+});
+
+describe("FolderProvider", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "callcase-folder-"));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("assigns accounts from folders and sidecar manifests and infers title/date from file names", async () => {
+    await writeTextFile(path.join(dir, "Northstar Logistics", "2026-01-18 Pilot Review.vtt"), ZOOM_VTT);
+    await writeTextFile(path.join(dir, "inbox", "GMT20260120-153000_Recording.srt"), SRT);
+    await writeJsonFile(path.join(dir, "inbox", "callcase.json"), {
+      account: "Acme Corp",
+      files: { "GMT20260120-153000_Recording.srt": { title: "Acme QBR" } },
+    });
+
+    const provider = new FolderProvider(dir);
+    const accounts = await provider.discoverAccounts();
+    expect(accounts.map((account) => account.name).sort()).toEqual(["Acme Corp", "Northstar Logistics"]);
+
+    const [northstar] = await provider.fetchCalls({ accountName: "Northstar Logistics" });
+    expect(northstar).toMatchObject({
+      provider: "folder",
+      providerCallId: "Northstar Logistics/2026-01-18 Pilot Review.vtt",
+      title: "Pilot Review",
+      occurredAt: "2026-01-18T00:00:00.000Z",
+      durationSeconds: 70,
+    });
+    expect(northstar.participants.map((p) => p.name)).toEqual(["Alex Rivera", "Dana Scott"]);
+
+    const [acme] = await provider.fetchCalls({ accountName: "Acme Corp" });
+    expect(acme).toMatchObject({ title: "Acme QBR", occurredAt: "2026-01-20T15:30:00.000Z" });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import type { LlmClient } from "../llm/types.js";
+import { QuoteExtractor } from "../pipeline/quotes.js";
+import { findVerbatimSpan } from "../pipeline/verbatim.js";
+import type { CanonicalCall } from "../types/domain.js";
+
+const transcript = [
+  "Dana Scott: Thanks for joining. How did the pilot go?",
+  "Alex Rivera: Honestly, um, it went great. We cut invoice processing from 12 days to 4 days. Billing errors dropped by 38% in Q4.",
+].join("\n");
+
+describe("findVerbatimSpan", () => {
+  it("recovers the transcript's exact wording when the model tidied the quote", () => {
+    const match = findVerbatimSpan(
+      "Honestly it went great, we cut invoice processing from 12 days to 4 days",
+      transcript
+    );
+
+    expect(match).toMatchObject({
+      text: "Honestly, um, it went great. We cut invoice processing from 12 days to 4 days",
+      score: 1,
+    });
+    expect(transcript.slice(match!.start, match!.end)).toBe(match!.text);
+  });
+
+  it("scores partial matches and rejects them below the threshold", () => {
+    const quote = "We cut invoice handling from 12 days to 4 days.";
+
+    const match = findVerbatimSpan(quote, transcript);
+    expect(match?.text).toBe("We cut invoice processing from 12 days to 4 days.");
+    expect(match?.score).toBeCloseTo(0.9, 3);
+
+    expect(findVerbatimSpan(quote, transcript, 0.95)).toBeNull();
+    expect(findVerbatimSpan("Our churn fell by half after launch.", transcript)).toBeNull();
+    expect(findVerbatimSpan("went great", transcript)).toBeNull();
+  });
+});
+
+describe("QuoteExtractor", () => {
+  it("keeps near-verbatim quotes with the exact wording and their offsets", async () => {
+    const llm: LlmClient = {
+      provider: "test",
+      model: "test",
+      async chat() {
+        return {
+          content: JSON.stringify({
+            quotes: [
+              { quote: "Billing errors dropped 38% in Q4 — we cut invoice processing to four days!", reason: "r" },
+              { quote: "It went great. We cut invoice processing from 12 days to 4 days.", reason: "r" },
+            ],
+            claims: [
+              {
+                claim: "Invoice processing fell from 12 days to 4",
+                value: "4 days",
+                evidenceQuote: "we cut invoice processing from 12 days to 4 days",
+              },
+            ],
+          }),
+          model: "test",
+          usage: { inputTokens: 1, outputTokens: 1 },
+        };
+      },
+    };
+    const call: CanonicalCall = {
+      provider: "gong",
+      providerCallId: "g-1",
+      accountId: "acme",
+      accountName: "Acme",
+      title: "Pilot review",
+      occurredAt: "2026-02-01T12:00:00Z",
+      durationSeconds: 1800,
+      participants: [],
+      transcriptText: transcript,
+      segments: [],
+    };
+
+    const { quotes, claims } = await new QuoteExtractor(llm).extractFromCalls([call]);
+
+    expect(quotes).toHaveLength(1);
+    expect(quotes[0].quote).toBe("it went great. We cut invoice processing from 12 days to 4 days.");
+    const start = transcript.indexOf("it went great");
+    expect(quotes[0].verbatim).toEqual({ start, end: start + quotes[0].quote.length, score: 1 });
+    expect(claims[0]).toMatchObject({
+      evidenceQuote: "We cut invoice processing from 12 days to 4 days",
+      evidenceVerbatim: { score: 1 },
+    });
+  });
+});
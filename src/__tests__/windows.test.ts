@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { MockLlmClient } from "../llm/mockClient.js";
+import type { LlmChatRequest, LlmClient } from "../llm/types.js";
+import { QuoteExtractor } from "../pipeline/quotes.js";
+import { splitTranscriptWindows } from "../pipeline/windows.js";
+import { segmentsToTranscriptText } from "../providers/transcript-parsers.js";
+import type { CallSegment, CanonicalCall } from "../types/domain.js";
+
+const segments: CallSegment[] = Array.from({ length: 24 }, (_, index) => ({
+  speaker: index % 2 === 0 ? "Alex Rivera" : "Dana Scott",
+  text: `In week ${index + 1} the team closed ${index + 1} tickets without escalation.`,
+  startMs: index * 10_000,
+  endMs: index * 10_000 + 9_000,
+}));
+
+const call: CanonicalCall = {
+  provider: "gong",
+  providerCallId: "g-1",
+  accountId: "acme",
+  accountName: "Acme",
+  title: "Quarterly review",
+  occurredAt: "2026-03-02T15:00:00Z",
+  durationSeconds: 240,
+  participants: [],
+  transcriptText: segmentsToTranscriptText(segments),
+  segments,
+};
+
+const options = { windowTokens: 150, windowOverlapTokens: 40 };
+
+describe("splitTranscriptWindows", () => {
+  it("covers the transcript in overlapping windows that start on segment lines", () => {
+    const windows = splitTranscriptWindows(call, { maxTokens: 150, overlapTokens: 40 });
+    const lineStarts = new Set([0, ...[...call.transcriptText.matchAll(/\n/g)].map((match) => match.index + 1)]);
+
+    expect(windows.length).toBeGreaterThan(2);
+    expect(windows[0].start).toBe(0);
+    expect(windows.at(-1)!.end).toBe(call.transcriptText.length);
+    for (const [index, window] of windows.entries()) {
+      expect(window.text.length).toBeLessThanOrEqual(600);
+      expect(lineStarts.has(window.start)).toBe(true);
+      expect(window.text).toBe(call.transcriptText.slice(window.start, window.end));
+      if (index > 0) {
+        expect(window.start).toBeLessThan(windows[index - 1].end);
+        expect(window.start).toBeGreaterThan(windows[index - 1].start);
+      }
+    }
+
+    expect(splitTranscriptWindows(call, { maxTokens: 12_000, overlapTokens: 400 })).toEqual([
+      { start: 0, end: call.transcriptText.length, text: call.transcriptText },
+    ]);
+  });
+});
+
+describe("QuoteExtractor windows", () => {
+  it("extracts per window and keeps evidence seen by two windows once", async () => {
+    const { quotes, claims } = await new QuoteExtractor(new MockLlmClient(), options).extractFromCalls([call]);
+
+    expect(quotes).toHaveLength(segments.length);
+    expect(quotes.map((quote) => quote.citation.segmentIndices)).toEqual(segments.map((_, index) => [index]));
+    expect(new Set(claims.map((claim) => claim.evidenceVerbatim.start)).size).toBe(claims.length);
+  });
+
+  it("merges overlapping spans from neighbouring windows, keeping the more confident one", async () => {
+    const windows = splitTranscriptWindows(call, { maxTokens: 150, overlapTokens: 40 });
+    const shared = windows[1].text.split("\n")[0];
+    const sentence = shared.slice(shared.indexOf(": ") + 2);
+    const prompts: string[] = [];
+
+    const llm: LlmClient = {
+      provider: "test",
+      model: "test",
+      async chat(request: LlmChatRequest) {
+        const prompt = request.messages[1].content;
+        prompts.push(prompt);
+        const part = Number(/^Part: (\d+) of/m.exec(prompt)?.[1]);
+        const quotes =
+          part === 1
+            ? [{ quote: shared, reason: "r", confidence: 0.7 }]
+            : part === 2
+              ? [{ quote: sentence, reason: "r", confidence: 0.9 }]
+              : [];
+        return { content: JSON.stringify({ quotes, claims: [] }), model: "test", usage: { inputTokens: 1, outputTokens: 1 } };
+      },
+    };
+
+    const { quotes } = await new QuoteExtractor(llm, options).extractFromCalls([call]);
+
+    expect(prompts).toHaveLength(windows.length);
+    expect(prompts[0]).toContain(`Part: 1 of ${windows.length}`);
+    expect(quotes).toHaveLength(1);
+    expect(quotes[0]).toMatchObject({ quote: sentence, confidence: 0.9 });
+  });
+});
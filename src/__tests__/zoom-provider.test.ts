@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import { ZoomProvider } from "../providers/zoomProvider.js";
+
+const VTT = `WEBVTT
+
+1
+00:00:01.000 --> 00:00:04.000
+Ana Lopez: Month-end close went from 9 days to 4.
+
+2
+00:00:05.000 --> 00:00:07.500
+Sam Host: That is a big change.
+`;
+
+function fakeZoom() {
+  const urls: string[] = [];
+  const fetchImpl = (async (url: string | URL, init?: RequestInit) => {
+    const href = String(url);
+    urls.push(href);
+
+    if (href.startsWith("https://zoom.test/oauth/token")) {
+      expect(init?.method).toBe("POST");
+      return Response.json({ access_token: "zoom-token", expires_in: 3600 });
+    }
+
+    expect(new Headers(init?.headers).get("authorization")).toBe("Bearer zoom-token");
+
+    if (href.includes("/users/me/recordings")) {
+      return Response.json({
+        next_page_token: "",
+        meetings: [
+          {
+            uuid: "/abc==",
+            id: 111,
+            topic: "Acme pilot review",
+            start_time: "2026-02-03T16:00:00Z",
+            duration: 30,
+            host_email: "sam@ourco.com",
+            recording_files: [
+              { file_type: "MP4", download_url: "https://zoom.test/rec/video" },
+              {
+                file_type: "TRANSCRIPT",
+                status: "completed",
+                download_url: "https://zoom.test/rec/transcript",
+              },
+            ],
+          },
+          {
+            uuid: "no-transcript",
+            topic: "Internal sync",
+            start_time: "2026-02-04T16:00:00Z",
+            recording_files: [{ file_type: "MP4", download_url: "https://zoom.test/rec/other" }],
+          },
+        ],
+      });
+    }
+
+    if (href.includes("/past_meetings/")) {
+      return Response.json({
+        participants: [
+          { name: "Sam Host", user_email: "sam@ourco.com" },
+          { name: "Ana Lopez", user_email: "ana@acme.io" },
+          { name: "Ana Lopez", user_email: "ana@acme.io" },
+        ],
+      });
+    }
+
+    if (href === "https://zoom.test/rec/transcript") {
+      return new Response(VTT);
+    }
+
+    return new Response("not found", { status: 404 });
+  }) as unknown as typeof fetch;
+
+  const provider = new ZoomProvider({
+    baseUrl: "https://api.zoom.test/v2",
+    oauthUrl: "https://zoom.test/oauth/token",
+    accountId: "acct",
+    clientId: "client",
+    clientSecret: "secret",
+    http: { fetchImpl },
+  });
+
+  return { provider, urls };
+}
+
+describe("ZoomProvider", () => {
+  it("maps cloud recordings with VTT transcripts to canonical calls", async () => {
+    const { provider, urls } = fakeZoom();
+
+    const calls = await provider.fetchCalls({
+      accountName: "Acme",
+      fromDate: "2026-02-01",
+      toDate: "2026-02-10",
+    });
+
+    expect(calls).toHaveLength(1);
+    expect(calls[0]).toMatchObject({
+      provider: "zoom",
+      providerCallId: "/abc==",
+      accountName: "Acme",
+      title: "Acme pilot review",
+      durationSeconds: 1800,
+    });
+    expect(calls[0].segments[0]).toEqual({
+      speaker: "Ana Lopez",
+      text: "Month-end close went from 9 days to 4.",
+      startMs: 1000,
+      endMs: 4000,
+    });
+    expect(calls[0].participants).toEqual([
+      { name: "Sam Host", email: "sam@ourco.com", role: "host" },
+      { name: "Ana Lopez", email: "ana@acme.io", role: "participant" },
+    ]);
+
+    // Leading-slash UUIDs are double-encoded and the OAuth token is fetched once.
+    expect(urls.some((url) => url.includes("/past_meetings/%252Fabc%253D%253D/"))).toBe(true);
+    expect(urls.filter((url) => url.includes("/oauth/token"))).toHaveLength(1);
+  });
+
+  it("discovers accounts from participant domains without downloading transcripts", async () => {
+    const { provider, urls } = fakeZoom();
+
+    const accounts = await provider.discoverAccounts({ fromDate: "2026-02-01", toDate: "2026-02-10" });
+
+    expect(accounts).toEqual([{ name: "Acme", normalizedName: "acme", source: "zoom", callCount: 1 }]);
+    expect(urls).not.toContain("https://zoom.test/rec/transcript");
+  });
+});
@@ -1,20 +1,14 @@
-import OpenAI from "openai";
-import path from "node:path";
 import type { AgentEnv } from "../config/env.js";
 import { loadAgentEnv } from "../config/env.js";
-import { dedupeCalls } from "../pipeline/dedupe.js";
+import { createLlmClient, resolveLlmConfig } from "../llm/factory.js";
+import type { LlmRunLimits } from "../llm/scheduler.js";
+import { loadDedupePolicyFile } from "../pipeline/dedupePolicy.js";
+import { runCaseStudyPipeline } from "../pipeline/engine.js";
 import { USE_CASES } from "../prompts/useCases.js";
+import { ExtractionCache, resolveExtractionCacheDir } from "../store/extractionCache.js";
 import { createProvider } from "../providers/factory.js";
-import { accountIdFromName, normalizeAccountName } from "../providers/account-utils.js";
-import { CaseStudyGenerator } from "../pipeline/caseStudies.js";
-import {
-  renderMergedMarkdown,
-  writeCallMarkdownFiles,
-  writeMergedMarkdownFile,
-} from "../pipeline/markdown.js";
-import { QuoteExtractor } from "../pipeline/quotes.js";
+import { accountIdFromName, normalizeAccountName, parseCommaSeparated } from "../providers/account-utils.js";
 import type { AgentRunResult, DiscoveredAccount } from "../types/domain.js";
-import { slugify, writeJsonFile, writeTextFile } from "../utils/fs.js";
 
 export interface AgentRunInput {
   accountId?: string;
@@ -24,6 +18,23 @@ export interface AgentRunInput {
   maxCalls?: number;
   outputDir?: string;
   provider?: AgentEnv["PROVIDER"];
+  refresh?: boolean;
+  /** Fuse duplicate recordings from different providers segment by segment. */
+  fuseSegments?: boolean;
+  /** Word-level similarity (0..1) a quote needs with the transcript to be kept. */
+  minQuoteSimilarity?: number;
+  /** Estimated transcript tokens per extraction request; longer calls are split into windows. */
+  windowTokens?: number;
+  /** Locale for amounts like "1.200" in claims. */
+  numberLocale?: string;
+  /** Parallelism, token rate and budget for the run's LLM requests. */
+  llmLimits?: LlmRunLimits;
+  /** Set to false to extract every call afresh instead of reusing cached responses. */
+  extractionCache?: boolean;
+  /** JSON dedupe policy file; overrides DEDUPE_POLICY_FILE. */
+  dedupePolicyFile?: string;
+  /** Use the offline mock LLM regardless of LLM_PROVIDER. */
+  mockLlm?: boolean;
   selectAccount?: (accounts: DiscoveredAccount[]) => Promise<DiscoveredAccount>;
 }
 
@@ -31,111 +42,66 @@ export async function runCaseStudyAgent(input: AgentRunInput): Promise<AgentRunR
   const env = loadAgentEnv({
     OUTPUT_DIR: input.outputDir,
     PROVIDER: input.provider,
+    LLM_PROVIDER: input.mockLlm ? "mock" : undefined,
+    DEDUPE_POLICY_FILE: input.dedupePolicyFile,
   });
-
+  const dedupePolicy = env.DEDUPE_POLICY_FILE ? await loadDedupePolicyFile(env.DEDUPE_POLICY_FILE) : undefined;
+
+  const llm = createLlmClient(
+    resolveLlmConfig({
+      llmProvider: env.LLM_PROVIDER,
+      llmModel: env.LLM_MODEL,
+      llmApiKey: env.LLM_API_KEY,
+      llmBaseUrl: env.LLM_BASE_URL,
+      llmApiVersion: env.LLM_API_VERSION,
+      openaiApiKey: env.OPENAI_API_KEY,
+      openaiModel: env.OPENAI_MODEL,
+    })
+  );
   const provider = createProvider(env, input.accountName, input.accountId);
-  const openai = new OpenAI({ apiKey: env.OPENAI_API_KEY });
 
   const selectedAccount = await resolveAccountSelection(provider, input);
   const accountName = selectedAccount.name;
   const accountId = input.accountId ?? selectedAccount.id;
 
-  const callsRaw = await provider.fetchCalls({
-    accountId,
-    accountName,
-    fromDate: input.fromDate,
-    toDate: input.toDate,
-    maxCalls: input.maxCalls,
-  });
-
-  if (callsRaw.length === 0) {
-    throw new Error(
-      `No calls with transcripts found for account \"${accountName}\" using provider ${provider.name}.`
-    );
-  }
-
-  const dedupe = dedupeCalls(callsRaw);
-  if (dedupe.calls.length === 0) {
-    throw new Error("All fetched calls were removed during dedupe. Check provider data and filters.");
-  }
-
-  const calls = dedupe.calls.map((call) => ({
-    ...call,
-    accountId,
-    accountName,
-  }));
-
-  const callsMarkdownPaths = await writeCallMarkdownFiles(env.OUTPUT_DIR, calls);
-  const mergedMarkdownPath = await writeMergedMarkdownFile(
-    env.OUTPUT_DIR,
-    accountName,
-    accountId,
-    calls
-  );
-
-  const mergedMarkdown = renderMergedMarkdown(accountName, accountId, calls);
-  const extractor = new QuoteExtractor(openai, env.OPENAI_MODEL);
-  const { quotes, claims } = await extractor.extractFromCalls(calls);
-
-  const accountSlug = slugify(accountName || accountId);
-  const quotesPath = path.resolve(env.OUTPUT_DIR, accountSlug, "quotes", "quotes.json");
-  const claimsPath = path.resolve(env.OUTPUT_DIR, accountSlug, "claims", "claims.json");
-  const dedupeReportPath = path.resolve(env.OUTPUT_DIR, accountSlug, "dedupe", "duplicates.json");
-
-  await writeJsonFile(quotesPath, { accountId, accountName, quotes });
-  await writeJsonFile(claimsPath, { accountId, accountName, claims });
-  await writeJsonFile(dedupeReportPath, {
-    accountId,
-    accountName,
-    totalFetchedCalls: callsRaw.length,
-    dedupedCalls: calls.length,
-    duplicatesRemoved: dedupe.duplicates.length,
-    duplicates: dedupe.duplicates,
-  });
-
-  const generator = new CaseStudyGenerator(openai, env.OPENAI_MODEL);
-  const caseStudies = await generator.generateAll(USE_CASES, calls, mergedMarkdown, quotes, claims);
-
-  const caseStudyPaths: string[] = [];
-  for (const item of caseStudies) {
-    const filePath = path.resolve(
-      env.OUTPUT_DIR,
-      accountSlug,
-      "case-studies",
-      `${item.useCaseId}.md`
-    );
-    await writeTextFile(filePath, item.markdown);
-    caseStudyPaths.push(filePath);
-  }
-
-  const manifestPath = path.resolve(env.OUTPUT_DIR, accountSlug, "manifest.json");
-  await writeJsonFile(manifestPath, {
-    generatedAt: new Date().toISOString(),
-    accountId,
-    accountName,
-    provider: provider.name,
-    totalFetchedCalls: callsRaw.length,
-    callsProcessed: calls.length,
-    duplicatesRemoved: dedupe.duplicates.length,
-    callsMarkdownPaths,
-    mergedMarkdownPath,
-    quotesPath,
-    claimsPath,
-    dedupeReportPath,
-    caseStudyPaths,
+  const result = await runCaseStudyPipeline({
+    account: { id: accountId, name: accountName },
+    sources: [{ provider, accountId: input.accountId }],
+    fetch: {
+      fromDate: input.fromDate,
+      toDate: input.toDate,
+      maxCalls: input.maxCalls,
+      refresh: input.refresh,
+    },
+    dedupe: { fuseSegments: input.fuseSegments, policy: dedupePolicy },
+    speakers: { internalDomains: parseCommaSeparated(env.INTERNAL_EMAIL_DOMAINS) },
+    evidence: {
+      minQuoteSimilarity: input.minQuoteSimilarity,
+      windowTokens: input.windowTokens,
+      numberLocale: input.numberLocale,
+      cache:
+        input.extractionCache === false
+          ? undefined
+          : new ExtractionCache(resolveExtractionCacheDir(env.EXTRACTION_CACHE_DIR)),
+    },
+    outputDir: env.OUTPUT_DIR,
+    useCases: USE_CASES,
+    llm,
+    llmLimits: input.llmLimits,
   });
 
   return {
     accountId,
     accountName,
-    callsProcessed: calls.length,
-    duplicatesRemoved: dedupe.duplicates.length,
-    callsMarkdownPaths,
-    mergedMarkdownPath,
-    quotesPath,
-    claimsPath,
-    dedupeReportPath,
-    caseStudyPaths,
+    callsProcessed: result.callsProcessed,
+    duplicatesRemoved: result.duplicatesRemoved,
+    callsMarkdownPaths: result.corpus.callsMarkdownPaths,
+    mergedMarkdownPath: result.corpus.mergedMarkdownPath,
+    quotesPath: result.evidence!.quotesPath,
+    claimsPath: result.evidence!.claimsPath,
+    dedupeReportPath: result.corpus.dedupeReportPath,
+    caseStudyPaths: result.stories.map((story) => story.path),
+    skipped: result.skipped,
   };
 }
 
@@ -3,13 +3,48 @@ import { z } from "zod";
 
 loadEnv();
 
-const EnvSchema = z.object({
-  OPENAI_API_KEY: z.string().min(1, "OPENAI_API_KEY is required"),
-  OPENAI_MODEL: z.string().default("gpt-4o"),
+/** Call-recording sources; PROVIDER may join several with `_` (e.g. `gong_zoom`) for shared accounts. */
+export const CALL_SOURCES = ["gong", "grain", "zoom", "fireflies", "chorus"] as const;
+export type CallSource = (typeof CALL_SOURCES)[number];
+
+/** Chat backends for matching, extraction and story writing; see src/llm/factory.ts. */
+export const LLM_PROVIDERS = ["openai", "azure", "anthropic", "openai-compatible", "mock"] as const;
+export type LlmProviderName = (typeof LLM_PROVIDERS)[number];
 
-  PROVIDER: z.enum(["merge", "json", "gong", "grain", "gong_grain"]).default("gong_grain"),
+const STANDALONE_PROVIDERS = ["merge", "json", "folder"];
+
+export function parseCallSources(provider: string): CallSource[] | null {
+  const parts = provider.split("_");
+  const valid = parts.every((part) => (CALL_SOURCES as readonly string[]).includes(part));
+  return valid && new Set(parts).size === parts.length ? (parts as CallSource[]) : null;
+}
+
+const EnvSchema = z.object({
+  OPENAI_API_KEY: z.string().optional(),
+  OPENAI_MODEL: z.string().optional(),
+
+  // LLM backend (defaults to OpenAI with OPENAI_API_KEY / OPENAI_MODEL)
+  LLM_PROVIDER: z.enum(LLM_PROVIDERS).default("openai"),
+  LLM_MODEL: z.string().optional(),
+  LLM_API_KEY: z.string().optional(),
+  LLM_BASE_URL: z.string().url().optional(),
+  LLM_API_VERSION: z.string().optional(),
+
+  PROVIDER: z
+    .string()
+    .default("gong_grain")
+    .refine((value) => STANDALONE_PROVIDERS.includes(value) || parseCallSources(value) !== null, {
+      message: `PROVIDER must be ${STANDALONE_PROVIDERS.join(", ")}, or one or more of ${CALL_SOURCES.join(", ")} joined with "_"`,
+    }),
 
   OUTPUT_DIR: z.string().default("output"),
+  CORPUS_STORE_DIR: z.string().optional(),
+  EXTRACTION_CACHE_DIR: z.string().optional(),
+  // Minutes a discovered shared-account list is reused; 0 disables caching, blank means the default
+  DISCOVERY_CACHE_TTL_MINUTES: z.preprocess(
+    (value) => (value === "" ? undefined : value),
+    z.coerce.number().nonnegative().default(30)
+  ),
 
   // Merge
   MERGE_API_KEY: z.string().optional(),
@@ -28,11 +63,34 @@ const EnvSchema = z.object({
   GRAIN_BASE_URL: z.string().url().default("https://grain.com/_/public-api"),
   GRAIN_API_TOKEN: z.string().optional(),
 
+  // Zoom (Server-to-Server OAuth app, or a pre-issued access token)
+  ZOOM_BASE_URL: z.string().url().default("https://api.zoom.us/v2"),
+  ZOOM_OAUTH_URL: z.string().url().default("https://zoom.us/oauth/token"),
+  ZOOM_ACCOUNT_ID: z.string().optional(),
+  ZOOM_CLIENT_ID: z.string().optional(),
+  ZOOM_CLIENT_SECRET: z.string().optional(),
+  ZOOM_ACCESS_TOKEN: z.string().optional(),
+  ZOOM_USER_ID: z.string().default("me"),
+
+  // Fireflies
+  FIREFLIES_BASE_URL: z.string().url().default("https://api.fireflies.ai/graphql"),
+  FIREFLIES_API_KEY: z.string().optional(),
+
+  // Chorus
+  CHORUS_BASE_URL: z.string().url().default("https://chorus.ai"),
+  CHORUS_API_TOKEN: z.string().optional(),
+
   // Shared
   INTERNAL_EMAIL_DOMAINS: z.string().optional(),
 
+  // Dedupe thresholds, rules and provider preference (JSON; see src/pipeline/dedupePolicy.ts)
+  DEDUPE_POLICY_FILE: z.string().optional(),
+
   // JSON fallback
   JSON_INPUT_FILE: z.string().optional(),
+
+  // Exported .vtt/.srt/.txt transcripts
+  TRANSCRIPT_FOLDER: z.string().optional(),
 });
 
 export type AgentEnv = z.infer<typeof EnvSchema>;
@@ -41,9 +99,18 @@ export function loadAgentEnv(overrides: Partial<Record<keyof AgentEnv, string>>
   const parsed = EnvSchema.safeParse({
     OPENAI_API_KEY: overrides.OPENAI_API_KEY ?? process.env.OPENAI_API_KEY,
     OPENAI_MODEL: overrides.OPENAI_MODEL ?? process.env.OPENAI_MODEL,
+    LLM_PROVIDER: overrides.LLM_PROVIDER ?? process.env.LLM_PROVIDER,
+    LLM_MODEL: overrides.LLM_MODEL ?? process.env.LLM_MODEL,
+    LLM_API_KEY: overrides.LLM_API_KEY ?? process.env.LLM_API_KEY,
+    LLM_BASE_URL: overrides.LLM_BASE_URL ?? process.env.LLM_BASE_URL,
+    LLM_API_VERSION: overrides.LLM_API_VERSION ?? process.env.LLM_API_VERSION,
 
     PROVIDER: overrides.PROVIDER ?? process.env.PROVIDER,
     OUTPUT_DIR: overrides.OUTPUT_DIR ?? process.env.OUTPUT_DIR,
+    CORPUS_STORE_DIR: overrides.CORPUS_STORE_DIR ?? process.env.CORPUS_STORE_DIR,
+    EXTRACTION_CACHE_DIR: overrides.EXTRACTION_CACHE_DIR ?? process.env.EXTRACTION_CACHE_DIR,
+    DISCOVERY_CACHE_TTL_MINUTES:
+      overrides.DISCOVERY_CACHE_TTL_MINUTES ?? process.env.DISCOVERY_CACHE_TTL_MINUTES,
 
     MERGE_API_KEY: overrides.MERGE_API_KEY ?? process.env.MERGE_API_KEY,
     MERGE_ACCOUNT_TOKEN: overrides.MERGE_ACCOUNT_TOKEN ?? process.env.MERGE_ACCOUNT_TOKEN,
@@ -60,10 +127,26 @@ export function loadAgentEnv(overrides: Partial<Record<keyof AgentEnv, string>>
     GRAIN_BASE_URL: overrides.GRAIN_BASE_URL ?? process.env.GRAIN_BASE_URL,
     GRAIN_API_TOKEN: overrides.GRAIN_API_TOKEN ?? process.env.GRAIN_API_TOKEN,
 
+    ZOOM_BASE_URL: overrides.ZOOM_BASE_URL ?? process.env.ZOOM_BASE_URL,
+    ZOOM_OAUTH_URL: overrides.ZOOM_OAUTH_URL ?? process.env.ZOOM_OAUTH_URL,
+    ZOOM_ACCOUNT_ID: overrides.ZOOM_ACCOUNT_ID ?? process.env.ZOOM_ACCOUNT_ID,
+    ZOOM_CLIENT_ID: overrides.ZOOM_CLIENT_ID ?? process.env.ZOOM_CLIENT_ID,
+    ZOOM_CLIENT_SECRET: overrides.ZOOM_CLIENT_SECRET ?? process.env.ZOOM_CLIENT_SECRET,
+    ZOOM_ACCESS_TOKEN: overrides.ZOOM_ACCESS_TOKEN ?? process.env.ZOOM_ACCESS_TOKEN,
+    ZOOM_USER_ID: overrides.ZOOM_USER_ID ?? process.env.ZOOM_USER_ID,
+
+    FIREFLIES_BASE_URL: overrides.FIREFLIES_BASE_URL ?? process.env.FIREFLIES_BASE_URL,
+    FIREFLIES_API_KEY: overrides.FIREFLIES_API_KEY ?? process.env.FIREFLIES_API_KEY,
+
+    CHORUS_BASE_URL: overrides.CHORUS_BASE_URL ?? process.env.CHORUS_BASE_URL,
+    CHORUS_API_TOKEN: overrides.CHORUS_API_TOKEN ?? process.env.CHORUS_API_TOKEN,
+
     INTERNAL_EMAIL_DOMAINS:
       overrides.INTERNAL_EMAIL_DOMAINS ?? process.env.INTERNAL_EMAIL_DOMAINS,
+    DEDUPE_POLICY_FILE: overrides.DEDUPE_POLICY_FILE ?? process.env.DEDUPE_POLICY_FILE,
 
     JSON_INPUT_FILE: overrides.JSON_INPUT_FILE ?? process.env.JSON_INPUT_FILE,
+    TRANSCRIPT_FOLDER: overrides.TRANSCRIPT_FOLDER ?? process.env.TRANSCRIPT_FOLDER,
   });
 
   if (!parsed.success) {
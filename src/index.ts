@@ -4,6 +4,9 @@ import { Command } from "commander";
 import { createInterface } from "node:readline/promises";
 import { stdin as input, stdout as output } from "node:process";
 import { runCaseStudyAgent } from "./agent/runCaseStudyAgent.js";
+import { EXTRACTION_PROMPT_VERSION } from "./pipeline/quotes.js";
+import { ExtractionCache, resolveExtractionCacheDir } from "./store/extractionCache.js";
+import type { ExtractionCacheFilter } from "./store/extractionCache.js";
 import type { DiscoveredAccount } from "./types/domain.js";
 
 const program = new Command();
@@ -11,13 +14,25 @@ const program = new Command();
 program
   .name("callcase-agent")
   .description("Consolidate call transcripts and generate case-study packs")
-  .option("--provider <provider>", "Provider override: merge|json|gong|grain|gong_grain")
+  .option("--provider <provider>", "Provider override: merge|json|folder|gong|grain|zoom|fireflies|chorus, or sources joined with _ (e.g. gong_grain, gong_zoom)")
   .option("--account-id <id>", "Account ID")
   .option("--account-name <name>", "Account name (if omitted, account menu is shown when supported)")
   .option("--from-date <YYYY-MM-DD>", "Lower bound date")
   .option("--to-date <YYYY-MM-DD>", "Upper bound date")
   .option("--max-calls <n>", "Maximum calls to fetch", (value) => Number(value))
   .option("--output-dir <dir>", "Output directory")
+  .option("--refresh", "Discard the local transcript store and re-sync from the provider")
+  .option("--fuse-segments", "Fuse duplicate recordings from different providers segment by segment")
+  .option("--dedupe-policy <file>", "JSON dedupe policy: thresholds, rules, provider preference, quality weights")
+  .option("--min-quote-similarity <n>", "Word-level similarity (0..1) a quote needs with the transcript (default 0.85)", (value) => Number(value))
+  .option("--window-tokens <n>", "Estimated transcript tokens per extraction request; longer calls are split (default 12000)", (value) => Number(value))
+  .option("--number-locale <locale>", "Locale for ambiguous amounts in claims, e.g. de-DE reads 1.200 as 1200 (default en-US)")
+  .option("--llm-concurrency <n>", "LLM requests in flight at once (default 4)", (value) => Number(value))
+  .option("--tokens-per-minute <n>", "LLM tokens allowed per rolling minute", (value) => Number(value))
+  .option("--max-llm-tokens <n>", "Token budget for the run; work it cannot cover is skipped", (value) => Number(value))
+  .option("--max-llm-cost <usd>", "Estimated dollar budget for the run at the model's list price", (value) => Number(value))
+  .option("--no-extraction-cache", "Extract every call afresh instead of reusing cached model responses")
+  .option("--mock-llm", "Use the offline mock LLM (no API key; deterministic output for dry runs)")
   .action(async (opts) => {
     const result = await runCaseStudyAgent({
       provider: opts.provider,
@@ -27,18 +42,92 @@ program
       toDate: opts.toDate,
       maxCalls: opts.maxCalls,
       outputDir: opts.outputDir,
+      refresh: opts.refresh,
+      fuseSegments: opts.fuseSegments,
+      dedupePolicyFile: opts.dedupePolicy,
+      minQuoteSimilarity: opts.minQuoteSimilarity,
+      windowTokens: opts.windowTokens,
+      numberLocale: opts.numberLocale,
+      llmLimits: {
+        concurrency: opts.llmConcurrency,
+        tokensPerMinute: opts.tokensPerMinute,
+        maxTokens: opts.maxLlmTokens,
+        maxCostUsd: opts.maxLlmCost,
+      },
+      extractionCache: opts.extractionCache,
+      mockLlm: opts.mockLlm,
       selectAccount: async (accounts) => promptAccountSelection(accounts),
     });
 
     console.log(JSON.stringify(result, null, 2));
   });
 
+const cache = program
+  .command("cache")
+  .description("Inspect or clear cached evidence extraction responses (EXTRACTION_CACHE_DIR)");
+
+cache
+  .command("list")
+  .description("List cached extractions with their transcript hash, model and prompt version")
+  .option("--transcript-hash <hash>", "Only this transcript")
+  .option("--call-id <id>", "Only entries first written for this provider call id")
+  .option("--model <model>", "Only this model")
+  .option("--stale", "Only entries written with an older extraction prompt")
+  .action(async (opts) => {
+    const store = new ExtractionCache(resolveExtractionCacheDir());
+    const entries = await store.list(cacheFilter(opts));
+    console.log(
+      JSON.stringify(
+        {
+          dir: store.rootDir,
+          promptVersion: EXTRACTION_PROMPT_VERSION,
+          entries: entries.map((entry) => ({
+            ...entry.key,
+            stale: entry.key.promptVersion !== EXTRACTION_PROMPT_VERSION,
+            source: entry.source,
+            createdAt: entry.createdAt,
+            windows: entry.responses.length,
+          })),
+        },
+        null,
+        2
+      )
+    );
+  });
+
+cache
+  .command("clear")
+  .description("Remove cached extractions; with no filter, removes all of them")
+  .option("--transcript-hash <hash>", "Only this transcript")
+  .option("--call-id <id>", "Only entries first written for this provider call id")
+  .option("--model <model>", "Only this model")
+  .option("--stale", "Only entries written with an older extraction prompt")
+  .action(async (opts) => {
+    const store = new ExtractionCache(resolveExtractionCacheDir());
+    const removed = await store.invalidate(cacheFilter(opts));
+    console.log(JSON.stringify({ dir: store.rootDir, removed }, null, 2));
+  });
+
 program.parseAsync(process.argv).catch((err: unknown) => {
   const msg = err instanceof Error ? err.message : String(err);
   console.error(msg);
   process.exit(1);
 });
 
+function cacheFilter(opts: {
+  transcriptHash?: string;
+  callId?: string;
+  model?: string;
+  stale?: boolean;
+}): ExtractionCacheFilter {
+  return {
+    transcriptHash: opts.transcriptHash,
+    providerCallId: opts.callId,
+    model: opts.model,
+    stalePromptVersion: opts.stale ? EXTRACTION_PROMPT_VERSION : undefined,
+  };
+}
+
 async function promptAccountSelection(accounts: DiscoveredAccount[]): Promise<DiscoveredAccount> {
   if (accounts.length === 0) {
     throw new Error("No accounts discovered to select from.");
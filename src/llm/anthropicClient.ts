@@ -0,0 +1,95 @@
+import { z } from "zod";
+import { ProviderHttpClient } from "../providers/httpClient.js";
+import type { HttpClientOptions } from "../providers/httpClient.js";
+import type { LlmChatRequest, LlmChatResponse, LlmClient } from "./types.js";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+const DEFAULT_MAX_TOKENS = 4096;
+// Story generation regularly takes longer than the provider default of 60s.
+const DEFAULT_TIMEOUT_MS = 300_000;
+
+const JSON_INSTRUCTION = "Respond with a single JSON object and nothing else.";
+
+const MessagesResponseSchema = z.object({
+  model: z.string().optional(),
+  content: z.array(z.object({ type: z.string(), text: z.string().optional() })).default([]),
+  usage: z
+    .object({
+      input_tokens: z.number().default(0),
+      output_tokens: z.number().default(0),
+    })
+    .optional(),
+});
+
+export interface AnthropicClientConfig {
+  apiKey: string;
+  model: string;
+  baseUrl: string;
+  http?: Omit<HttpClientOptions, "provider" | "authHint">;
+}
+
+/** Anthropic Messages API. JSON mode is an instruction plus extraction of the first object. */
+export class AnthropicLlmClient implements LlmClient {
+  readonly provider = "anthropic";
+  readonly model: string;
+  private readonly http: ProviderHttpClient;
+
+  constructor(private readonly config: AnthropicClientConfig) {
+    this.model = config.model;
+    this.http = new ProviderHttpClient({
+      timeoutMs: DEFAULT_TIMEOUT_MS,
+      ...config.http,
+      provider: "Anthropic",
+      authHint: "Check LLM_API_KEY (or llmApiKey).",
+    });
+  }
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+    const system = request.messages
+      .filter((message) => message.role === "system")
+      .map((message) => message.content);
+    if (request.json) {
+      system.push(JSON_INSTRUCTION);
+    }
+
+    const raw = await this.http.requestJson(`${this.config.baseUrl.replace(/\/$/, "")}/v1/messages`, {
+      operation: "messages",
+      method: "POST",
+      headers: {
+        "x-api-key": this.config.apiKey,
+        "anthropic-version": ANTHROPIC_VERSION,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+        temperature: request.temperature,
+        system: system.length > 0 ? system.join("\n\n") : undefined,
+        messages: request.messages
+          .filter((message) => message.role !== "system")
+          .map((message) => ({ role: message.role, content: message.content })),
+      }),
+    });
+
+    const response = MessagesResponseSchema.parse(raw);
+    const text = response.content
+      .filter((block) => block.type === "text")
+      .map((block) => block.text ?? "")
+      .join("");
+
+    return {
+      content: request.json ? extractJsonObject(text) : text,
+      model: response.model ?? this.model,
+      usage: {
+        inputTokens: response.usage?.input_tokens ?? 0,
+        outputTokens: response.usage?.output_tokens ?? 0,
+      },
+    };
+  }
+}
+
+function extractJsonObject(text: string): string {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  return start >= 0 && end > start ? text.slice(start, end + 1) : text.trim();
+}
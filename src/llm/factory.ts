@@ -0,0 +1,149 @@
+import OpenAI, { AzureOpenAI } from "openai";
+import type { LlmProviderName } from "../config/env.js";
+import { AnthropicLlmClient } from "./anthropicClient.js";
+import { MockLlmClient } from "./mockClient.js";
+import { OpenAiLlmClient } from "./openaiClient.js";
+import type { LlmChatRequest, LlmChatResponse, LlmClient, LlmUsageTotals } from "./types.js";
+
+/** LLM fields as they appear on web/MCP requests; the CLI maps its env onto the same shape. */
+export interface LlmSettings {
+  llmProvider?: LlmProviderName;
+  llmModel?: string;
+  llmApiKey?: string;
+  /** OpenAI-compatible server URL, Azure resource endpoint or Anthropic API URL. */
+  llmBaseUrl?: string;
+  /** Azure OpenAI API version. */
+  llmApiVersion?: string;
+  /** Kept from before the backend was pluggable; used when the provider is OpenAI. */
+  openaiApiKey?: string;
+  openaiModel?: string;
+}
+
+export interface LlmConfig {
+  provider: LlmProviderName;
+  model?: string;
+  apiKey?: string;
+  baseUrl?: string;
+  apiVersion?: string;
+}
+
+const DEFAULT_MODELS: Partial<Record<LlmProviderName, string>> = {
+  openai: "gpt-4o",
+  anthropic: "claude-sonnet-4-5",
+  mock: "mock",
+};
+
+const DEFAULT_BASE_URLS: Partial<Record<LlmProviderName, string>> = {
+  anthropic: "https://api.anthropic.com",
+};
+
+const DEFAULT_AZURE_API_VERSION = "2024-10-21";
+
+export function resolveLlmConfig(settings: LlmSettings): LlmConfig {
+  const provider = settings.llmProvider ?? "openai";
+  const openai = provider === "openai";
+
+  return {
+    provider,
+    model:
+      settings.llmModel ?? (openai ? settings.openaiModel : undefined) ?? DEFAULT_MODELS[provider],
+    apiKey: settings.llmApiKey ?? (openai ? settings.openaiApiKey : undefined),
+    baseUrl: settings.llmBaseUrl ?? DEFAULT_BASE_URLS[provider],
+    apiVersion:
+      provider === "azure" ? settings.llmApiVersion ?? DEFAULT_AZURE_API_VERSION : settings.llmApiVersion,
+  };
+}
+
+/** Describes what is missing for this backend, or null when a client can be created. */
+export function llmConfigIssue(config: LlmConfig): string | null {
+  switch (config.provider) {
+    case "openai":
+      return config.apiKey ? null : "OpenAI API key is required (openaiApiKey / OPENAI_API_KEY)";
+    case "azure":
+      if (!config.baseUrl) return "Azure OpenAI needs the resource endpoint (llmBaseUrl / LLM_BASE_URL)";
+      if (!config.model) return "Azure OpenAI needs the deployment name (llmModel / LLM_MODEL)";
+      return config.apiKey ? null : "Azure OpenAI API key is required (llmApiKey / LLM_API_KEY)";
+    case "anthropic":
+      return config.apiKey ? null : "Anthropic API key is required (llmApiKey / LLM_API_KEY)";
+    case "openai-compatible":
+      if (!config.baseUrl) return "An OpenAI-compatible server URL is required (llmBaseUrl / LLM_BASE_URL)";
+      return config.model ? null : "A model name is required (llmModel / LLM_MODEL)";
+    case "mock":
+      return null;
+  }
+}
+
+export function createLlmClient(config: LlmConfig, options: { fetchImpl?: typeof fetch } = {}): LlmClient {
+  const issue = llmConfigIssue(config);
+  if (issue) {
+    throw new Error(issue);
+  }
+  const model = config.model!;
+
+  switch (config.provider) {
+    case "openai":
+      return new OpenAiLlmClient(
+        new OpenAI({ apiKey: config.apiKey, baseURL: config.baseUrl, fetch: options.fetchImpl }),
+        model
+      );
+    case "azure":
+      return new OpenAiLlmClient(
+        new AzureOpenAI({
+          endpoint: config.baseUrl,
+          deployment: model,
+          apiKey: config.apiKey,
+          apiVersion: config.apiVersion,
+          fetch: options.fetchImpl,
+        }),
+        model,
+        "azure"
+      );
+    case "openai-compatible":
+      return new OpenAiLlmClient(
+        new OpenAI({
+          // Local servers usually ignore the key, but the SDK refuses to start without one.
+          apiKey: config.apiKey ?? "not-needed",
+          baseURL: config.baseUrl,
+          fetch: options.fetchImpl,
+        }),
+        model,
+        "openai-compatible"
+      );
+    case "anthropic":
+      return new AnthropicLlmClient({
+        apiKey: config.apiKey!,
+        model,
+        baseUrl: config.baseUrl!,
+        http: { fetchImpl: options.fetchImpl },
+      });
+    case "mock":
+      return new MockLlmClient();
+  }
+}
+
+/** Wraps a client and adds up token usage across every request made through it. */
+export class LlmUsageMeter implements LlmClient {
+  private readonly totals: LlmUsageTotals = { requests: 0, inputTokens: 0, outputTokens: 0 };
+
+  constructor(private readonly inner: LlmClient) {}
+
+  get provider(): string {
+    return this.inner.provider;
+  }
+
+  get model(): string {
+    return this.inner.model;
+  }
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+    const response = await this.inner.chat(request);
+    this.totals.requests += 1;
+    this.totals.inputTokens += response.usage.inputTokens;
+    this.totals.outputTokens += response.usage.outputTokens;
+    return response;
+  }
+
+  usage(): LlmUsageTotals {
+    return { ...this.totals };
+  }
+}
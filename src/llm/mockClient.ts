@@ -0,0 +1,197 @@
+import { estimateTokens } from "./tokens.js";
+import type { LlmChatRequest, LlmChatResponse, LlmClient } from "./types.js";
+
+const NUMERIC_PHRASE =
+  /(?:\$\s?\d[\d,.]*(?:\s?(?:k|m)\b|\s(?:million|billion))?|\d[\d,.]*\s?%|\d[\d,.]*\s?(?:x|hours?|days?|weeks?|months?|years?|minutes?|users?|seats?|tickets?|calls?))/i;
+
+const CLAIM_TYPES: Array<[RegExp, string]> = [
+  [/\$|sav|cost/i, "cost_savings"],
+  [/revenue|pipeline|bookings/i, "revenue"],
+  [/error|defect|mistake/i, "error_reduction"],
+  [/hours?|days?|weeks?|minutes?|faster/i, "time_saved"],
+  [/users?|seats?|adoption|rollout/i, "adoption"],
+  [/roi|return/i, "roi"],
+];
+
+const MAX_QUOTES = 10;
+const MAX_CLAIMS = 12;
+
+interface PromptQuote {
+  callId: string;
+  date: string;
+  title: string;
+  speaker: string;
+  at: string;
+  quote: string;
+}
+
+interface PromptClaim {
+  callId: string;
+  value: string;
+  claim: string;
+}
+
+/**
+ * Offline stand-in for dry runs and tests. Answers are derived only from the request text, so the
+ * same transcript always yields the same quotes, claims and story: numeric sentences become
+ * quotes and claims, and stories are assembled from the required sections and extracted evidence.
+ */
+export class MockLlmClient implements LlmClient {
+  readonly provider = "mock";
+  readonly model = "mock";
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+    const prompt = request.messages
+      .filter((message) => message.role === "user")
+      .map((message) => message.content)
+      .join("\n\n");
+
+    let content: string;
+    switch (request.task) {
+      case "extract-evidence":
+        content = JSON.stringify(mockExtraction(prompt));
+        break;
+      case "match-accounts":
+        content = JSON.stringify({ matches: [] });
+        break;
+      case "write-story":
+        content = mockStory(prompt);
+        break;
+      default:
+        content = request.json ? "{}" : "";
+    }
+
+    const input = request.messages.map((message) => message.content).join("");
+    return {
+      content,
+      model: this.model,
+      usage: { inputTokens: estimateTokens(input), outputTokens: estimateTokens(content) },
+    };
+  }
+}
+
+function mockExtraction(prompt: string) {
+  const callId = /^Call ID: (.*)$/m.exec(prompt)?.[1]?.trim() ?? "";
+  const transcript = prompt.split(/\nTranscript:\n/)[1] ?? "";
+  const sentences = splitSentences(transcript);
+  const numeric = sentences.filter((sentence) => NUMERIC_PHRASE.test(sentence));
+  const quoted = numeric.length > 0 ? numeric : sentences.filter((sentence) => sentence.length >= 40).slice(0, 2);
+
+  return {
+    quotes: quoted.slice(0, MAX_QUOTES).map((sentence) => ({
+      quote: sentence,
+      speaker: null,
+      metricValue: NUMERIC_PHRASE.exec(sentence)?.[0] ?? null,
+      metricType: NUMERIC_PHRASE.test(sentence) ? claimType(sentence) : null,
+      reason: NUMERIC_PHRASE.test(sentence)
+        ? "States a measurable outcome (mock extraction)."
+        : "Customer perspective in their own words (mock extraction).",
+      sourceCallId: callId,
+      sourceTimestampMs: null,
+      confidence: 0.9,
+    })),
+    claims: numeric.slice(0, MAX_CLAIMS).map((sentence) => {
+      const { value, unit } = splitUnit(NUMERIC_PHRASE.exec(sentence)![0].trim());
+      return {
+        claim: sentence,
+        claimType: claimType(sentence),
+        value,
+        unit,
+        sourceCallId: callId,
+        sourceTimestampMs: null,
+        evidenceQuote: sentence,
+        confidence: 0.9,
+      };
+    }),
+  };
+}
+
+function mockStory(prompt: string): string {
+  const structure = blockAfter(prompt, "Required structure:");
+  const title = structure.find((line) => line.startsWith("# "))?.slice(2).trim() ?? "Case Study";
+  const sections = structure.filter((line) => line.startsWith("## ")).map((line) => line.slice(3).trim());
+  const quotes = blockAfter(prompt, "Extracted quotes with attribution:").flatMap(parseQuoteLine);
+  const claims = blockAfter(prompt, "Extracted quantitative claims with attribution:").flatMap(parseClaimLine);
+
+  const lines = [`# ${title}`, "", "_Offline mock draft: assembled from extracted evidence without an LLM._"];
+
+  sections.forEach((section, index) => {
+    lines.push("", `## ${section}`, "");
+    const quote = quotes.length > 0 ? quotes[index % quotes.length] : null;
+    const claim = claims.length > 0 ? claims[index % claims.length] : null;
+
+    if (quote) {
+      lines.push(`> "${quote.quote}"`, `> — ${quote.speaker}, ${quote.title} (${quote.date.slice(0, 10)}, ${quote.at})`, "");
+    }
+    if (claim) {
+      lines.push(`- ${claim.claim} [${claim.callId}]`);
+    }
+    if (!quote && !claim) {
+      lines.push("- Data gap: no extracted evidence supports this section yet.");
+    }
+  });
+
+  lines.push("", "## Numeric Evidence", "", "| Value | Claim | Source call |", "| --- | --- | --- |");
+  for (const claim of claims) {
+    lines.push(`| ${claim.value} | ${claim.claim.replace(/\|/g, "/")} | ${claim.callId} |`);
+  }
+  if (claims.length === 0) {
+    lines.push("| n/a | No quantitative claims were extracted | n/a |");
+  }
+
+  const conflicts = blockAfter(prompt, "Conflicting claims across calls:").flatMap(parseConflictLine);
+  if (conflicts.length > 0) {
+    lines.push("", "Figures the calls disagree on:", "");
+    for (const conflict of conflicts) {
+      lines.push(`- ${conflict.metric}: ${conflict.use} (also stated: ${conflict.others})`);
+    }
+  }
+
+  return `${lines.join("\n")}\n`;
+}
+
+function blockAfter(prompt: string, heading: string): string[] {
+  const start = prompt.indexOf(`${heading}\n`);
+  if (start < 0) return [];
+  const rest = prompt.slice(start + heading.length + 1);
+  const end = rest.indexOf("\n\n");
+  return (end < 0 ? rest : rest.slice(0, end)).split("\n");
+}
+
+function parseQuoteLine(line: string): PromptQuote[] {
+  const match = /^- \[(.+?)\] date=(\S+) title=(.*?) speaker=(.*?) (?:from=\S+ )?t=(\S+) (?:cite=\[.*?\] )?confidence=\S+ :: "(.*)"$/.exec(line);
+  if (!match) return [];
+  const [, callId, date, title, speaker, at, quote] = match;
+  return [{ callId, date, title, speaker, at, quote }];
+}
+
+function parseClaimLine(line: string): PromptClaim[] {
+  const match = /^- \[(.+?)\] .*? value=(.*?) (?:normalized=\[.*?\] )?confidence=\S+ :: (.*?) :: evidence=/.exec(line);
+  if (!match) return [];
+  const [, callId, value, claim] = match;
+  return [{ callId, value, claim }];
+}
+
+function parseConflictLine(line: string): Array<{ metric: string; use: string; others: string }> {
+  const match = /^- metric=(.*?) type=\S+ use=(.*?) basis=.*? :: also stated: (.*)$/.exec(line);
+  if (!match) return [];
+  const [, metric, use, others] = match;
+  return [{ metric, use, others }];
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map((sentence) => sentence.trim())
+    .filter((sentence) => sentence.length >= 16);
+}
+
+function claimType(sentence: string): string {
+  return CLAIM_TYPES.find(([pattern]) => pattern.test(sentence))?.[1] ?? "other";
+}
+
+/** "12 days" becomes value "12" and unit "days"; currency and percentages keep their symbol. */
+function splitUnit(phrase: string): { value: string; unit: string | null } {
+  const match = /^(\d[\d,.]*)\s?([a-z]+)$/i.exec(phrase);
+  return match ? { value: match[1], unit: match[2].toLowerCase() } : { value: phrase, unit: null };
+}
@@ -0,0 +1,33 @@
+import OpenAI from "openai";
+import type { LlmChatRequest, LlmChatResponse, LlmClient } from "./types.js";
+
+/**
+ * Chat completions through the OpenAI SDK. The same adapter serves OpenAI, Azure OpenAI
+ * (`AzureOpenAI` client, model = deployment) and OpenAI-compatible servers (custom baseURL).
+ */
+export class OpenAiLlmClient implements LlmClient {
+  constructor(
+    private readonly client: OpenAI,
+    readonly model: string,
+    readonly provider: string = "openai"
+  ) {}
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      response_format: request.json ? { type: "json_object" } : undefined,
+      messages: request.messages,
+    });
+
+    return {
+      content: response.choices[0]?.message?.content ?? "",
+      model: response.model || this.model,
+      usage: {
+        inputTokens: response.usage?.prompt_tokens ?? 0,
+        outputTokens: response.usage?.completion_tokens ?? 0,
+      },
+    };
+  }
+}
@@ -0,0 +1,223 @@
+import { estimateTokens } from "./tokens.js";
+import type { LlmChatRequest, LlmChatResponse, LlmClient, LlmUsage } from "./types.js";
+
+/** USD per million tokens. */
+export interface LlmPricing {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export interface LlmRunLimits {
+  /** Requests in flight at once; defaults to 4. */
+  concurrency?: number;
+  /** Input and output tokens allowed per rolling minute; unlimited when omitted. */
+  tokensPerMinute?: number;
+  /** Input and output tokens allowed for the whole run. */
+  maxTokens?: number;
+  /** Estimated spend allowed for the whole run, priced with `pricing`. */
+  maxCostUsd?: number;
+  /** Defaults to the built-in price for the model; required for `maxCostUsd` on other models. */
+  pricing?: LlmPricing;
+}
+
+/** What the run was allowed and what it used; `exhausted` means later requests were refused. */
+export interface LlmBudgetReport {
+  maxTokens: number | null;
+  maxCostUsd: number | null;
+  tokensUsed: number;
+  /** Null when the model has no known price. */
+  estimatedCostUsd: number | null;
+  exhausted: boolean;
+}
+
+export interface SchedulerClock {
+  now: () => number;
+  sleep: (ms: number) => Promise<void>;
+}
+
+/** List prices for the default models; others need `pricing` to budget by cost. */
+export const LLM_PRICING: Record<string, LlmPricing> = {
+  "gpt-4o": { inputPerMillion: 2.5, outputPerMillion: 10 },
+  "gpt-4o-mini": { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+  "claude-sonnet-4-5": { inputPerMillion: 3, outputPerMillion: 15 },
+  mock: { inputPerMillion: 0, outputPerMillion: 0 },
+};
+
+const DEFAULT_CONCURRENCY = 4;
+const RATE_WINDOW_MS = 60_000;
+
+export class LlmBudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "LlmBudgetExceededError";
+  }
+}
+
+/**
+ * Wraps a client so a run's requests share one budget: at most `concurrency` run at once, new
+ * requests wait while the last minute's tokens would exceed `tokensPerMinute`, and once the
+ * run's token or cost budget cannot cover a request's estimated input, it and every later
+ * request fail with LlmBudgetExceededError. Requests already in flight always complete.
+ *
+ * Each admitted request reserves its estimated input plus its `maxTokens` until its response
+ * arrives and the reservation is settled against actual usage, so concurrent requests cannot
+ * together overshoot the budget. A request that only fits once others settle waits for them.
+ */
+export class LlmScheduler implements LlmClient {
+  private readonly concurrency: number;
+  private readonly pricing: LlmPricing | null;
+  private readonly clock: SchedulerClock;
+  private active = 0;
+  private readonly waiting: Array<() => void> = [];
+  private readonly recent: Array<{ at: number; tokens: number }> = [];
+  private readonly used: LlmUsage = { inputTokens: 0, outputTokens: 0 };
+  private readonly reserved: LlmUsage = { inputTokens: 0, outputTokens: 0 };
+  private reservations = 0;
+  private readonly settling: Array<() => void> = [];
+  private exhausted = false;
+
+  constructor(
+    private readonly inner: LlmClient,
+    private readonly limits: LlmRunLimits = {},
+    clock: Partial<SchedulerClock> = {}
+  ) {
+    this.concurrency = Math.max(1, limits.concurrency ?? DEFAULT_CONCURRENCY);
+    this.pricing = limits.pricing ?? LLM_PRICING[inner.model] ?? null;
+    if (limits.maxCostUsd != null && !this.pricing) {
+      throw new Error(
+        `No price is known for model "${inner.model}", so a cost budget cannot be applied. Set a token budget instead.`
+      );
+    }
+    this.clock = {
+      now: clock.now ?? Date.now,
+      sleep: clock.sleep ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms))),
+    };
+  }
+
+  get provider(): string {
+    return this.inner.provider;
+  }
+
+  get model(): string {
+    return this.inner.model;
+  }
+
+  async chat(request: LlmChatRequest): Promise<LlmChatResponse> {
+    return this.withSlot(async () => {
+      const reservation: LlmUsage = {
+        inputTokens: estimateTokens(request.messages.map((message) => message.content).join("")),
+        outputTokens: request.maxTokens ?? 0,
+      };
+      await this.admit(reservation);
+
+      try {
+        await this.waitForRate(reservation.inputTokens + reservation.outputTokens);
+
+        const entry = { at: this.clock.now(), tokens: reservation.inputTokens + reservation.outputTokens };
+        this.recent.push(entry);
+        const response = await this.inner.chat(request);
+
+        entry.tokens = response.usage.inputTokens + response.usage.outputTokens;
+        this.used.inputTokens += response.usage.inputTokens;
+        this.used.outputTokens += response.usage.outputTokens;
+        return response;
+      } finally {
+        this.settle(reservation);
+      }
+    });
+  }
+
+  report(): LlmBudgetReport {
+    return {
+      maxTokens: this.limits.maxTokens ?? null,
+      maxCostUsd: this.limits.maxCostUsd ?? null,
+      tokensUsed: this.used.inputTokens + this.used.outputTokens,
+      estimatedCostUsd: this.pricing ? round(this.cost(this.used)) : null,
+      exhausted: this.exhausted,
+    };
+  }
+
+  /**
+   * Reserves the request's share of the budget. While other reservations are outstanding it waits
+   * for them to settle; when the budget cannot cover it on its own it refuses the request (and,
+   * from then on, every request).
+   */
+  private async admit(reservation: LlmUsage): Promise<void> {
+    const { maxTokens, maxCostUsd } = this.limits;
+
+    while (!this.exhausted) {
+      const committed = {
+        inputTokens: this.used.inputTokens + this.reserved.inputTokens + reservation.inputTokens,
+        outputTokens: this.used.outputTokens + this.reserved.outputTokens + reservation.outputTokens,
+      };
+      const fits =
+        (maxTokens == null || committed.inputTokens + committed.outputTokens <= maxTokens) &&
+        (maxCostUsd == null || this.cost(committed) <= maxCostUsd);
+      if (fits) {
+        this.reserved.inputTokens += reservation.inputTokens;
+        this.reserved.outputTokens += reservation.outputTokens;
+        this.reservations += 1;
+        return;
+      }
+      if (this.reservations === 0) {
+        this.exhausted = true;
+      } else {
+        await new Promise<void>((resolve) => this.settling.push(resolve));
+      }
+    }
+
+    const spent =
+      maxCostUsd != null
+        ? `$${round(this.cost(this.used))} of $${maxCostUsd}`
+        : `${this.used.inputTokens + this.used.outputTokens} of ${maxTokens} tokens`;
+    throw new LlmBudgetExceededError(`LLM budget exhausted (${spent} used).`);
+  }
+
+  /** Releases a reservation once its actual usage is counted and wakes requests waiting on it. */
+  private settle(reservation: LlmUsage): void {
+    this.reserved.inputTokens -= reservation.inputTokens;
+    this.reserved.outputTokens -= reservation.outputTokens;
+    this.reservations -= 1;
+    for (const resolve of this.settling.splice(0)) resolve();
+  }
+
+  /** Waits until the last minute's tokens leave room for this request; a lone request always runs. */
+  private async waitForRate(tokens: number): Promise<void> {
+    const limit = this.limits.tokensPerMinute;
+    if (limit == null) return;
+
+    for (;;) {
+      const now = this.clock.now();
+      while (this.recent.length > 0 && this.recent[0].at <= now - RATE_WINDOW_MS) this.recent.shift();
+      const inWindow = this.recent.reduce((sum, entry) => sum + entry.tokens, 0);
+      if (this.recent.length === 0 || inWindow + tokens <= limit) return;
+      await this.clock.sleep(this.recent[0].at + RATE_WINDOW_MS - now);
+    }
+  }
+
+  private cost(usage: LlmUsage): number {
+    if (!this.pricing) return 0;
+    return (
+      (usage.inputTokens * this.pricing.inputPerMillion + usage.outputTokens * this.pricing.outputPerMillion) /
+      1_000_000
+    );
+  }
+
+  private async withSlot<T>(task: () => Promise<T>): Promise<T> {
+    while (this.active >= this.concurrency) {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    }
+
+    this.active += 1;
+    try {
+      return await task();
+    } finally {
+      this.active -= 1;
+      this.waiting.shift()?.();
+    }
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 10_000) / 10_000;
+}
@@ -0,0 +1,7 @@
+/** Rough characters per token for English text across the supported models' tokenizers. */
+export const CHARS_PER_TOKEN = 4;
+
+/** Token count estimate used where no tokenizer is available (sizing prompts, offline usage). */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
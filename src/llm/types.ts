@@ -0,0 +1,39 @@
+export type LlmTask = "match-accounts" | "extract-evidence" | "write-story";
+
+export interface LlmMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface LlmChatRequest {
+  /** What the call is for; lets the mock backend answer each kind of request offline. */
+  task?: LlmTask;
+  messages: LlmMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  /** Ask for a single JSON object; `content` is then the raw JSON text. */
+  json?: boolean;
+}
+
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LlmChatResponse {
+  content: string;
+  model: string;
+  usage: LlmUsage;
+}
+
+/** Chat-completion backend used for account matching, evidence extraction and story writing. */
+export interface LlmClient {
+  /** Backend name, e.g. "openai" or "anthropic". */
+  readonly provider: string;
+  readonly model: string;
+  chat(request: LlmChatRequest): Promise<LlmChatResponse>;
+}
+
+export interface LlmUsageTotals extends LlmUsage {
+  requests: number;
+}
@@ -3,12 +3,16 @@ import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
 
+import { CALL_SOURCES, LLM_PROVIDERS } from "../config/env.js";
+import { DedupePolicyInputSchema } from "../pipeline/dedupePolicy.js";
 import { normalizeAccountName } from "../providers/account-utils.js";
+import { CALL_SOURCE_LABELS } from "../providers/factory.js";
 import {
   asErrorMessage,
   buildStory,
   discoverSharedAccounts,
   exportAccountCorpus,
+  invalidateDiscoveryCache,
   listStoryTypes,
 } from "../services/caseflow.js";
 import {
@@ -29,21 +33,110 @@ const CommonInputShape = {
   openaiApiKey: z
     .string()
     .optional()
-    .describe("OpenAI API key (optional for discovery, required for story generation)."),
+    .describe("OpenAI API key (optional for discovery, required for story generation with OpenAI)."),
   openaiModel: z.string().optional().describe("OpenAI model, defaults to gpt-4o."),
+  llmProvider: z
+    .enum(LLM_PROVIDERS)
+    .optional()
+    .describe("LLM backend: openai (default), azure, anthropic, openai-compatible or mock (offline dry run)."),
+  llmModel: z
+    .string()
+    .optional()
+    .describe("Model name (the deployment name for Azure); overrides openaiModel."),
+  llmApiKey: z.string().optional().describe("API key for the LLM backend; overrides openaiApiKey."),
+  llmBaseUrl: z
+    .string()
+    .optional()
+    .describe("Azure resource endpoint, OpenAI-compatible server URL or Anthropic API URL."),
+  llmApiVersion: z.string().optional().describe("Azure OpenAI API version."),
+  llmConcurrency: z.number().int().positive().max(32).optional().describe("LLM requests in flight at once (default 4)."),
+  llmTokensPerMinute: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("Input and output tokens allowed per rolling minute; requests wait for room."),
+  maxLlmTokens: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("Token budget for the run; calls and stories it cannot cover are skipped and reported."),
+  maxLlmCostUsd: z
+    .number()
+    .positive()
+    .optional()
+    .describe("Estimated dollar budget for the run at the model's list price."),
   gongBaseUrl: z.string().optional().describe("Gong API base URL."),
   gongAccessToken: z.string().optional().describe("Gong bearer token."),
   gongAccessKey: z.string().optional().describe("Gong API access key."),
   gongAccessKeySecret: z.string().optional().describe("Gong API access key secret."),
   grainBaseUrl: z.string().optional().describe("Grain API base URL."),
   grainApiToken: z.string().optional().describe("Grain API token."),
+  zoomBaseUrl: z.string().optional().describe("Zoom API base URL."),
+  zoomOauthUrl: z.string().optional().describe("Zoom OAuth token URL."),
+  zoomAccountId: z.string().optional().describe("Zoom Server-to-Server OAuth account ID."),
+  zoomClientId: z.string().optional().describe("Zoom Server-to-Server OAuth client ID."),
+  zoomClientSecret: z.string().optional().describe("Zoom Server-to-Server OAuth client secret."),
+  zoomAccessToken: z.string().optional().describe("Zoom bearer token (instead of OAuth credentials)."),
+  zoomUserId: z.string().optional().describe("Zoom user whose cloud recordings are read, defaults to me."),
+  firefliesBaseUrl: z.string().optional().describe("Fireflies GraphQL API URL."),
+  firefliesApiKey: z.string().optional().describe("Fireflies API key."),
+  chorusBaseUrl: z.string().optional().describe("Chorus API base URL."),
+  chorusApiToken: z.string().optional().describe("Chorus API token."),
+  providers: z
+    .array(z.enum(CALL_SOURCES))
+    .min(1)
+    .optional()
+    .describe("Providers to use; defaults to every provider with credentials."),
   internalEmailDomains: z
     .string()
     .optional()
-    .describe("Comma-separated internal domains to exclude from account detection."),
+    .describe(
+      "Comma-separated internal domains: excluded from account detection, and their speakers' quotes are left out of customer evidence."
+    ),
   fromDate: z.string().optional().describe("Lower date bound (YYYY-MM-DD or ISO datetime)."),
   toDate: z.string().optional().describe("Upper date bound (YYYY-MM-DD or ISO datetime)."),
   maxCalls: z.number().int().positive().max(5000).optional().describe("Max calls to process."),
+  refresh: z
+    .boolean()
+    .optional()
+    .describe(
+      "Bypass the cached account list and local transcript store and re-fetch from the providers."
+    ),
+  fuseSegments: z
+    .boolean()
+    .optional()
+    .describe(
+      "Fuse recordings of one meeting from different providers segment by segment, keeping the best speaker, text and timestamps."
+    ),
+  minQuoteSimilarity: z
+    .number()
+    .min(0)
+    .max(1)
+    .optional()
+    .describe("Word-level similarity (0..1) a quote needs with the transcript to be kept; defaults to 0.85."),
+  windowTokens: z
+    .number()
+    .int()
+    .min(1000)
+    .optional()
+    .describe("Estimated transcript tokens per extraction request; longer calls are split into windows. Defaults to 12000."),
+  numberLocale: z
+    .string()
+    .optional()
+    .describe('Locale for ambiguous amounts in claims, e.g. "de-DE" reads 1.200 as 1200. Defaults to en-US.'),
+  dedupePolicy: DedupePolicyInputSchema.optional().describe(
+    "Dedupe thresholds, enabled rules, provider preference and quality weights; omitted fields keep the defaults."
+  ),
+} as const;
+
+const DiscoverInputShape = {
+  ...CommonInputShape,
+  accountScope: z
+    .enum(["all", "any"])
+    .optional()
+    .describe('"all" (default) lists accounts found in every provider; "any" also lists single-provider accounts.'),
 } as const;
 
 const AccountSelectionInputBaseSchema = z.object({
@@ -112,8 +205,8 @@ server.registerTool(
   {
     title: "Discover Shared Accounts",
     description:
-      "Fetch account/company names from Gong and Grain, dedupe and match shared accounts.",
-    inputSchema: CommonInputShape,
+      "Fetch account/company names from the configured call providers, dedupe and match shared accounts.",
+    inputSchema: DiscoverInputShape,
   },
   async (args) => {
     try {
@@ -135,6 +228,27 @@ server.registerTool(
   }
 );
 
+server.registerTool(
+  "invalidate_discovery_cache",
+  {
+    title: "Invalidate Discovery Cache",
+    description:
+      "Forget cached shared-account lists so the next discovery re-reads the call providers.",
+  },
+  async () => {
+    const result = invalidateDiscoveryCache();
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Cleared ${result.cleared} cached account list(s).`,
+        },
+      ],
+      structuredContent: result,
+    };
+  }
+);
+
 server.registerTool(
   "prepare_account_corpus",
   {
@@ -226,6 +340,15 @@ function withEnvDefaults(input: Record<string, unknown>) {
     ...input,
     openaiApiKey: pickString(input.openaiApiKey, process.env.OPENAI_API_KEY),
     openaiModel: pickString(input.openaiModel, process.env.OPENAI_MODEL),
+    llmProvider: pickString(input.llmProvider, process.env.LLM_PROVIDER),
+    llmModel: pickString(input.llmModel, process.env.LLM_MODEL),
+    llmApiKey: pickString(input.llmApiKey, process.env.LLM_API_KEY),
+    llmBaseUrl: pickString(input.llmBaseUrl, process.env.LLM_BASE_URL),
+    llmApiVersion: pickString(input.llmApiVersion, process.env.LLM_API_VERSION),
+    llmConcurrency: pickNumber(input.llmConcurrency),
+    llmTokensPerMinute: pickNumber(input.llmTokensPerMinute),
+    maxLlmTokens: pickNumber(input.maxLlmTokens),
+    maxLlmCostUsd: pickNumber(input.maxLlmCostUsd),
     gongBaseUrl: pickString(input.gongBaseUrl, process.env.GONG_BASE_URL, "https://api.gong.io"),
     gongAccessToken: pickString(input.gongAccessToken, process.env.GONG_ACCESS_TOKEN),
     gongAccessKey: pickString(input.gongAccessKey, process.env.GONG_ACCESS_KEY),
@@ -236,10 +359,35 @@ function withEnvDefaults(input: Record<string, unknown>) {
       "https://grain.com/_/public-api"
     ),
     grainApiToken: pickString(input.grainApiToken, process.env.GRAIN_API_TOKEN),
+    zoomBaseUrl: pickString(input.zoomBaseUrl, process.env.ZOOM_BASE_URL, "https://api.zoom.us/v2"),
+    zoomOauthUrl: pickString(
+      input.zoomOauthUrl,
+      process.env.ZOOM_OAUTH_URL,
+      "https://zoom.us/oauth/token"
+    ),
+    zoomAccountId: pickString(input.zoomAccountId, process.env.ZOOM_ACCOUNT_ID),
+    zoomClientId: pickString(input.zoomClientId, process.env.ZOOM_CLIENT_ID),
+    zoomClientSecret: pickString(input.zoomClientSecret, process.env.ZOOM_CLIENT_SECRET),
+    zoomAccessToken: pickString(input.zoomAccessToken, process.env.ZOOM_ACCESS_TOKEN),
+    zoomUserId: pickString(input.zoomUserId, process.env.ZOOM_USER_ID),
+    firefliesBaseUrl: pickString(
+      input.firefliesBaseUrl,
+      process.env.FIREFLIES_BASE_URL,
+      "https://api.fireflies.ai/graphql"
+    ),
+    firefliesApiKey: pickString(input.firefliesApiKey, process.env.FIREFLIES_API_KEY),
+    chorusBaseUrl: pickString(input.chorusBaseUrl, process.env.CHORUS_BASE_URL, "https://chorus.ai"),
+    chorusApiToken: pickString(input.chorusApiToken, process.env.CHORUS_API_TOKEN),
     internalEmailDomains: pickString(input.internalEmailDomains, process.env.INTERNAL_EMAIL_DOMAINS),
     fromDate: pickString(input.fromDate),
     toDate: pickString(input.toDate),
     maxCalls: pickNumber(input.maxCalls),
+    refresh: input.refresh === true ? true : undefined,
+    fuseSegments: input.fuseSegments === true ? true : undefined,
+    dedupePolicy: input.dedupePolicy,
+    minQuoteSimilarity: pickNumber(input.minQuoteSimilarity),
+    windowTokens: pickNumber(input.windowTokens),
+    numberLocale: pickString(input.numberLocale),
   };
 }
 
@@ -272,16 +420,12 @@ async function resolveSelectedAccount(
   const discoverInput = DiscoverRequestSchema.parse(withEnvDefaults(discoverInputRaw));
   const discovered = await discoverSharedAccounts(discoverInput);
   if (discovered.accounts.length === 0) {
-    throw new Error("No shared accounts found across Gong and Grain.");
+    throw new Error("No shared accounts found across the configured call providers.");
   }
 
   const normalizedRequested = normalizeAccountName(accountDisplayName);
   const exact = discovered.accounts.find((account) => {
-    return (
-      normalizeAccountName(account.displayName) === normalizedRequested ||
-      normalizeAccountName(account.gongName) === normalizedRequested ||
-      normalizeAccountName(account.grainName) === normalizedRequested
-    );
+    return accountNames(account).some((name) => normalizeAccountName(name) === normalizedRequested);
   });
 
   if (exact) {
@@ -317,20 +461,25 @@ function toSelectedAccount(account: SharedAccountOption): z.infer<typeof Selecte
   return {
     id: account.id,
     displayName: account.displayName,
-    gongName: account.gongName,
-    grainName: account.grainName,
+    providerNames: Object.fromEntries(
+      Object.entries(account.providers).map(([provider, ref]) => [provider, ref.name])
+    ),
     confidence: account.confidence,
   };
 }
 
 function bestNameSimilarity(account: SharedAccountOption, normalizedRequested: string): number {
   return Math.max(
-    smartNameSimilarity(normalizeAccountName(account.displayName), normalizedRequested),
-    smartNameSimilarity(normalizeAccountName(account.gongName), normalizedRequested),
-    smartNameSimilarity(normalizeAccountName(account.grainName), normalizedRequested)
+    ...accountNames(account).map((name) =>
+      smartNameSimilarity(normalizeAccountName(name), normalizedRequested)
+    )
   );
 }
 
+function accountNames(account: SharedAccountOption): string[] {
+  return [account.displayName, ...Object.values(account.providers).map((ref) => ref.name)];
+}
+
 function smartNameSimilarity(aRaw: string, bRaw: string): number {
   const a = stripCompanySuffixes(aRaw);
   const b = stripCompanySuffixes(bRaw);
@@ -434,12 +583,18 @@ function renderStoryTypes(
 function renderAccountsResult(result: Awaited<ReturnType<typeof discoverSharedAccounts>>): string {
   const header = [
     `Shared accounts found: ${result.counts.sharedAccounts}`,
-    `Gong accounts discovered: ${result.counts.gongAccounts}`,
-    `Grain accounts discovered: ${result.counts.grainAccounts}`,
+    ...result.providers.map(
+      (source) =>
+        `${CALL_SOURCE_LABELS[source]} accounts discovered: ${result.counts.providerAccounts[source] ?? 0}`
+    ),
+    `Account list generated at: ${result.generatedAt}${result.fromCache ? " (cached)" : ""}`,
   ];
 
   const rows = result.accounts.slice(0, 50).map((account) => {
-    return `- ${account.displayName} | gong=${account.gongCallCount}, grain=${account.grainCallCount}, match=${account.matchReason}, confidence=${account.confidence.toFixed(2)}`;
+    const counts = Object.entries(account.providers)
+      .map(([provider, ref]) => `${provider}=${ref.callCount}`)
+      .join(", ");
+    return `- ${account.displayName} | ${counts}, match=${account.matchReason}, confidence=${account.confidence.toFixed(2)}`;
   });
 
   return [...header, ...rows].join("\n");
@@ -457,10 +612,15 @@ function renderBuildResult(result: Awaited<ReturnType<typeof buildStory>>): stri
     `Merged markdown file: ${result.markdownDownloadsPath}`,
     `Story markdown file: ${result.storyDownloadsPath}`,
     `Quotes CSV file: ${result.quotesCsvDownloadsPath}`,
-    "",
-    "Generated story markdown:",
-    result.storyMarkdown,
   ];
+  if (result.skipped.length > 0) {
+    lines.push(
+      "",
+      "Skipped (LLM budget):",
+      ...result.skipped.map((item) => `- [${item.stage}] ${item.id} "${item.title}": ${item.reason}`)
+    );
+  }
+  lines.push("", "Generated story markdown:", result.storyMarkdown);
 
   return lines.join("\n");
 }
@@ -1,64 +1,121 @@
-import OpenAI from "openai";
+import { LlmBudgetExceededError } from "../llm/scheduler.js";
+import type { LlmClient } from "../llm/types.js";
 import type {
   CaseStudyArtifact,
   CanonicalCall,
+  ClaimConflict,
+  ClaimConflictSource,
+  EvidenceCitation,
+  NormalizedClaimValue,
   QuantClaim,
   QuoteEvidence,
+  SkippedWork,
+  SpeakerAffiliation,
 } from "../types/domain.js";
 import type { UseCaseDefinition } from "../prompts/useCases.js";
 
+/** Output cap per story; the LLM budget reserves it while the request is in flight. */
+const MAX_STORY_TOKENS = 4096;
+
 const CASE_STUDY_SYSTEM_PROMPT = `You write evidence-backed B2B case studies from transcripts.
 Rules:
 - Use only evidence present in supplied transcript corpus, extracted quotes, and quantitative claims.
 - Include verbatim quotes as blockquotes with attribution.
 - Include a numeric evidence table in every output.
+- Where calls disagree on a figure, use the consolidated value and give the others as earlier or alternative figures with their sources.
 - Mark every unsupported inference as \"Inference\".
 - If evidence is weak, explicitly list data gaps.
 - Output Markdown only.`;
 
+/** A prompt line for one quote or claim, kept with its speaker's affiliation for per-story filtering. */
+interface EvidenceLine {
+  speakerAffiliation: SpeakerAffiliation;
+  text: string;
+}
+
+interface StoryContext {
+  callSummary: string;
+  quoteLines: EvidenceLine[];
+  claimLines: EvidenceLine[];
+  conflictContext: string;
+  mergedMarkdown: string;
+}
+
 export class CaseStudyGenerator {
-  constructor(private readonly openai: OpenAI, private readonly model: string) {}
+  constructor(private readonly llm: LlmClient) {}
 
   async generateAll(
     useCases: UseCaseDefinition[],
     calls: CanonicalCall[],
     mergedMarkdown: string,
     quotes: QuoteEvidence[],
-    claims: QuantClaim[]
-  ): Promise<CaseStudyArtifact[]> {
-    const artifacts: CaseStudyArtifact[] = [];
-
-    const quoteContext = quotes
-      .map(
-        (q) =>
-          `- [${q.sourceCallId}] date=${q.sourceCallDate} title=${q.sourceCallTitle} speaker=${q.speaker ?? "unknown"} t=${formatTimestamp(q.sourceTimestampMs)} confidence=${q.confidence.toFixed(2)} :: \"${q.quote}\"`
-      )
-      .join("\n");
-
-    const claimContext = claims
-      .map(
-        (c) =>
-          `- [${c.sourceCallId}] date=${c.sourceCallDate} title=${c.sourceCallTitle} t=${formatTimestamp(c.sourceTimestampMs)} type=${c.claimType} value=${c.value}${c.unit ? ` ${c.unit}` : ""} confidence=${c.confidence.toFixed(2)} :: ${c.claim} :: evidence=\"${c.evidenceQuote}\"`
-      )
+    claims: QuantClaim[],
+    conflicts: ClaimConflict[] = []
+  ): Promise<{ artifacts: CaseStudyArtifact[]; skipped: SkippedWork[] }> {
+    const quoteLines = quotes.map(
+      (q): EvidenceLine => ({
+        speakerAffiliation: q.speakerAffiliation,
+        text: `- [${q.sourceCallId}] date=${q.sourceCallDate} title=${q.sourceCallTitle} speaker=${q.speaker ?? "unknown"} from=${q.speakerAffiliation} t=${formatTimestamp(q.sourceTimestampMs)} ${formatCitation(q.citation)} confidence=${q.confidence.toFixed(2)} :: \"${q.quote}\"`,
+      })
+    );
+
+    const claimLines = claims.map(
+      (c): EvidenceLine => ({
+        speakerAffiliation: c.speakerAffiliation,
+        text: `- [${c.sourceCallId}] date=${c.sourceCallDate} title=${c.sourceCallTitle} from=${c.speakerAffiliation} t=${formatTimestamp(c.sourceTimestampMs)} ${formatCitation(c.citation)} type=${c.claimType} value=${c.value}${c.unit ? ` ${c.unit}` : ""} ${formatNormalized(c.normalized)}confidence=${c.confidence.toFixed(2)} :: ${c.claim} :: evidence=\"${c.evidenceQuote}\"`,
+      })
+    );
+
+    const conflictContext = conflicts
+      .map((conflict) => {
+        const others = conflict.sources.filter((source) => !sameSource(source, conflict.consolidated));
+        return `- metric=${conflict.subject} type=${conflict.claimType} use=${formatSource(conflict.consolidated)} basis=${conflict.consolidated.basis} :: also stated: ${others.map(formatSource).join("; ")}`;
+      })
       .join("\n");
 
     const callSummary = calls
       .map((call) => `- ${call.occurredAt}: ${call.title} (${call.providerCallId})`)
       .join("\n");
+    const context: StoryContext = { callSummary, quoteLines, claimLines, conflictContext, mergedMarkdown };
+
+    // Stories are independent; the client bounds how many are written at once (see LlmScheduler).
+    const results = await Promise.all(
+      useCases.map(async (useCase) => {
+        try {
+          return { artifact: await this.generate(useCase, context) };
+        } catch (error) {
+          if (!(error instanceof LlmBudgetExceededError)) throw error;
+          const skipped: SkippedWork = { stage: "stories", id: useCase.id, title: useCase.name, reason: error.message };
+          return { skipped };
+        }
+      })
+    );
+
+    return {
+      artifacts: results.flatMap((result) => (result.artifact ? [result.artifact] : [])),
+      skipped: results.flatMap((result) => (result.skipped ? [result.skipped] : [])),
+    };
+  }
 
-    for (const useCase of useCases) {
-      const requiredStructure = useCase.spec.requiredSections
-        .map((section) => `## ${section}`)
-        .join("\n");
-
-      const response = await this.openai.chat.completions.create({
-        model: this.model,
-        temperature: 0.2,
-        messages: [
-          { role: "system", content: CASE_STUDY_SYSTEM_PROMPT },
-          {
-            role: "user",
-            content: `Generate a case study variant for:
+  private async generate(useCase: UseCaseDefinition, context: StoryContext): Promise<CaseStudyArtifact> {
+    const { callSummary, conflictContext, mergedMarkdown } = context;
+    const usable = (line: EvidenceLine) =>
+      useCase.spec.evidenceSpeakers === "all" || line.speakerAffiliation !== "internal";
+    const quoteContext = context.quoteLines.filter(usable).map((line) => line.text).join("\n");
+    const claimContext = context.claimLines.filter(usable).map((line) => line.text).join("\n");
+    const requiredStructure = useCase.spec.requiredSections
+      .map((section) => `## ${section}`)
+      .join("\n");
+
+    const response = await this.llm.chat({
+      task: "write-story",
+      temperature: 0.2,
+      maxTokens: MAX_STORY_TOKENS,
+      messages: [
+        { role: "system", content: CASE_STUDY_SYSTEM_PROMPT },
+        {
+          role: "user",
+          content: `Generate a case study variant for:
 - Use Case ID: ${useCase.id}
 - Use Case Name: ${useCase.name}
 - Funnel/Type: ${useCase.stage}
@@ -93,23 +150,70 @@ ${quoteContext || "No extracted quotes"}
 Extracted quantitative claims with attribution:
 ${claimContext || "No extracted claims"}
 
+Conflicting claims across calls:
+${conflictContext || "No conflicting claims"}
+
 Merged transcript corpus:
 ${mergedMarkdown}`,
-          },
-        ],
-      });
-
-      artifacts.push({
-        useCaseId: useCase.id,
-        useCaseName: useCase.name,
-        markdown: response.choices[0]?.message?.content ?? `# ${useCase.name}\nNo output generated.`,
-      });
-    }
-
-    return artifacts;
+        },
+      ],
+    });
+
+    return {
+      useCaseId: useCase.id,
+      useCaseName: useCase.name,
+      markdown: response.content || `# ${useCase.name}\nNo output generated.`,
+    };
   }
 }
 
+/** `38% [g-2 2026-03-01 speaker=Dana Scott]` */
+function formatSource(source: ClaimConflictSource): string {
+  const value = `${source.value}${source.unit ? ` ${source.unit}` : ""}`;
+  return `${value} [${source.sourceCallId} ${source.sourceCallDate.slice(0, 10)} speaker=${source.speaker ?? "unknown"}]`;
+}
+
+function sameSource(a: ClaimConflictSource, b: ClaimConflictSource): boolean {
+  return a.sourceCallId === b.sourceCallId && a.citation.charStart === b.citation.charStart;
+}
+
+/** Segment indices, transcript characters, time range and text source: `cite=[seg 4-5, chars 812-870, 3:10-3:24, gong]`. */
+function formatCitation(citation: EvidenceCitation): string {
+  const segments = citation.segmentIndices;
+  const parts = [
+    segments.length === 0
+      ? "seg unknown"
+      : `seg ${segments[0]}${segments.length > 1 ? `-${segments[segments.length - 1]}` : ""}`,
+    `chars ${citation.charStart}-${citation.charEnd}`,
+    `${formatTimestamp(citation.startMs)}-${formatTimestamp(citation.endMs)}`,
+    [...new Set(citation.segmentSources.map((source) => source.provider))].join("+") || citation.provider,
+  ];
+  return `cite=[${parts.join(", ")}]`;
+}
+
+/** The parsed amount, before/after pair and direction: `normalized=[4 days, 12 -> 4 (-8, -66.7%), decrease] `. */
+function formatNormalized(normalized: NormalizedClaimValue): string {
+  if (normalized.value == null) return "";
+  const amount = (value: number) =>
+    normalized.unitFamily === "currency"
+      ? `${normalized.currency} ${value}`
+      : normalized.unit === "%" || normalized.unit === "x"
+        ? `${value}${normalized.unit}`
+        : `${value}${normalized.unit ? ` ${normalized.unit}` : ""}`;
+
+  const parts = [`${amount(normalized.value)}${normalized.period ? ` per ${normalized.period}` : ""}`];
+  if (normalized.baseline != null && normalized.after != null) {
+    const percent = normalized.deltaPercent != null ? `, ${signed(normalized.deltaPercent)}%` : "";
+    parts.push(`${normalized.baseline} -> ${normalized.after} (${signed(normalized.delta ?? 0)}${percent})`);
+  }
+  if (normalized.direction) parts.push(normalized.direction);
+  return `normalized=[${parts.join(", ")}] `;
+}
+
+function signed(value: number): string {
+  return value > 0 ? `+${value}` : String(value);
+}
+
 function formatTimestamp(ms: number | null): string {
   if (ms == null) return "unknown";
   const totalSeconds = Math.max(0, Math.floor(ms / 1000));
@@ -0,0 +1,50 @@
+import type { CanonicalCall, EvidenceCitation, SegmentSource } from "../types/domain.js";
+
+export interface SegmentRange {
+  index: number;
+  start: number;
+  end: number;
+}
+
+/**
+ * Builds citations for character ranges of one call's transcript. Each segment's text is located
+ * in `transcriptText` in order, so a range can be traced to the segments it overlaps; segments
+ * whose text does not appear in the transcript cannot be cited.
+ */
+export function createCitationLocator(call: CanonicalCall): (start: number, end: number) => EvidenceCitation {
+  const ranges = locateSegments(call);
+  const own: SegmentSource = { provider: call.provider, providerCallId: call.providerCallId };
+
+  return (start, end) => {
+    const cited = ranges.filter((range) => range.start < end && range.end > start);
+    const segments = cited.map((range) => call.segments[range.index]);
+
+    return {
+      provider: call.provider,
+      providerCallId: call.providerCallId,
+      charStart: start,
+      charEnd: end,
+      segmentIndices: cited.map((range) => range.index),
+      segmentSources: segments.map((segment) => segment.provenance?.text ?? own),
+      startMs: segments.find((segment) => segment.startMs != null)?.startMs ?? null,
+      endMs: [...segments].reverse().find((segment) => segment.endMs != null)?.endMs ?? null,
+    };
+  };
+}
+
+/** Character ranges of the call's segments in `transcriptText`, for segments that could be found there. */
+export function locateSegments(call: CanonicalCall): SegmentRange[] {
+  const ranges: SegmentRange[] = [];
+  let cursor = 0;
+
+  call.segments.forEach((segment, index) => {
+    const text = segment.text.trim();
+    if (!text) return;
+    const start = call.transcriptText.indexOf(text, cursor);
+    if (start < 0) return;
+    ranges.push({ index, start, end: start + text.length });
+    cursor = start + text.length;
+  });
+
+  return ranges;
+}
@@ -0,0 +1,202 @@
+import type {
+  CanonicalCall,
+  ClaimConflict,
+  ClaimConflictSource,
+  QuantClaim,
+  SpeakerAffiliation,
+} from "../types/domain.js";
+import { DURATION_SECONDS, findQuantities } from "./quantities.js";
+
+/**
+ * Finds metrics that different calls state differently ("billing errors fell 35%" in discovery,
+ * "38%" in the QBR) and picks the figure a story should lead with.
+ */
+
+/** Share of the smaller claim's subject words the other claim must also use. */
+const SUBJECT_OVERLAP = 0.6;
+/** Values within 1% of each other are the same figure, rounded differently. */
+const VALUE_TOLERANCE = 0.01;
+
+const AUTHORITY_RANK: Record<SpeakerAffiliation, number> = { external: 2, unknown: 1, internal: 0 };
+
+const PERIODS_PER_YEAR: Record<string, number> = { day: 365, week: 52, month: 12, quarter: 4, year: 1 };
+
+const STOP_WORDS = new Set(
+  `a about after all also an and annually are as at be been before by daily did do down each every for from
+  had has have in into is it its just last less like monthly more now of on or our over per quarterly since so
+  than that the their them then there these they this those to under up us was we were weekly what when which
+  with within yearly you your around roughly nearly almost approximately`.split(/\s+/)
+);
+const CHANGE_WORDS =
+  /^(?:cut|reduc\w*|drop\w*|fell|fall\w*|decreas\w*|lower\w*|fewer|shrank|shrunk|declin\w*|eliminat\w*|increas\w*|grew|grow\w*|rose|rise|rising|boost\w*|improv\w*|higher|gain\w*|doubl\w*|tripl\w*|went|go|going|saw|seen|got|sav\w*)$/;
+const SPEAKER_LABEL = /^[^:\n]{1,60}:\s+/;
+
+interface PlacedClaim {
+  claim: QuantClaim;
+  subject: Set<string>;
+  comparable: number;
+  speaker: string | null;
+}
+
+/**
+ * Groups claims about the same metric (same claim type, comparable units and mostly the same
+ * subject words) and returns the groups whose calls disagree on the value or the direction of
+ * change. Claims from one call never conflict with each other: a call stating both the before
+ * and after figure is not a contradiction.
+ *
+ * The consolidated value is the one stated by the most authoritative speaker, then the most
+ * recent call: the customer's own people outrank unclassified speakers, who outrank the vendor's
+ * team.
+ */
+export function findClaimConflicts(claims: QuantClaim[], calls: CanonicalCall[]): ClaimConflict[] {
+  const callsById = new Map(calls.map((call) => [call.providerCallId, call]));
+  const placed = claims.flatMap((claim): PlacedClaim[] => {
+    const comparable = comparableValue(claim);
+    if (comparable == null) return [];
+    const call = callsById.get(claim.sourceCallId);
+    return [{ claim, subject: subjectWords(claim.claim), comparable, speaker: call ? speakerOf(claim, call) : null }];
+  });
+
+  const groups: PlacedClaim[][] = [];
+  for (const item of placed) {
+    const group = groups.find((candidate) => candidate.some((other) => sameMetric(item, other)));
+    if (group) group.push(item);
+    else groups.push([item]);
+  }
+
+  return groups.filter(isConflict).map(toConflict);
+}
+
+function sameMetric(a: PlacedClaim, b: PlacedClaim): boolean {
+  const [x, y] = [a.claim.normalized, b.claim.normalized];
+  if (a.claim.claimType !== b.claim.claimType || x.unitFamily !== y.unitFamily) return false;
+  if (x.unitFamily === "currency" && x.currency !== y.currency) return false;
+  if (x.unitFamily === "count" && x.unit !== y.unit) return false;
+  // "$420,000 a year" and "$35,000 a month" compare; either of them and a one-off amount do not.
+  if ((x.period == null) !== (y.period == null)) return false;
+
+  const smaller = Math.min(a.subject.size, b.subject.size);
+  if (smaller === 0) return false;
+  const shared = [...a.subject].filter((word) => b.subject.has(word)).length;
+  return shared / smaller >= SUBJECT_OVERLAP;
+}
+
+function isConflict(group: PlacedClaim[]): boolean {
+  if (new Set(group.map((item) => item.claim.sourceCallId)).size < 2) return false;
+  return group.some((a) =>
+    group.some(
+      (b) =>
+        a.claim.sourceCallId !== b.claim.sourceCallId &&
+        (!sameValue(a.comparable, b.comparable) ||
+          (a.claim.normalized.direction != null &&
+            b.claim.normalized.direction != null &&
+            a.claim.normalized.direction !== b.claim.normalized.direction))
+    )
+  );
+}
+
+function toConflict(group: PlacedClaim[]): ClaimConflict {
+  const ranked = [...group].sort(
+    (a, b) =>
+      AUTHORITY_RANK[b.claim.speakerAffiliation] - AUTHORITY_RANK[a.claim.speakerAffiliation] ||
+      Date.parse(b.claim.sourceCallDate) - Date.parse(a.claim.sourceCallDate) ||
+      b.claim.confidence - a.claim.confidence
+  );
+  const best = ranked[0];
+  const corroborating = new Set(
+    group
+      .filter(
+        (item) => item.claim.sourceCallId !== best.claim.sourceCallId && sameValue(item.comparable, best.comparable)
+      )
+      .map((item) => item.claim.sourceCallId)
+  ).size;
+
+  const sources = [...group].sort(
+    (a, b) => Date.parse(a.claim.sourceCallDate) - Date.parse(b.claim.sourceCallDate)
+  );
+  return {
+    subject: sharedSubject(group),
+    claimType: best.claim.claimType,
+    unitFamily: best.claim.normalized.unitFamily,
+    consolidated: { ...toSource(best), basis: basisFor(best, ranked, corroborating) },
+    sources: sources.map(toSource),
+  };
+}
+
+function toSource(item: PlacedClaim): ClaimConflictSource {
+  const { claim } = item;
+  return {
+    sourceCallId: claim.sourceCallId,
+    sourceCallTitle: claim.sourceCallTitle,
+    sourceCallDate: claim.sourceCallDate,
+    speaker: item.speaker,
+    speakerAffiliation: claim.speakerAffiliation,
+    claim: claim.claim,
+    value: claim.value,
+    unit: claim.unit,
+    normalized: claim.normalized,
+    evidenceQuote: claim.evidenceQuote,
+    citation: claim.citation,
+  };
+}
+
+function basisFor(best: PlacedClaim, ranked: PlacedClaim[], corroborating: number): string {
+  const outranks = ranked
+    .filter((item) => !sameValue(item.comparable, best.comparable))
+    .every((item) => AUTHORITY_RANK[item.claim.speakerAffiliation] < AUTHORITY_RANK[best.claim.speakerAffiliation]);
+  const who = {
+    external: "a customer speaker",
+    internal: "an internal speaker",
+    unknown: "an unclassified speaker",
+  }[best.claim.speakerAffiliation];
+  const parts = [
+    outranks
+      ? `stated by ${who}, who outranks the sources that disagree`
+      : `most recent statement (${best.claim.sourceCallDate.slice(0, 10)}) by ${who}`,
+  ];
+  if (corroborating > 0) parts.push(`repeated on ${corroborating} other call${corroborating === 1 ? "" : "s"}`);
+  return parts.join("; ");
+}
+
+/** The claim's amount in one scale per unit family: durations in seconds, periodic amounts per year. */
+function comparableValue(claim: QuantClaim): number | null {
+  const { value, unitFamily, unit, period } = claim.normalized;
+  if (value == null) return null;
+  const scale = unitFamily === "duration" && unit ? (DURATION_SECONDS[unit] ?? 1) : 1;
+  return value * scale * (period ? PERIODS_PER_YEAR[period] : 1);
+}
+
+function sameValue(a: number, b: number): boolean {
+  return Math.abs(a - b) <= VALUE_TOLERANCE * Math.max(Math.abs(a), Math.abs(b));
+}
+
+/**
+ * Content words of the claim with its amounts, change verbs, filler and any transcript speaker
+ * label ("Dana Scott: ...") removed, crudely singularized.
+ */
+function subjectWords(claim: string): Set<string> {
+  const text = claim.replace(SPEAKER_LABEL, "");
+  let rest = text;
+  for (const quantity of findQuantities(text).reverse()) {
+    rest = `${rest.slice(0, quantity.start)} ${rest.slice(quantity.end)}`;
+  }
+  const words = rest
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word) && !CHANGE_WORDS.test(word) && !/^\d/.test(word))
+    .map((word) => (word.length > 3 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word));
+  return new Set(words);
+}
+
+/** The subject words most of the group uses, in the order the first claim uses them. */
+function sharedSubject(group: PlacedClaim[]): string {
+  const first = [...group[0].subject];
+  const common = first.filter((word) => group.filter((item) => item.subject.has(word)).length * 2 > group.length);
+  return (common.length > 0 ? common : first).join(" ");
+}
+
+/** The speaker of the first transcript segment the claim's evidence cites. */
+function speakerOf(claim: QuantClaim, call: CanonicalCall): string | null {
+  const index = claim.citation.segmentIndices[0];
+  return index == null ? null : (call.segments[index]?.speaker ?? null);
+}
@@ -1,93 +1,306 @@
 import { createHash } from "node:crypto";
-import type { CanonicalCall, DuplicateResolution } from "../types/domain.js";
+import type { CanonicalCall, DedupeCallRef, DedupeDecision, DuplicateResolution } from "../types/domain.js";
+import { resolveDedupePolicy } from "./dedupePolicy.js";
+import type { DedupePolicy, DedupePolicyInput, DedupeRule, QualityWeights } from "./dedupePolicy.js";
+import { fuseCalls } from "./fusion.js";
+import { LshIndex, minhashSignature } from "./minhash.js";
 
 interface DuplicateMatch {
   reason: string;
   score: number;
 }
 
+export interface DedupeOptions {
+  /**
+   * Fuse recordings of one meeting from different providers segment by segment (see `fuseCalls`)
+   * instead of keeping only the preferred call's transcript.
+   */
+  fuseSegments?: boolean;
+  /** Thresholds, rules and preferences; omitted fields keep `DEFAULT_DEDUPE_POLICY`. */
+  policy?: DedupePolicyInput;
+  overrides?: DedupeOverrides;
+}
+
+/** Manual corrections; calls are referenced as `provider:providerCallId`. */
+export interface DedupeOverrides {
+  /** Calls that are never merged into or with another call. */
+  forceKeep?: string[];
+  /** Pairs merged even when no rule matches them; these win over `forceKeep`. */
+  forceMerge?: Array<[string, string]>;
+  /**
+   * Providers in order of preference for the kept call, before transcript quality is compared.
+   * Replaces the policy's `providerPreference` for this account.
+   */
+  preferProvider?: string[];
+}
+
 export interface DedupeResult {
   calls: CanonicalCall[];
   duplicates: DuplicateResolution[];
+  /** Every merge, near miss and override-blocked merge, for the review report. */
+  decisions: DedupeDecision[];
+  /** The policy the run applied, with defaults filled in. */
+  policy: DedupePolicy;
+}
+
+/** State shared by the dedupe passes of one run. */
+interface DedupeRun {
+  options: DedupeOptions;
+  policy: DedupePolicy;
+  rules: Set<DedupeRule>;
+  forceKeep: Set<string>;
+  preferProvider: string[];
+  duplicates: DuplicateResolution[];
+  decisions: DedupeDecision[];
+}
+
+/** Everything the duplicate rules look at, computed once per call instead of once per pair. */
+interface CallFingerprint {
+  key: string;
+  occurredAtMs: number;
+  durationSeconds: number;
+  recordingUrl: string | null;
+  transcriptHash: string;
+  titleTokens: Set<string>;
+  transcriptTokens: Set<string>;
+  signature: Uint32Array | null;
+}
+
+// Compared but unmatched pairs this close are listed as near misses in the review report.
+const NEAR_MISS_TITLE_SIMILARITY = 0.5;
+const NEAR_MISS_TRANSCRIPT_SIMILARITY = 0.6;
+const NEAR_MISS_ANY_TIME_TRANSCRIPT_SIMILARITY = 0.75;
+
+// Clip detection compares 8-word shingles, sampling one in four by hash so long calls stay cheap.
+const SHINGLE_WORDS = 8;
+const SHINGLE_SAMPLE_RATE = 4;
+const MIN_CLIP_SHINGLES = 4;
+const CLIP_CONTAINMENT = 0.8;
+// Matched shingles may spread over a little more of the longer call than the clip's own length.
+const CLIP_SPAN_SLACK = 1.5;
+
+// A restarted recording starts shortly after the previous one ends; meetings rarely run past 4h.
+const SPLIT_MAX_GAP_MINUTES = 10;
+const SPLIT_MAX_OVERLAP_MINUTES = 2;
+const SPLIT_MAX_SPAN_MS = 4 * 60 * 60000;
+
+/**
+ * Drops calls that describe the same meeting, keeping the richer transcript of each pair, then
+ * folds partial overlaps: clips contained in a longer recording are dropped and recordings that
+ * were stopped and restarted are stitched into one call. Overrides are applied last.
+ */
+export function dedupeCalls(calls: CanonicalCall[], options: DedupeOptions = {}): DedupeResult {
+  const policy = resolveDedupePolicy(options.policy);
+  const preferProvider = options.overrides?.preferProvider ?? [];
+  const run: DedupeRun = {
+    options,
+    policy,
+    rules: new Set(policy.rules),
+    forceKeep: new Set(options.overrides?.forceKeep ?? []),
+    preferProvider: preferProvider.length > 0 ? preferProvider : policy.providerPreference,
+    duplicates: [],
+    decisions: [],
+  };
+
+  const whole = removeWholeCallDuplicates(calls, run);
+  const partial = resolvePartialOverlaps(whole, run);
+  const merged = applyForcedMerges(partial, run);
+  return { calls: merged, duplicates: run.duplicates, decisions: run.decisions, policy };
+}
+
+export function dedupeCallRef(call: Pick<CanonicalCall, "provider" | "providerCallId">): string {
+  return `${call.provider}:${call.providerCallId}`;
 }
 
-export function dedupeCalls(calls: CanonicalCall[]): DedupeResult {
+/**
+ * Rather than checking every kept call, each call is compared only with kept calls that share its
+ * id, recording URL or transcript hash, start in a neighbouring block as long as the title window
+ * (title rule) or collide with it in the MinHash LSH index (transcript rule).
+ */
+function removeWholeCallDuplicates(calls: CanonicalCall[], run: DedupeRun): CanonicalCall[] {
   const sorted = [...calls].sort((a, b) => a.occurredAt.localeCompare(b.occurredAt));
   const kept: CanonicalCall[] = [];
-  const duplicates: DuplicateResolution[] = [];
+  const fingerprints: CallFingerprint[] = [];
+  const index = new KeptCallIndex(Math.max(1, run.policy.titleWindowMinutes * 60000));
 
   for (const call of sorted) {
+    const fingerprint = fingerprintCall(call);
     let bestMatchIndex = -1;
     let bestMatch: DuplicateMatch | null = null;
 
-    for (let index = 0; index < kept.length; index += 1) {
-      const candidate = kept[index];
-      const match = evaluateDuplicate(candidate, call);
-      if (!match) continue;
+    for (const candidateIndex of index.candidates(fingerprint)) {
+      const candidate = fingerprints[candidateIndex];
+      const match = evaluateDuplicate(candidate, fingerprint, run);
+      if (!match) {
+        const metrics = compareFingerprints(candidate, fingerprint);
+        if (isNearMiss(metrics, run.policy)) {
+          run.decisions.push(decision("near_miss", null, null, kept[candidateIndex], call, metrics));
+        }
+        continue;
+      }
+      if (
+        match.reason !== "same_provider_call_id" &&
+        (run.forceKeep.has(candidate.key) || run.forceKeep.has(fingerprint.key))
+      ) {
+        const metrics = compareFingerprints(candidate, fingerprint);
+        run.decisions.push(decision("kept_by_override", match.reason, match.score, kept[candidateIndex], call, metrics));
+        continue;
+      }
 
       if (!bestMatch || match.score > bestMatch.score) {
         bestMatch = match;
-        bestMatchIndex = index;
+        bestMatchIndex = candidateIndex;
       }
     }
 
     if (bestMatchIndex === -1 || !bestMatch) {
+      index.add(kept.length, fingerprint);
       kept.push(call);
+      fingerprints.push(fingerprint);
       continue;
     }
 
     const existing = kept[bestMatchIndex];
-    const preferred = choosePreferred(existing, call);
+    const preferred = choosePreferred(existing, call, run);
     const dropped = preferred === existing ? call : existing;
+    const metrics = compareFingerprints(fingerprints[bestMatchIndex], fingerprint);
+
+    const fused =
+      run.options.fuseSegments && preferred.provider !== dropped.provider ? fuseCalls(preferred, dropped) : preferred;
+    kept[bestMatchIndex] = mergeMetadata(fused, dropped);
+
+    if (fused !== existing) {
+      // The slot now holds another call or a fused transcript, so later calls must be matched
+      // against its fingerprint.
+      index.remove(bestMatchIndex, fingerprints[bestMatchIndex]);
+      fingerprints[bestMatchIndex] = fused === call ? fingerprint : fingerprintCall(fused);
+      index.add(bestMatchIndex, fingerprints[bestMatchIndex]);
+    }
+
+    recordMerge(run, preferred, dropped, bestMatch.reason, bestMatch.score, metrics);
+  }
+
+  return kept;
+}
+
+function fingerprintCall(call: CanonicalCall): CallFingerprint {
+  const url = asString(call.metadata?.recordingUrl);
+  const transcriptTokens = new Set(tokenize(call.transcriptText));
+
+  return {
+    key: `${call.provider}:${call.providerCallId}`,
+    occurredAtMs: new Date(call.occurredAt).getTime(),
+    durationSeconds: call.durationSeconds ?? 0,
+    recordingUrl: url ? normalizeUrl(url) : null,
+    transcriptHash: transcriptHash(call.transcriptText),
+    titleTokens: new Set(tokenize(call.title)),
+    transcriptTokens,
+    signature: minhashSignature(transcriptTokens),
+  };
+}
+
+/** Lookup tables over the kept calls, keyed by their position in the kept list. */
+class KeptCallIndex {
+  private readonly byKey = new Map<string, Set<number>>();
+  private readonly byUrl = new Map<string, Set<number>>();
+  private readonly byHash = new Map<string, Set<number>>();
+  private readonly byTitleBlock = new Map<number, Set<number>>();
+  private readonly lsh = new LshIndex<number>();
+
+  constructor(private readonly titleBlockMs: number) {}
+
+  add(slot: number, fingerprint: CallFingerprint): void {
+    addToBucket(this.byKey, fingerprint.key, slot);
+    if (fingerprint.recordingUrl) addToBucket(this.byUrl, fingerprint.recordingUrl, slot);
+    if (fingerprint.transcriptHash) addToBucket(this.byHash, fingerprint.transcriptHash, slot);
+    const block = this.titleBlock(fingerprint);
+    if (block !== null) addToBucket(this.byTitleBlock, block, slot);
+    if (fingerprint.signature) this.lsh.add(slot, fingerprint.signature);
+  }
+
+  remove(slot: number, fingerprint: CallFingerprint): void {
+    removeFromBucket(this.byKey, fingerprint.key, slot);
+    if (fingerprint.recordingUrl) removeFromBucket(this.byUrl, fingerprint.recordingUrl, slot);
+    if (fingerprint.transcriptHash) removeFromBucket(this.byHash, fingerprint.transcriptHash, slot);
+    const block = this.titleBlock(fingerprint);
+    if (block !== null) removeFromBucket(this.byTitleBlock, block, slot);
+    if (fingerprint.signature) this.lsh.remove(slot, fingerprint.signature);
+  }
+
+  /** Kept slots that could match under some rule, in kept order so score ties resolve as before. */
+  candidates(fingerprint: CallFingerprint): number[] {
+    const found = new Set<number>(this.byKey.get(fingerprint.key));
+    const collect = (slots: Iterable<number> | undefined) => {
+      for (const slot of slots ?? []) found.add(slot);
+    };
 
-    if (preferred !== existing) {
-      kept[bestMatchIndex] = mergeMetadata(preferred, existing);
-    } else {
-      kept[bestMatchIndex] = mergeMetadata(existing, call);
+    if (fingerprint.recordingUrl) collect(this.byUrl.get(fingerprint.recordingUrl));
+    if (fingerprint.transcriptHash) collect(this.byHash.get(fingerprint.transcriptHash));
+
+    const block = this.titleBlock(fingerprint);
+    if (block !== null) {
+      for (let offset = -1; offset <= 1; offset += 1) {
+        collect(this.byTitleBlock.get(block + offset));
+      }
     }
 
-    duplicates.push({
-      keptCallId: preferred.providerCallId,
-      keptProvider: preferred.provider,
-      droppedCallId: dropped.providerCallId,
-      droppedProvider: dropped.provider,
-      reason: bestMatch.reason,
-    });
+    if (fingerprint.signature) collect(this.lsh.candidates(fingerprint.signature));
+
+    return [...found].sort((a, b) => a - b);
+  }
+
+  private titleBlock(fingerprint: CallFingerprint): number | null {
+    return Number.isFinite(fingerprint.occurredAtMs) ? Math.floor(fingerprint.occurredAtMs / this.titleBlockMs) : null;
   }
+}
+
+function addToBucket<K>(table: Map<K, Set<number>>, key: K, slot: number): void {
+  const bucket = table.get(key);
+  if (bucket) bucket.add(slot);
+  else table.set(key, new Set([slot]));
+}
 
-  return { calls: kept, duplicates };
+function removeFromBucket<K>(table: Map<K, Set<number>>, key: K, slot: number): void {
+  const bucket = table.get(key);
+  if (!bucket) return;
+  bucket.delete(slot);
+  if (bucket.size === 0) table.delete(key);
 }
 
-function evaluateDuplicate(a: CanonicalCall, b: CanonicalCall): DuplicateMatch | null {
-  if (a.provider === b.provider && a.providerCallId === b.providerCallId) {
+function evaluateDuplicate(a: CallFingerprint, b: CallFingerprint, run: DedupeRun): DuplicateMatch | null {
+  const { policy, rules } = run;
+
+  if (a.key === b.key) {
     return { reason: "same_provider_call_id", score: 1 };
   }
 
-  const urlA = asString(a.metadata?.recordingUrl);
-  const urlB = asString(b.metadata?.recordingUrl);
-  if (urlA && urlB && normalizeUrl(urlA) === normalizeUrl(urlB)) {
+  if (rules.has("same_recording_url") && a.recordingUrl && b.recordingUrl && a.recordingUrl === b.recordingUrl) {
     return { reason: "same_recording_url", score: 0.99 };
   }
 
-  const hashA = transcriptHash(a.transcriptText);
-  const hashB = transcriptHash(b.transcriptText);
-  if (hashA === hashB && hashA.length > 0) {
+  if (rules.has("same_transcript_hash") && a.transcriptHash === b.transcriptHash && a.transcriptHash.length > 0) {
     return { reason: "same_transcript_hash", score: 0.97 };
   }
 
-  const timeDeltaMinutes = Math.abs(new Date(a.occurredAt).getTime() - new Date(b.occurredAt).getTime()) / 60000;
-  const durationDelta = Math.abs((a.durationSeconds ?? 0) - (b.durationSeconds ?? 0));
+  const timeDeltaMinutes = Math.abs(a.occurredAtMs - b.occurredAtMs) / 60000;
+  const durationDelta = Math.abs(a.durationSeconds - b.durationSeconds);
 
-  if (timeDeltaMinutes <= 7 && durationDelta <= 180) {
-    const titleSimilarity = overlapSimilarity(a.title, b.title);
-    if (titleSimilarity >= 0.72) {
+  if (
+    rules.has("matching_time_and_title") &&
+    timeDeltaMinutes <= policy.titleWindowMinutes &&
+    durationDelta <= policy.titleDurationDeltaSeconds
+  ) {
+    if (overlapSimilarity(a.titleTokens, b.titleTokens) >= policy.titleSimilarity) {
       return { reason: "matching_time_and_title", score: 0.94 };
     }
   }
 
-  if (timeDeltaMinutes <= 45 && durationDelta <= 420) {
-    const transcriptSimilarity = overlapSimilarity(a.transcriptText, b.transcriptText);
-    if (transcriptSimilarity >= 0.86) {
+  if (
+    rules.has("high_transcript_similarity") &&
+    timeDeltaMinutes <= policy.transcriptWindowMinutes &&
+    durationDelta <= policy.transcriptDurationDeltaSeconds
+  ) {
+    if (overlapSimilarity(a.transcriptTokens, b.transcriptTokens) >= policy.transcriptSimilarity) {
       return { reason: "high_transcript_similarity", score: 0.9 };
     }
   }
@@ -95,9 +308,319 @@ function evaluateDuplicate(a: CanonicalCall, b: CanonicalCall): DuplicateMatch |
   return null;
 }
 
-function choosePreferred(a: CanonicalCall, b: CanonicalCall): CanonicalCall {
-  const scoreA = qualityScore(a);
-  const scoreB = qualityScore(b);
+interface ShingleProfile {
+  wordCount: number;
+  /** Sampled shingle hash -> first word position. */
+  positions: Map<number, number>;
+}
+
+function resolvePartialOverlaps(calls: CanonicalCall[], run: DedupeRun): CanonicalCall[] {
+  const withoutClips = run.rules.has("contained_clip") ? dropContainedClips(calls, run) : calls;
+  return run.rules.has("stitched_split_recording") ? stitchSplitRecordings(withoutClips, run) : withoutClips;
+}
+
+/**
+ * Drops calls whose transcript is a contiguous stretch of a longer kept call, such as a highlight
+ * clip. Longer calls are indexed first, so each clip is checked only against calls that share one
+ * of its sampled shingles.
+ */
+function dropContainedClips(calls: CanonicalCall[], run: DedupeRun): CanonicalCall[] {
+  const profiles = calls.map((call) => shingleProfile(call.transcriptText));
+  const order = calls.map((_, index) => index).sort((a, b) => profiles[b].wordCount - profiles[a].wordCount || a - b);
+  const containers = new Map<number, Set<number>>();
+  const merged = new Map<number, CanonicalCall>();
+  const droppedSlots = new Set<number>();
+
+  for (const slot of order) {
+    const profile = profiles[slot];
+    const match = profile.positions.size >= MIN_CLIP_SHINGLES ? findContainer(profile, profiles, containers) : null;
+    const kept = match ? merged.get(match.slot) ?? calls[match.slot] : null;
+
+    if (match && kept && isForceKept(run, kept, calls[slot])) {
+      const metrics = compareCalls(kept, calls[slot]);
+      run.decisions.push(decision("kept_by_override", "contained_clip", match.containment, kept, calls[slot], metrics));
+    } else if (match && kept) {
+      droppedSlots.add(slot);
+      merged.set(match.slot, mergeMetadata(kept, calls[slot]));
+      recordMerge(run, kept, calls[slot], "contained_clip", match.containment, compareCalls(kept, calls[slot]));
+      continue;
+    }
+
+    for (const shingle of profile.positions.keys()) addToBucket(containers, shingle, slot);
+  }
+
+  return calls.flatMap((call, slot) => (droppedSlots.has(slot) ? [] : [merged.get(slot) ?? call]));
+}
+
+/** The longer call holding most of the clip's shingles, and the share of shingles it holds. */
+function findContainer(
+  clip: ShingleProfile,
+  profiles: ShingleProfile[],
+  containers: Map<number, Set<number>>
+): { slot: number; containment: number } | null {
+  const hits = new Map<number, number[]>();
+  for (const shingle of clip.positions.keys()) {
+    for (const slot of containers.get(shingle) ?? []) {
+      const positions = hits.get(slot);
+      const position = profiles[slot].positions.get(shingle)!;
+      if (positions) positions.push(position);
+      else hits.set(slot, [position]);
+    }
+  }
+
+  let best: { slot: number; matched: number } | null = null;
+  for (const [slot, positions] of hits) {
+    if (positions.length < clip.positions.size * CLIP_CONTAINMENT) continue;
+    const span = Math.max(...positions) - Math.min(...positions) + SHINGLE_WORDS;
+    if (span > clip.wordCount * CLIP_SPAN_SLACK) continue;
+    if (!best || positions.length > best.matched || (positions.length === best.matched && slot < best.slot)) {
+      best = { slot, matched: positions.length };
+    }
+  }
+  return best ? { slot: best.slot, containment: best.matched / clip.positions.size } : null;
+}
+
+function shingleProfile(text: string): ShingleProfile {
+  const words = normalizeText(text).split(" ").filter(Boolean);
+  const positions = new Map<number, number>();
+  for (let start = 0; start + SHINGLE_WORDS <= words.length; start += 1) {
+    const hash = shingleHash(words, start);
+    if (hash % SHINGLE_SAMPLE_RATE === 0 && !positions.has(hash)) positions.set(hash, start);
+  }
+  return { wordCount: words.length, positions };
+}
+
+function shingleHash(words: string[], start: number): number {
+  let hash = 0x811c9dc5;
+  for (let index = start; index < start + SHINGLE_WORDS; index += 1) {
+    const word = words[index];
+    for (let i = 0; i < word.length; i += 1) {
+      hash = Math.imul(hash ^ word.charCodeAt(i), 0x01000193);
+    }
+    hash = Math.imul(hash ^ 0x20, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Joins recordings of one meeting that was stopped and restarted: the later call starts within a
+ * few minutes of the earlier one ending and carries a matching title.
+ */
+function stitchSplitRecordings(calls: CanonicalCall[], run: DedupeRun): CanonicalCall[] {
+  const sorted = [...calls].sort((a, b) => a.occurredAt.localeCompare(b.occurredAt));
+  const result: CanonicalCall[] = [];
+
+  for (const call of sorted) {
+    const startMs = new Date(call.occurredAt).getTime();
+    let firstHalf = -1;
+
+    for (let index = result.length - 1; index >= 0; index -= 1) {
+      const previousStartMs = new Date(result[index].occurredAt).getTime();
+      if (startMs - previousStartMs > SPLIT_MAX_SPAN_MS) break;
+      if (!isContinuation(result[index], call, run.policy)) continue;
+      if (isForceKept(run, result[index], call)) {
+        const metrics = compareCalls(result[index], call);
+        run.decisions.push(decision("kept_by_override", "stitched_split_recording", null, result[index], call, metrics));
+        continue;
+      }
+      firstHalf = index;
+      break;
+    }
+
+    if (firstHalf === -1) {
+      result.push(call);
+      continue;
+    }
+
+    const previous = result[firstHalf];
+    result[firstHalf] = mergeMetadata(stitchCalls(previous, call), call);
+    recordMerge(run, previous, call, "stitched_split_recording", null, compareCalls(previous, call));
+  }
+
+  return result;
+}
+
+function isContinuation(first: CanonicalCall, second: CanonicalCall, policy: DedupePolicy): boolean {
+  if (first.durationSeconds == null) return false;
+
+  const firstEndMs = new Date(first.occurredAt).getTime() + first.durationSeconds * 1000;
+  const gapMinutes = (new Date(second.occurredAt).getTime() - firstEndMs) / 60000;
+  if (!(gapMinutes <= SPLIT_MAX_GAP_MINUTES && gapMinutes >= -SPLIT_MAX_OVERLAP_MINUTES)) return false;
+
+  return overlapSimilarity(new Set(tokenize(first.title)), new Set(tokenize(second.title))) >= policy.titleSimilarity;
+}
+
+function stitchCalls(first: CanonicalCall, second: CanonicalCall): CanonicalCall {
+  const offsetMs = new Date(second.occurredAt).getTime() - new Date(first.occurredAt).getTime();
+  const shift = (value: number | null) => (value == null ? null : value + offsetMs);
+  const endMs = offsetMs + (second.durationSeconds ?? 0) * 1000;
+
+  const participants = [...first.participants];
+  for (const participant of second.participants) {
+    const identity = (participant.email ?? participant.name ?? "").toLowerCase();
+    const known = participants.some((p) => (p.email ?? p.name ?? "").toLowerCase() === identity);
+    if (!known) participants.push(participant);
+  }
+
+  return {
+    ...first,
+    durationSeconds: Math.max(first.durationSeconds ?? 0, Math.round(endMs / 1000)),
+    participants,
+    transcriptText: `${first.transcriptText.trim()}\n\n${second.transcriptText.trim()}`,
+    segments: [
+      ...first.segments,
+      ...second.segments.map((segment) => ({
+        ...segment,
+        startMs: shift(segment.startMs),
+        endMs: shift(segment.endMs),
+      })),
+    ],
+  };
+}
+
+/**
+ * Merges the `forceMerge` pairs still apart after the automatic passes. A call already merged
+ * away is followed to the call that absorbed it.
+ */
+function applyForcedMerges(calls: CanonicalCall[], run: DedupeRun): CanonicalCall[] {
+  const pairs = run.options.overrides?.forceMerge ?? [];
+  if (pairs.length === 0) return calls;
+
+  const current: Array<CanonicalCall | null> = [...calls];
+  const slots = new Map(calls.map((call, slot) => [dedupeCallRef(call), slot]));
+  const absorbedBy = new Map(
+    run.duplicates.map((duplicate) => [
+      `${duplicate.droppedProvider}:${duplicate.droppedCallId}`,
+      `${duplicate.keptProvider}:${duplicate.keptCallId}`,
+    ])
+  );
+
+  const resolve = (ref: string): number | undefined => {
+    const seen = new Set<string>();
+    let target = ref;
+    while (!slots.has(target) && absorbedBy.has(target) && !seen.has(target)) {
+      seen.add(target);
+      target = absorbedBy.get(target)!;
+    }
+    return slots.get(target);
+  };
+
+  for (const [refA, refB] of pairs) {
+    const slotA = resolve(refA);
+    const slotB = resolve(refB);
+    if (slotA === undefined || slotB === undefined || slotA === slotB) continue;
+
+    const a = current[slotA]!;
+    const b = current[slotB]!;
+    const preferred = choosePreferred(a, b, run);
+    const dropped = preferred === a ? b : a;
+    const fused =
+      run.options.fuseSegments && preferred.provider !== dropped.provider ? fuseCalls(preferred, dropped) : preferred;
+
+    current[slotA] = mergeMetadata(fused, dropped);
+    current[slotB] = null;
+    slots.delete(dedupeCallRef(a));
+    slots.delete(dedupeCallRef(b));
+    slots.set(dedupeCallRef(preferred), slotA);
+    absorbedBy.set(dedupeCallRef(dropped), dedupeCallRef(preferred));
+    recordMerge(run, preferred, dropped, "manual_merge", null, compareCalls(preferred, dropped));
+  }
+
+  return current.filter((call): call is CanonicalCall => call !== null);
+}
+
+interface PairMetrics {
+  timeDeltaMinutes: number | null;
+  durationDeltaSeconds: number | null;
+  titleSimilarity: number;
+  transcriptSimilarity: number;
+}
+
+function compareFingerprints(a: CallFingerprint, b: CallFingerprint): PairMetrics {
+  const timeDeltaMinutes = Math.abs(a.occurredAtMs - b.occurredAtMs) / 60000;
+  return {
+    timeDeltaMinutes: Number.isFinite(timeDeltaMinutes) ? round(timeDeltaMinutes) : null,
+    durationDeltaSeconds:
+      a.durationSeconds > 0 && b.durationSeconds > 0 ? Math.abs(a.durationSeconds - b.durationSeconds) : null,
+    titleSimilarity: round(overlapSimilarity(a.titleTokens, b.titleTokens)),
+    transcriptSimilarity: round(overlapSimilarity(a.transcriptTokens, b.transcriptTokens)),
+  };
+}
+
+function compareCalls(a: CanonicalCall, b: CanonicalCall): PairMetrics {
+  return compareFingerprints(fingerprintCall(a), fingerprintCall(b));
+}
+
+function isNearMiss(metrics: PairMetrics, policy: DedupePolicy): boolean {
+  if (metrics.transcriptSimilarity >= NEAR_MISS_ANY_TIME_TRANSCRIPT_SIMILARITY) return true;
+  const windowMinutes = Math.max(policy.titleWindowMinutes, policy.transcriptWindowMinutes);
+  if (metrics.timeDeltaMinutes === null || metrics.timeDeltaMinutes > windowMinutes) return false;
+  return (
+    metrics.titleSimilarity >= NEAR_MISS_TITLE_SIMILARITY ||
+    metrics.transcriptSimilarity >= NEAR_MISS_TRANSCRIPT_SIMILARITY
+  );
+}
+
+function isForceKept(run: DedupeRun, a: CanonicalCall, b: CanonicalCall): boolean {
+  return run.forceKeep.has(dedupeCallRef(a)) || run.forceKeep.has(dedupeCallRef(b));
+}
+
+function recordMerge(
+  run: DedupeRun,
+  kept: CanonicalCall,
+  dropped: CanonicalCall,
+  reason: string,
+  score: number | null,
+  metrics: PairMetrics
+): void {
+  run.duplicates.push({
+    keptCallId: kept.providerCallId,
+    keptProvider: kept.provider,
+    droppedCallId: dropped.providerCallId,
+    droppedProvider: dropped.provider,
+    reason,
+  });
+  run.decisions.push(decision("merged", reason, score, kept, dropped, metrics));
+}
+
+function decision(
+  outcome: DedupeDecision["outcome"],
+  reason: string | null,
+  score: number | null,
+  kept: CanonicalCall,
+  other: CanonicalCall,
+  metrics: PairMetrics
+): DedupeDecision {
+  return {
+    outcome,
+    reason,
+    score: score === null ? null : round(score),
+    kept: callRef(kept),
+    other: callRef(other),
+    ...metrics,
+  };
+}
+
+function callRef(call: CanonicalCall): DedupeCallRef {
+  return {
+    provider: call.provider,
+    providerCallId: call.providerCallId,
+    title: call.title,
+    occurredAt: call.occurredAt,
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function choosePreferred(a: CanonicalCall, b: CanonicalCall, run: DedupeRun): CanonicalCall {
+  const rankA = providerRank(a, run.preferProvider);
+  const rankB = providerRank(b, run.preferProvider);
+  if (rankA !== rankB) return rankA < rankB ? a : b;
+
+  const scoreA = qualityScore(a, run.policy.qualityWeights);
+  const scoreB = qualityScore(b, run.policy.qualityWeights);
 
   if (scoreB > scoreA) return b;
   if (scoreA > scoreB) return a;
@@ -108,13 +631,23 @@ function choosePreferred(a: CanonicalCall, b: CanonicalCall): CanonicalCall {
   return aKey <= bKey ? a : b;
 }
 
-function qualityScore(call: CanonicalCall): number {
+function providerRank(call: CanonicalCall, preferProvider: string[]): number {
+  const rank = preferProvider.indexOf(call.provider);
+  return rank === -1 ? preferProvider.length : rank;
+}
+
+function qualityScore(call: CanonicalCall, weights: QualityWeights): number {
   const segmentCount = call.segments.length;
   const speakerCount = call.segments.filter((segment) => !!segment.speaker).length;
   const tsCount = call.segments.filter((segment) => segment.startMs != null).length;
   const transcriptLen = call.transcriptText.length;
 
-  return segmentCount * 0.6 + speakerCount * 1.2 + tsCount * 1.2 + Math.min(50, transcriptLen / 400);
+  return (
+    segmentCount * weights.segments +
+    speakerCount * weights.speakers +
+    tsCount * weights.timestamps +
+    Math.min(weights.transcriptLengthCap, (transcriptLen / 400) * weights.transcriptLength)
+  );
 }
 
 function mergeMetadata(kept: CanonicalCall, dropped: CanonicalCall): CanonicalCall {
@@ -157,10 +690,7 @@ function transcriptHash(text: string): string {
   return createHash("sha1").update(normalized).digest("hex");
 }
 
-function overlapSimilarity(a: string, b: string): number {
-  const tokensA = new Set(tokenize(a));
-  const tokensB = new Set(tokenize(b));
-
+function overlapSimilarity(tokensA: Set<string>, tokensB: Set<string>): number {
   if (tokensA.size === 0 || tokensB.size === 0) {
     return 0;
   }
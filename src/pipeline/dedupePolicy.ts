@@ -0,0 +1,113 @@
+import { readFile } from "node:fs/promises";
+import { z } from "zod";
+
+/** Rules that can be switched off; a repeat of the same provider call id is always removed. */
+export const DEDUPE_RULES = [
+  "same_recording_url",
+  "same_transcript_hash",
+  "matching_time_and_title",
+  "high_transcript_similarity",
+  "contained_clip",
+  "stitched_split_recording",
+] as const;
+export type DedupeRule = (typeof DEDUPE_RULES)[number];
+
+/** How much each property of a transcript counts when choosing which duplicate to keep. */
+export interface QualityWeights {
+  /** Per segment. */
+  segments: number;
+  /** Per segment with a speaker label. */
+  speakers: number;
+  /** Per segment with a start time. */
+  timestamps: number;
+  /** Per 400 characters of transcript, up to `transcriptLengthCap` points. */
+  transcriptLength: number;
+  transcriptLengthCap: number;
+}
+
+export interface DedupePolicy {
+  /** `matching_time_and_title`: start times, durations and title overlap. */
+  titleWindowMinutes: number;
+  titleDurationDeltaSeconds: number;
+  titleSimilarity: number;
+  /** `high_transcript_similarity`: start times, durations and transcript word overlap. */
+  transcriptWindowMinutes: number;
+  transcriptDurationDeltaSeconds: number;
+  transcriptSimilarity: number;
+  /** Providers whose call is kept first, in order; unlisted providers fall back to quality. */
+  providerPreference: string[];
+  rules: DedupeRule[];
+  qualityWeights: QualityWeights;
+}
+
+export const DEFAULT_DEDUPE_POLICY: DedupePolicy = {
+  titleWindowMinutes: 7,
+  titleDurationDeltaSeconds: 180,
+  titleSimilarity: 0.72,
+  transcriptWindowMinutes: 45,
+  transcriptDurationDeltaSeconds: 420,
+  transcriptSimilarity: 0.86,
+  providerPreference: [],
+  rules: [...DEDUPE_RULES],
+  qualityWeights: {
+    segments: 0.6,
+    speakers: 1.2,
+    timestamps: 1.2,
+    transcriptLength: 1,
+    transcriptLengthCap: 50,
+  },
+};
+
+const similarity = z.number().min(0).max(1);
+const nonNegative = z.number().min(0);
+
+/**
+ * A partial policy as written in a policy file or sent on a request; omitted fields keep their
+ * defaults. Transcript similarity stays at 0.75 or above because candidate pairs come from the
+ * MinHash index, which stops finding every pair below that.
+ */
+export const DedupePolicyInputSchema = z
+  .object({
+    titleWindowMinutes: nonNegative.optional(),
+    titleDurationDeltaSeconds: nonNegative.optional(),
+    titleSimilarity: similarity.optional(),
+    transcriptWindowMinutes: nonNegative.optional(),
+    transcriptDurationDeltaSeconds: nonNegative.optional(),
+    transcriptSimilarity: z.number().min(0.75).max(1).optional(),
+    providerPreference: z.array(z.string().min(1)).optional(),
+    rules: z.array(z.enum(DEDUPE_RULES)).optional(),
+    qualityWeights: z
+      .object({
+        segments: nonNegative.optional(),
+        speakers: nonNegative.optional(),
+        timestamps: nonNegative.optional(),
+        transcriptLength: nonNegative.optional(),
+        transcriptLengthCap: nonNegative.optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+export type DedupePolicyInput = z.infer<typeof DedupePolicyInputSchema>;
+
+export function resolveDedupePolicy(input: DedupePolicyInput = {}): DedupePolicy {
+  const defined = <T extends object>(value: T | undefined) =>
+    Object.fromEntries(Object.entries(value ?? {}).filter(([, field]) => field !== undefined)) as Partial<T>;
+
+  const { qualityWeights, ...rest } = input;
+  return {
+    ...DEFAULT_DEDUPE_POLICY,
+    ...defined(rest),
+    qualityWeights: { ...DEFAULT_DEDUPE_POLICY.qualityWeights, ...defined(qualityWeights) },
+  };
+}
+
+export async function loadDedupePolicyFile(filePath: string): Promise<DedupePolicyInput> {
+  try {
+    const raw = await readFile(filePath, "utf8");
+    return DedupePolicyInputSchema.parse(JSON.parse(raw));
+  } catch (error) {
+    throw new Error(`Invalid dedupe policy file ${filePath}: ${(error as Error).message}`);
+  }
+}
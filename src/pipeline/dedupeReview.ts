@@ -0,0 +1,195 @@
+import { readFile } from "node:fs/promises";
+import { z } from "zod";
+import type { DedupeCallRef, DedupeDecision } from "../types/domain.js";
+import type { DedupeOverrides } from "./dedupe.js";
+
+/** Per-account corrections, read from `<account>/dedupe/overrides.json` on every run. */
+export const DEDUPE_OVERRIDES_FILE = "overrides.json";
+
+const CallRefSchema = z.string().regex(/^[^:]+:.+$/, "expected provider:providerCallId");
+
+const DedupeOverridesSchema = z.object({
+  forceKeep: z.array(CallRefSchema).default([]),
+  forceMerge: z.array(z.tuple([CallRefSchema, CallRefSchema])).default([]),
+  preferProvider: z.array(z.string()).default([]),
+});
+
+export interface DedupeReviewInput {
+  accountId: string;
+  accountName: string;
+  callsFetched: number;
+  callsKept: number;
+  decisions: DedupeDecision[];
+  overridesPath: string;
+}
+
+interface ReviewSection {
+  title: string;
+  description: string;
+  decisions: DedupeDecision[];
+}
+
+const COLUMNS = ["Kept", "Other", "Reason", "Score", "Time delta", "Duration delta", "Title sim.", "Transcript sim."];
+
+const OVERRIDES_EXAMPLE = JSON.stringify(
+  {
+    forceKeep: ["grain:abc123"],
+    forceMerge: [["gong:987", "zoom:555"]],
+    preferProvider: ["gong", "grain"],
+  },
+  null,
+  2
+);
+
+export async function loadDedupeOverrides(filePath: string): Promise<DedupeOverrides | null> {
+  try {
+    const raw = await readFile(filePath, "utf8");
+    return DedupeOverridesSchema.parse(JSON.parse(raw));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw new Error(`Invalid ${DEDUPE_OVERRIDES_FILE} at ${filePath}: ${(error as Error).message}`);
+  }
+}
+
+export function renderDedupeReportMarkdown(input: DedupeReviewInput): string {
+  const lines = [`# Dedupe Review: ${input.accountName}`, "", ...summaryLines(input).map((line) => `- ${line}`)];
+
+  for (const section of reviewSections(input.decisions)) {
+    lines.push("", `## ${section.title} (${section.decisions.length})`, "", section.description, "");
+    if (section.decisions.length === 0) {
+      lines.push("_None._");
+      continue;
+    }
+    lines.push(`| ${COLUMNS.join(" | ")} |`, `| ${COLUMNS.map(() => "---").join(" | ")} |`);
+    for (const decision of section.decisions) {
+      lines.push(`| ${decisionCells(decision).map((cell) => cell.replace(/\|/g, "\\|")).join(" | ")} |`);
+    }
+  }
+
+  lines.push("", "## Corrections", "", overridesHelp(input.overridesPath), "", "```json", OVERRIDES_EXAMPLE, "```");
+  return `${lines.join("\n")}\n`;
+}
+
+export function renderDedupeReportHtml(input: DedupeReviewInput): string {
+  const title = `Dedupe Review: ${input.accountName}`;
+  const body = [
+    `<h1>${escapeHtml(title)}</h1>`,
+    `<ul>${summaryLines(input).map((line) => `<li>${escapeHtml(line)}</li>`).join("")}</ul>`,
+  ];
+
+  for (const section of reviewSections(input.decisions)) {
+    body.push(
+      `<h2>${escapeHtml(section.title)} (${section.decisions.length})</h2>`,
+      `<p>${escapeHtml(section.description)}</p>`
+    );
+    if (section.decisions.length === 0) {
+      body.push("<p><em>None.</em></p>");
+      continue;
+    }
+    const head = COLUMNS.map((column) => `<th>${escapeHtml(column)}</th>`).join("");
+    const rows = section.decisions.map(
+      (decision) => `<tr>${decisionCells(decision).map((cell) => `<td>${escapeHtml(cell)}</td>`).join("")}</tr>`
+    );
+    body.push(`<table>\n<thead><tr>${head}</tr></thead>\n<tbody>\n${rows.join("\n")}\n</tbody>\n</table>`);
+  }
+
+  body.push(
+    "<h2>Corrections</h2>",
+    `<p>${escapeHtml(overridesHelp(input.overridesPath))}</p>`,
+    `<pre>${escapeHtml(OVERRIDES_EXAMPLE)}</pre>`
+  );
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #1f2933; }
+table { border-collapse: collapse; margin-bottom: 1rem; }
+th, td { border: 1px solid #cbd2d9; padding: 0.3rem 0.6rem; text-align: left; vertical-align: top; font-size: 0.9rem; }
+th { background: #f0f4f8; }
+pre { background: #f0f4f8; padding: 0.8rem; }
+</style>
+</head>
+<body>
+${body.join("\n")}
+</body>
+</html>
+`;
+}
+
+function overridesHelp(overridesPath: string): string {
+  return (
+    `To correct a decision, edit ${overridesPath} and run again. Calls are referenced as provider:providerCallId. ` +
+    "forceKeep calls are never merged, forceMerge pairs are always merged, and preferProvider decides " +
+    "which provider's call is kept before transcript quality is compared."
+  );
+}
+
+function summaryLines(input: DedupeReviewInput): string[] {
+  const count = (outcome: DedupeDecision["outcome"]) =>
+    input.decisions.filter((decision) => decision.outcome === outcome).length;
+
+  return [
+    `Account: ${input.accountName} (${input.accountId})`,
+    `Calls fetched: ${input.callsFetched}`,
+    `Calls kept: ${input.callsKept}`,
+    `Merged: ${count("merged")}`,
+    `Near misses: ${count("near_miss")}`,
+    `Kept by override: ${count("kept_by_override")}`,
+  ];
+}
+
+function reviewSections(decisions: DedupeDecision[]): ReviewSection[] {
+  const byOutcome = (outcome: DedupeDecision["outcome"]) =>
+    decisions.filter((decision) => decision.outcome === outcome);
+
+  return [
+    {
+      title: "Merged",
+      description: "The other call was dropped or folded into the kept call.",
+      decisions: byOutcome("merged"),
+    },
+    {
+      title: "Near misses",
+      description: "Similar calls that no rule merged. Both were kept.",
+      decisions: byOutcome("near_miss"),
+    },
+    {
+      title: "Kept by override",
+      description: "Calls a rule would have merged but forceKeep kept apart.",
+      decisions: byOutcome("kept_by_override"),
+    },
+  ];
+}
+
+function decisionCells(decision: DedupeDecision): string[] {
+  return [
+    describeCall(decision.kept),
+    describeCall(decision.other),
+    decision.reason ?? "",
+    formatNumber(decision.score),
+    decision.timeDeltaMinutes === null ? "" : `${formatNumber(decision.timeDeltaMinutes)} min`,
+    decision.durationDeltaSeconds === null ? "" : `${formatNumber(decision.durationDeltaSeconds)} s`,
+    formatNumber(decision.titleSimilarity),
+    formatNumber(decision.transcriptSimilarity),
+  ];
+}
+
+function describeCall(call: DedupeCallRef): string {
+  return `${call.provider}:${call.providerCallId} "${call.title}" (${call.occurredAt})`;
+}
+
+function formatNumber(value: number | null): string {
+  if (value === null) return "";
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
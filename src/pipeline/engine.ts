@@ -0,0 +1,455 @@
+import path from "node:path";
+import { LlmUsageMeter } from "../llm/factory.js";
+import { LlmScheduler } from "../llm/scheduler.js";
+import type { LlmBudgetReport, LlmRunLimits } from "../llm/scheduler.js";
+import type { LlmClient, LlmUsageTotals } from "../llm/types.js";
+import type { UseCaseDefinition } from "../prompts/useCases.js";
+import type {
+  CallProvider,
+  CanonicalCall,
+  CaseStudyArtifact,
+  ClaimConflict,
+  ProviderFetchInput,
+  QuantClaim,
+  QuoteEvidence,
+  SkippedWork,
+} from "../types/domain.js";
+import { slugify, writeJsonFile, writeTextFile } from "../utils/fs.js";
+import { CaseStudyGenerator } from "./caseStudies.js";
+import { findClaimConflicts } from "./claimConflicts.js";
+import { dedupeCalls } from "./dedupe.js";
+import type { DedupeOptions, DedupeResult } from "./dedupe.js";
+import type { DedupePolicy } from "./dedupePolicy.js";
+import {
+  DEDUPE_OVERRIDES_FILE,
+  loadDedupeOverrides,
+  renderDedupeReportHtml,
+  renderDedupeReportMarkdown,
+} from "./dedupeReview.js";
+import { renderMergedMarkdown, writeCallMarkdownFiles, writeMergedMarkdownFile } from "./markdown.js";
+import { QuoteExtractor } from "./quotes.js";
+import type { EvidenceOptions } from "./quotes.js";
+import { classifySpeakers, evidenceFrom } from "./speakers.js";
+import type { SpeakerOptions } from "./speakers.js";
+
+/**
+ * The case-study pipeline shared by the CLI, the web app and the MCP server:
+ *
+ *   fetch -> dedupe -> corpus -> evidence -> stories -> manifest
+ *
+ * Entry points differ only in the options they pass: which providers to read, which use cases
+ * to generate (none stops after the corpus), where artifacts go and whether human-named copies
+ * are exported (e.g. to ~/Downloads).
+ */
+
+export interface PipelineSource {
+  provider: CallProvider;
+  /** Display name used in errors; defaults to the provider name. */
+  label?: string;
+  /** This provider's name for the account; defaults to the run's account name. */
+  accountName?: string;
+  /** Provider-side account id, when the caller has one (the run's id is derived from its name). */
+  accountId?: string;
+}
+
+export interface PipelineOptions {
+  account: { id: string; name: string };
+  sources: PipelineSource[];
+  fetch?: Omit<ProviderFetchInput, "accountId" | "accountName">;
+  dedupe?: DedupeOptions;
+  /** Tells the vendor's own people from the customer's on every call (see classifySpeakers). */
+  speakers?: SpeakerOptions;
+  evidence?: EvidenceOptions;
+  outputDir: string;
+  /** Use cases to generate; an empty list stops after the corpus stage. */
+  useCases: UseCaseDefinition[];
+  /** Required when any use case is requested. */
+  llm?: LlmClient;
+  /** Parallelism, token rate and budget for the run's LLM requests. */
+  llmLimits?: LlmRunLimits;
+  /** Also write the merged corpus, each story and its quotes CSV here under human-readable names. */
+  exportDir?: string;
+}
+
+export interface CorpusArtifacts {
+  callsMarkdownPaths: string[];
+  mergedMarkdownPath: string;
+  dedupeReportPath: string;
+  dedupeReviewMarkdownPath: string;
+  dedupeReviewHtmlPath: string;
+  /** Where manual dedupe corrections are read from; the file may not exist. */
+  dedupeOverridesPath: string;
+  mergedMarkdownExportPath?: string;
+}
+
+export interface EvidenceArtifacts {
+  quotes: QuoteEvidence[];
+  claims: QuantClaim[];
+  /** Metrics the calls state differently, with the value to lead with; also written to claims.json. */
+  conflicts: ClaimConflict[];
+  /** Calls extraction did not reach. */
+  skipped: SkippedWork[];
+  quotesPath: string;
+  claimsPath: string;
+  quotesCsvPath: string;
+}
+
+export interface StoryArtifact {
+  useCaseId: string;
+  useCaseName: string;
+  markdown: string;
+  path: string;
+  exportPath?: string;
+  quotesCsvExportPath?: string;
+}
+
+export interface PipelineResult {
+  accountId: string;
+  accountName: string;
+  providers: string[];
+  callsFetched: number;
+  callsProcessed: number;
+  duplicatesRemoved: number;
+  /** The dedupe policy applied, with defaults filled in. */
+  dedupePolicy: DedupePolicy;
+  calls: CanonicalCall[];
+  mergedMarkdown: string;
+  corpus: CorpusArtifacts;
+  evidence: EvidenceArtifacts | null;
+  stories: StoryArtifact[];
+  /** Token usage of the evidence and story stages; null when no LLM was called. */
+  llmUsage: LlmUsageTotals | null;
+  llmBudget: LlmBudgetReport | null;
+  /** Calls and stories left out because the LLM budget ran out. */
+  skipped: SkippedWork[];
+  manifestPath: string;
+}
+
+export async function runCaseStudyPipeline(options: PipelineOptions): Promise<PipelineResult> {
+  if (options.useCases.length > 0 && !options.llm) {
+    throw new Error("An LLM client is required to generate case studies.");
+  }
+
+  const fetched = await fetchStage(options);
+  const dedupe = await dedupeStage(fetched, options);
+  const { calls, duplicates } = dedupe;
+  const mergedMarkdown = renderMergedMarkdown(options.account.name, options.account.id, calls);
+  const corpus = await corpusStage(options, fetched.length, dedupe, mergedMarkdown);
+
+  let evidence: EvidenceArtifacts | null = null;
+  let stories: StoryArtifact[] = [];
+  let llmUsage: LlmUsageTotals | null = null;
+  let llmBudget: LlmBudgetReport | null = null;
+  const skipped: SkippedWork[] = [];
+  if (options.useCases.length > 0 && options.llm) {
+    const scheduler = new LlmScheduler(options.llm, options.llmLimits);
+    const llm = new LlmUsageMeter(scheduler);
+    evidence = await evidenceStage(options, llm, calls);
+    const generated = await storiesStage(options, llm, calls, mergedMarkdown, evidence);
+    stories = generated.stories;
+    skipped.push(...evidence.skipped, ...generated.skipped);
+    llmUsage = llm.usage();
+    llmBudget = scheduler.report();
+  }
+
+  const result: Omit<PipelineResult, "manifestPath"> = {
+    accountId: options.account.id,
+    accountName: options.account.name,
+    providers: options.sources.map((source) => source.provider.name),
+    callsFetched: fetched.length,
+    callsProcessed: calls.length,
+    duplicatesRemoved: duplicates.length,
+    dedupePolicy: dedupe.policy,
+    calls,
+    mergedMarkdown,
+    corpus,
+    evidence,
+    stories,
+    llmUsage,
+    llmBudget,
+    skipped,
+  };
+
+  return { ...result, manifestPath: await manifestStage(options, result) };
+}
+
+async function fetchStage(options: PipelineOptions): Promise<CanonicalCall[]> {
+  const results = await Promise.all(
+    options.sources.map((source) =>
+      source.provider.fetchCalls({
+        ...options.fetch,
+        accountId: source.accountId,
+        accountName: source.accountName ?? options.account.name,
+      })
+    )
+  );
+
+  const calls = results.flat();
+  if (calls.length === 0) {
+    const labels = options.sources.map((source) => source.label ?? source.provider.name).join(", ");
+    throw new Error(`No calls with transcripts found for account "${options.account.name}" in ${labels}.`);
+  }
+  return calls;
+}
+
+async function dedupeStage(fetched: CanonicalCall[], options: PipelineOptions): Promise<DedupeResult> {
+  const { account } = options;
+  const overrides = options.dedupe?.overrides ?? (await loadDedupeOverrides(overridesPathFor(options)));
+  const dedupe = dedupeCalls(fetched, { ...options.dedupe, overrides: overrides ?? undefined });
+  if (dedupe.calls.length === 0) {
+    throw new Error("All fetched calls were removed during dedupe. Check provider data and filters.");
+  }
+
+  const calls = dedupe.calls
+    .map((call) => classifySpeakers({ ...call, accountId: account.id, accountName: account.name }, options.speakers))
+    .sort((a, b) => a.occurredAt.localeCompare(b.occurredAt));
+
+  return { ...dedupe, calls };
+}
+
+async function corpusStage(
+  options: PipelineOptions,
+  callsFetched: number,
+  dedupe: DedupeResult,
+  mergedMarkdown: string
+): Promise<CorpusArtifacts> {
+  const { id: accountId, name: accountName } = options.account;
+  const { calls, duplicates, decisions } = dedupe;
+
+  const [callsMarkdownPaths, mergedMarkdownPath] = await Promise.all([
+    writeCallMarkdownFiles(options.outputDir, calls),
+    writeMergedMarkdownFile(options.outputDir, accountName, accountId, calls),
+  ]);
+
+  const dedupeReportPath = path.resolve(accountDir(options), "dedupe", "duplicates.json");
+  await writeJsonFile(dedupeReportPath, {
+    accountId,
+    accountName,
+    totalFetchedCalls: callsFetched,
+    dedupedCalls: calls.length,
+    duplicatesRemoved: duplicates.length,
+    policy: dedupe.policy,
+    duplicates,
+    decisions,
+  });
+
+  const dedupeOverridesPath = overridesPathFor(options);
+  const review = {
+    accountId,
+    accountName,
+    callsFetched,
+    callsKept: calls.length,
+    decisions,
+    overridesPath: dedupeOverridesPath,
+  };
+  const dedupeReviewMarkdownPath = path.resolve(accountDir(options), "dedupe", "report.md");
+  const dedupeReviewHtmlPath = path.resolve(accountDir(options), "dedupe", "report.html");
+  await Promise.all([
+    writeTextFile(dedupeReviewMarkdownPath, renderDedupeReportMarkdown(review)),
+    writeTextFile(dedupeReviewHtmlPath, renderDedupeReportHtml(review)),
+  ]);
+
+  let mergedMarkdownExportPath: string | undefined;
+  if (options.exportDir) {
+    mergedMarkdownExportPath = path.join(options.exportDir, `${safeFileName(accountName)}.md`);
+    await writeTextFile(mergedMarkdownExportPath, mergedMarkdown);
+  }
+
+  return {
+    callsMarkdownPaths,
+    mergedMarkdownPath,
+    dedupeReportPath,
+    dedupeReviewMarkdownPath,
+    dedupeReviewHtmlPath,
+    dedupeOverridesPath,
+    mergedMarkdownExportPath,
+  };
+}
+
+async function evidenceStage(
+  options: PipelineOptions,
+  llm: LlmClient,
+  calls: CanonicalCall[]
+): Promise<EvidenceArtifacts> {
+  const { id: accountId, name: accountName } = options.account;
+  // Internal statements are extracted too when any requested story may use them; quotes.json
+  // and claims.json then carry them, tagged, while quotes.csv stays customer-only.
+  const csvSpeakers = options.evidence?.speakers ?? "customer";
+  const speakers =
+    csvSpeakers === "all" || options.useCases.some((useCase) => useCase.spec.evidenceSpeakers === "all")
+      ? "all"
+      : "customer";
+  const extractor = new QuoteExtractor(llm, { ...options.evidence, speakers });
+  const { quotes, claims, skipped } = await extractor.extractFromCalls(calls);
+  const conflicts = findClaimConflicts(claims, calls);
+
+  const quotesPath = path.resolve(accountDir(options), "quotes", "quotes.json");
+  const quotesCsvPath = path.resolve(accountDir(options), "quotes", "quotes.csv");
+  const claimsPath = path.resolve(accountDir(options), "claims", "claims.json");
+
+  await Promise.all([
+    writeJsonFile(quotesPath, { accountId, accountName, quotes }),
+    writeTextFile(quotesCsvPath, renderQuotesCsv(evidenceFrom(quotes, csvSpeakers))),
+    writeJsonFile(claimsPath, { accountId, accountName, claims, conflicts }),
+  ]);
+
+  return { quotes, claims, conflicts, skipped, quotesPath, claimsPath, quotesCsvPath };
+}
+
+async function storiesStage(
+  options: PipelineOptions,
+  llm: LlmClient,
+  calls: CanonicalCall[],
+  mergedMarkdown: string,
+  evidence: EvidenceArtifacts
+): Promise<{ stories: StoryArtifact[]; skipped: SkippedWork[] }> {
+  const generator = new CaseStudyGenerator(llm);
+  const { artifacts, skipped } = await generator.generateAll(
+    options.useCases,
+    calls,
+    mergedMarkdown,
+    evidence.quotes,
+    evidence.claims,
+    evidence.conflicts
+  );
+
+  const stories: StoryArtifact[] = [];
+  for (const artifact of artifacts) {
+    const storyPath = path.resolve(accountDir(options), "case-studies", `${artifact.useCaseId}.md`);
+    await writeTextFile(storyPath, artifact.markdown);
+
+    const story: StoryArtifact = { ...artifact, path: storyPath };
+    if (options.exportDir) {
+      const baseName = `${safeFileName(options.account.name)} - ${safeFileName(artifact.useCaseName)}`;
+      story.exportPath = path.join(options.exportDir, `${baseName}.md`);
+      story.quotesCsvExportPath = path.join(options.exportDir, `${baseName} - Quotes.csv`);
+      await writeTextFile(story.exportPath, artifact.markdown);
+      await writeTextFile(story.quotesCsvExportPath, renderQuotesCsv(storyQuotes(options, artifact, evidence)));
+    }
+    stories.push(story);
+  }
+
+  return { stories, skipped };
+}
+
+async function manifestStage(
+  options: PipelineOptions,
+  result: Omit<PipelineResult, "manifestPath">
+): Promise<string> {
+  const manifestPath = path.resolve(accountDir(options), "manifest.json");
+  await writeJsonFile(manifestPath, {
+    generatedAt: new Date().toISOString(),
+    accountId: result.accountId,
+    accountName: result.accountName,
+    providers: result.providers,
+    totalFetchedCalls: result.callsFetched,
+    callsProcessed: result.callsProcessed,
+    duplicatesRemoved: result.duplicatesRemoved,
+    dedupePolicy: result.dedupePolicy,
+    llm: options.llm ? { provider: options.llm.provider, model: options.llm.model } : null,
+    llmUsage: result.llmUsage,
+    llmBudget: result.llmBudget,
+    skipped: result.skipped,
+    extractionCache:
+      result.evidence && options.evidence?.cache
+        ? { dir: options.evidence.cache.rootDir, ...options.evidence.cache.stats() }
+        : null,
+    ...result.corpus,
+    quotesPath: result.evidence?.quotesPath ?? null,
+    quotesCsvPath: result.evidence?.quotesCsvPath ?? null,
+    claimsPath: result.evidence?.claimsPath ?? null,
+    caseStudyPaths: result.stories.map((story) => story.path),
+    exportedPaths: result.stories.flatMap((story) =>
+      [story.exportPath, story.quotesCsvExportPath].filter((item): item is string => Boolean(item))
+    ),
+  });
+  return manifestPath;
+}
+
+function accountDir(options: PipelineOptions): string {
+  return path.resolve(options.outputDir, slugify(options.account.name || options.account.id));
+}
+
+function overridesPathFor(options: PipelineOptions): string {
+  return path.resolve(accountDir(options), "dedupe", DEDUPE_OVERRIDES_FILE);
+}
+
+/** The quotes a story was allowed to draw on, for its CSV. */
+function storyQuotes(
+  options: PipelineOptions,
+  artifact: CaseStudyArtifact,
+  evidence: EvidenceArtifacts
+): QuoteEvidence[] {
+  const useCase = options.useCases.find((item) => item.id === artifact.useCaseId);
+  return evidenceFrom(evidence.quotes, useCase?.spec.evidenceSpeakers ?? "customer");
+}
+
+function renderQuotesCsv(quotes: QuoteEvidence[]): string {
+  const headers = [
+    "speaker",
+    "date",
+    "call_time",
+    "quote",
+    "why_included",
+    "call_end_time",
+    "provider",
+    "call_id",
+    "segments",
+    "char_start",
+    "char_end",
+    "text_from",
+    "speaker_affiliation",
+  ];
+  const rows = quotes.map((quote) => [
+    quote.speaker ?? "",
+    formatDateOnly(quote.sourceCallDate),
+    formatCallTimestamp(quote.sourceTimestampMs),
+    quote.quote,
+    quote.reason,
+    formatCallTimestamp(quote.citation.endMs),
+    quote.citation.provider,
+    quote.citation.providerCallId,
+    quote.citation.segmentIndices.join(" "),
+    String(quote.citation.charStart),
+    String(quote.citation.charEnd),
+    [...new Set(quote.citation.segmentSources.map((source) => source.provider))].join(" "),
+    quote.speakerAffiliation,
+  ]);
+
+  return [headers, ...rows].map((row) => row.map(csvCell).join(",")).join("\n") + "\n";
+}
+
+function formatDateOnly(raw: string): string {
+  const date = new Date(raw);
+  if (Number.isNaN(date.getTime())) {
+    return raw;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function formatCallTimestamp(ms: number | null): string {
+  if (ms == null || !Number.isFinite(ms) || ms < 0) {
+    return "";
+  }
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`;
+  }
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+function csvCell(value: string): string {
+  const normalized = value.replace(/\r?\n/g, " ").trim();
+  if (!/[",]/.test(normalized)) {
+    return normalized;
+  }
+  return `"${normalized.replace(/"/g, "\"\"")}"`;
+}
+
+export function safeFileName(input: string): string {
+  return input.replace(/[\\/:*?"<>|]/g, " ").replace(/\s+/g, " ").trim();
+}
@@ -0,0 +1,315 @@
+import { segmentsToTranscriptText } from "../providers/transcript-parsers.js";
+import type { CallSegment, CanonicalCall, SegmentProvenance, SegmentSource } from "../types/domain.js";
+
+// Aligned segments must share half their words; unmatched pieces of a turn are folded into the
+// neighbouring segment that holds most of their words. Text is only swapped for a segment that
+// says everything the original did, once filler and garbled markers are ignored.
+const MATCH_SIMILARITY = 0.5;
+const ABSORB_CONTAINMENT = 0.6;
+const TEXT_COVERAGE = 0.8;
+
+const GENERIC_SPEAKER = /^(?:speaker|spk|participant|unknown|guest)[\s_-]*\d*$/i;
+const GARBLED = /\[(?:inaudible|crosstalk|unintelligible|indiscernible)[^\]]*\]|\?\?\?/gi;
+const FILLER = /\b(?:um+|uh+|erm|hmm+)\b/gi;
+
+interface AlignedPair {
+  base: number | null;
+  other: number | null;
+}
+
+interface SourcePreferences {
+  otherSpeakers: boolean;
+  otherTiming: boolean;
+}
+
+/**
+ * Fuses two recordings of the same meeting segment by segment. Segments are aligned by their
+ * words, then each aligned segment takes the better speaker label, text and timestamps of the
+ * two, with every choice recorded in `provenance`. Segments only one side has are kept unless
+ * their words are already covered by a neighbouring segment. `base` keeps its identity and
+ * metadata; the other call's timestamps are shifted onto its timeline.
+ */
+export function fuseCalls(base: CanonicalCall, other: CanonicalCall): CanonicalCall {
+  if (base.segments.length === 0 || other.segments.length === 0) {
+    return base;
+  }
+
+  const baseTokens = base.segments.map((segment) => tokenSet(segment.text));
+  const otherTokens = other.segments.map((segment) => tokenSet(segment.text));
+  const pairs = alignSegments(baseTokens, otherTokens);
+  const pieces = collectPieces(pairs, baseTokens, otherTokens);
+  const offsetMs = estimateOffset(base, other, pairs);
+  // On a tie between two equally good segments, go with the recording that is better overall.
+  const preferences: SourcePreferences = {
+    otherSpeakers: speakerCoverage(other) > speakerCoverage(base),
+    otherTiming: timingCoverage(other) > timingCoverage(base),
+  };
+
+  const fused: CallSegment[] = [];
+  const absorbed = new Set([...pieces.values()].flat());
+
+  for (const pair of pairs) {
+    if (pair.base !== null) {
+      const textFrom =
+        pair.other !== null &&
+        containmentOf(tokenSet(stripNoise(base.segments[pair.base].text)), otherTokens[pair.other]) >= TEXT_COVERAGE
+          ? pair.other
+          : null;
+      fused.push(fuseSegment(base, pair.base, other, pieces.get(pair.base) ?? [], textFrom, offsetMs, preferences));
+    } else if (pair.other !== null && !absorbed.has(pair.other)) {
+      const segment = other.segments[pair.other];
+      const source = sourceOf(other, segment);
+      fused.push({
+        ...shiftTiming(segment, offsetMs),
+        provenance: {
+          speaker: source("speaker"),
+          text: source("text"),
+          timing: source("timing"),
+        },
+      });
+    }
+  }
+
+  return {
+    ...base,
+    segments: fused,
+    transcriptText: segmentsToTranscriptText(fused),
+  };
+}
+
+/** Longest-path alignment keeping both segment orders, matching only segments with similar words. */
+function alignSegments(baseTokens: Set<string>[], otherTokens: Set<string>[]): AlignedPair[] {
+  const rows = baseTokens.length;
+  const cols = otherTokens.length;
+  const width = cols + 1;
+  const score = new Float64Array((rows + 1) * width);
+
+  for (let i = rows - 1; i >= 0; i -= 1) {
+    for (let j = cols - 1; j >= 0; j -= 1) {
+      const skip = Math.max(score[(i + 1) * width + j], score[i * width + j + 1]);
+      const similarity = similarityOf(baseTokens[i], otherTokens[j]);
+      const match = similarity >= MATCH_SIMILARITY ? score[(i + 1) * width + j + 1] + similarity : -1;
+      score[i * width + j] = Math.max(skip, match);
+    }
+  }
+
+  const pairs: AlignedPair[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    const similarity = similarityOf(baseTokens[i], otherTokens[j]);
+    if (similarity >= MATCH_SIMILARITY && score[i * width + j] === score[(i + 1) * width + j + 1] + similarity) {
+      pairs.push({ base: i, other: j });
+      i += 1;
+      j += 1;
+    } else if (score[(i + 1) * width + j] >= score[i * width + j + 1]) {
+      pairs.push({ base: i, other: null });
+      i += 1;
+    } else {
+      pairs.push({ base: null, other: j });
+      j += 1;
+    }
+  }
+  for (; i < rows; i += 1) pairs.push({ base: i, other: null });
+  for (; j < cols; j += 1) pairs.push({ base: null, other: j });
+  return pairs;
+}
+
+/**
+ * Maps each base segment to the other call's segments that cover it, in order: its aligned
+ * segment plus unmatched segments whose words it mostly contains, such as one long turn on one
+ * side split into sentences on the other. Unmatched segments are only compared with base
+ * segments between the same two aligned neighbours, or those neighbours themselves.
+ */
+function collectPieces(
+  pairs: AlignedPair[],
+  baseTokens: Set<string>[],
+  otherTokens: Set<string>[]
+): Map<number, number[]> {
+  const pieces = new Map<number, number[]>();
+  const add = (baseIndex: number, otherIndex: number) => {
+    const list = pieces.get(baseIndex);
+    if (list) list.push(otherIndex);
+    else pieces.set(baseIndex, [otherIndex]);
+  };
+
+  let previousAnchor: number | null = null;
+  let gapBase: number[] = [];
+  let gapOther: number[] = [];
+
+  const flush = (nextAnchor: number | null) => {
+    const candidates = [previousAnchor, ...gapBase, nextAnchor].filter((index): index is number => index !== null);
+    for (const otherIndex of gapOther) {
+      let best: { base: number; containment: number } | null = null;
+      for (const baseIndex of candidates) {
+        const containment = containmentOf(otherTokens[otherIndex], baseTokens[baseIndex]);
+        if (containment >= ABSORB_CONTAINMENT && (!best || containment > best.containment)) {
+          best = { base: baseIndex, containment };
+        }
+      }
+      if (best) add(best.base, otherIndex);
+    }
+    gapBase = [];
+    gapOther = [];
+  };
+
+  for (const pair of pairs) {
+    if (pair.base !== null && pair.other !== null) {
+      flush(pair.base);
+      add(pair.base, pair.other);
+      previousAnchor = pair.base;
+    } else if (pair.base !== null) {
+      gapBase.push(pair.base);
+    } else if (pair.other !== null) {
+      gapOther.push(pair.other);
+    }
+  }
+  flush(null);
+
+  for (const list of pieces.values()) list.sort((a, b) => a - b);
+  return pieces;
+}
+
+/**
+ * `pieces` are the other call's segments covering this one. Their speaker and timestamps fill in
+ * what the base segment lacks; the text is only replaced by `textFrom`, an aligned segment that
+ * says the same thing more cleanly.
+ */
+function fuseSegment(
+  base: CanonicalCall,
+  baseIndex: number,
+  other: CanonicalCall,
+  pieceIndexes: number[],
+  textFrom: number | null,
+  offsetMs: number,
+  preferences: SourcePreferences
+): CallSegment {
+  const segment = base.segments[baseIndex];
+  const fromBase = sourceOf(base, segment);
+  const provenance: SegmentProvenance = {
+    speaker: fromBase("speaker"),
+    text: fromBase("text"),
+    timing: fromBase("timing"),
+  };
+  const fused: CallSegment = { ...segment, provenance };
+  if (pieceIndexes.length === 0) return fused;
+
+  const pieces = pieceIndexes.map((index) => other.segments[index]);
+  const first = pieces[0];
+  const last = pieces[pieces.length - 1];
+  const fromOther = sourceOf(other, first);
+
+  const baseSpeaker = speakerScore(segment.speaker);
+  const otherSpeaker = new Set(pieces.map((piece) => piece.speaker)).size === 1 ? speakerScore(first.speaker) : 0;
+  const speakerTie = otherSpeaker === baseSpeaker && otherSpeaker > 0 && preferences.otherSpeakers;
+  if (otherSpeaker > baseSpeaker || speakerTie) {
+    fused.speaker = first.speaker;
+    provenance.speaker = fromOther("speaker");
+  }
+
+  if (textFrom !== null && textQuality(other.segments[textFrom].text) > textQuality(segment.text)) {
+    fused.text = other.segments[textFrom].text;
+    provenance.text = sourceOf(other, other.segments[textFrom])("text");
+  }
+
+  const otherTiming = shiftTiming({ ...first, endMs: last.endMs }, offsetMs);
+  const baseTimingScore = timingScore(segment);
+  const otherTimingScore = timingScore(otherTiming);
+  const timingTie = otherTimingScore === baseTimingScore && otherTimingScore > 0 && preferences.otherTiming;
+  if (otherTimingScore > baseTimingScore || timingTie) {
+    fused.startMs = otherTiming.startMs;
+    fused.endMs = otherTiming.endMs;
+    provenance.timing = fromOther("timing");
+  }
+
+  return fused;
+}
+
+/** Milliseconds to add to the other call's segment times to place them on the base timeline. */
+function estimateOffset(base: CanonicalCall, other: CanonicalCall, pairs: AlignedPair[]): number {
+  const deltas = pairs
+    .filter((pair) => pair.base !== null && pair.other !== null)
+    .map((pair) => [base.segments[pair.base!].startMs, other.segments[pair.other!].startMs] as const)
+    .filter((pair): pair is readonly [number, number] => pair[0] !== null && pair[1] !== null)
+    .map(([baseMs, otherMs]) => baseMs - otherMs)
+    .sort((a, b) => a - b);
+
+  if (deltas.length > 0) {
+    return deltas[Math.floor(deltas.length / 2)];
+  }
+
+  const startDelta = new Date(other.occurredAt).getTime() - new Date(base.occurredAt).getTime();
+  return Number.isFinite(startDelta) ? startDelta : 0;
+}
+
+function shiftTiming(segment: CallSegment, offsetMs: number): CallSegment {
+  return {
+    ...segment,
+    startMs: segment.startMs == null ? null : Math.max(0, segment.startMs + offsetMs),
+    endMs: segment.endMs == null ? null : Math.max(0, segment.endMs + offsetMs),
+  };
+}
+
+function sourceOf(call: CanonicalCall, segment: CallSegment) {
+  const own: SegmentSource = { provider: call.provider, providerCallId: call.providerCallId };
+  return (field: keyof SegmentProvenance): SegmentSource => segment.provenance?.[field] ?? own;
+}
+
+function speakerScore(speaker: string | null): number {
+  const label = speaker?.trim();
+  if (!label) return 0;
+  return GENERIC_SPEAKER.test(label) ? 1 : 2;
+}
+
+function timingScore(segment: CallSegment): number {
+  return (segment.startMs != null ? 1 : 0) + (segment.endMs != null ? 1 : 0);
+}
+
+function stripNoise(text: string): string {
+  return text.replace(GARBLED, " ").replace(FILLER, " ");
+}
+
+function textQuality(text: string): number {
+  let score = 0;
+  if (/[.!?,]/.test(text)) score += 1;
+  if (/[A-Z]/.test(text)) score += 1;
+  score -= (text.match(GARBLED) ?? []).length * 2;
+  score -= (text.match(FILLER) ?? []).length * 0.5;
+  return score;
+}
+
+function speakerCoverage(call: CanonicalCall): number {
+  return call.segments.filter((segment) => speakerScore(segment.speaker) === 2).length / call.segments.length;
+}
+
+function timingCoverage(call: CanonicalCall): number {
+  return call.segments.filter((segment) => timingScore(segment) === 2).length / call.segments.length;
+}
+
+function similarityOf(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  return intersectionSize(a, b) / Math.max(a.size, b.size);
+}
+
+function containmentOf(piece: Set<string>, whole: Set<string>): number {
+  if (piece.size === 0) return 1;
+  return intersectionSize(piece, whole) / piece.size;
+}
+
+function intersectionSize(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const token of a) {
+    if (b.has(token)) shared += 1;
+  }
+  return shared;
+}
+
+function tokenSet(text: string): Set<string> {
+  return new Set(
+    text
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, " ")
+      .split(/\s+/)
+      .filter((token) => token.length > 0)
+  );
+}
@@ -8,7 +8,7 @@ function renderParticipants(call: CanonicalCall): string {
     .map((p) => {
       const identity = p.name || p.email || "Unknown";
       const role = p.role === "host" ? "host" : "participant";
-      return `- ${identity} (${role})`;
+      return `- ${identity} (${role}${p.affiliation && p.affiliation !== "unknown" ? `, ${p.affiliation}` : ""})`;
     })
     .join("\n");
 }
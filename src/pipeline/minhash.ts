@@ -0,0 +1,97 @@
+/**
+ * MinHash signatures and banded locality-sensitive hashing for transcript similarity.
+ *
+ * 32 bands of 4 rows put the LSH threshold near Jaccard 0.42, so pairs at the dedupe cut-off
+ * (token overlap 0.86, i.e. Jaccard of at least 0.75) collide in some band with probability
+ * above 0.99999. Collisions are only candidates; callers still confirm with the exact measure.
+ */
+const BANDS = 32;
+const ROWS_PER_BAND = 4;
+export const MINHASH_SIZE = BANDS * ROWS_PER_BAND;
+
+const SEEDS = buildSeeds(MINHASH_SIZE);
+
+export function minhashSignature(tokens: Iterable<string>): Uint32Array | null {
+  const signature = new Uint32Array(MINHASH_SIZE).fill(0xffffffff);
+  let empty = true;
+
+  for (const token of tokens) {
+    empty = false;
+    const base = fnv1a(token);
+    for (let i = 0; i < MINHASH_SIZE; i += 1) {
+      const value = mix(base ^ SEEDS[i]);
+      if (value < signature[i]) signature[i] = value;
+    }
+  }
+
+  return empty ? null : signature;
+}
+
+/** Buckets items by signature band so near-duplicates can be found without comparing every pair. */
+export class LshIndex<T> {
+  private readonly buckets = new Map<string, Set<T>>();
+
+  add(item: T, signature: Uint32Array): void {
+    for (const key of bandKeys(signature)) {
+      const bucket = this.buckets.get(key);
+      if (bucket) bucket.add(item);
+      else this.buckets.set(key, new Set([item]));
+    }
+  }
+
+  remove(item: T, signature: Uint32Array): void {
+    for (const key of bandKeys(signature)) {
+      const bucket = this.buckets.get(key);
+      if (!bucket) continue;
+      bucket.delete(item);
+      if (bucket.size === 0) this.buckets.delete(key);
+    }
+  }
+
+  candidates(signature: Uint32Array): Set<T> {
+    const found = new Set<T>();
+    for (const key of bandKeys(signature)) {
+      for (const item of this.buckets.get(key) ?? []) found.add(item);
+    }
+    return found;
+  }
+}
+
+function bandKeys(signature: Uint32Array): string[] {
+  const keys: string[] = [];
+  for (let band = 0; band < BANDS; band += 1) {
+    const rows = signature.subarray(band * ROWS_PER_BAND, (band + 1) * ROWS_PER_BAND);
+    keys.push(`${band}:${rows.join(",")}`);
+  }
+  return keys;
+}
+
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i += 1) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// murmur3 finalizer: spreads seeded token hashes evenly over 32 bits.
+function mix(value: number): number {
+  let h = value >>> 0;
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
+
+function buildSeeds(count: number): Uint32Array {
+  const seeds = new Uint32Array(count);
+  let state = 0x9e3779b9;
+  for (let i = 0; i < count; i += 1) {
+    state = mix(state + 0x6d2b79f5);
+    seeds[i] = state;
+  }
+  return seeds;
+}
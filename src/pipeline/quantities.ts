@@ -0,0 +1,297 @@
+import type { ClaimDirection, ClaimPeriod, NormalizedClaimValue, UnitFamily } from "../types/domain.js";
+
+/**
+ * Reads amounts out of claim text ("cut from 12 days to 4 days", "66%", "$420,000 annually",
+ * "1.200,50 €") so claims can be compared and charted. Separators are read by shape where that
+ * is unambiguous ("1.200,50", "1,200,000") and by the locale's decimal mark otherwise ("1.200").
+ */
+
+/** One amount found in text, with whatever currency or unit was written next to it. */
+export interface Quantity {
+  value: number;
+  currency: string | null;
+  unitFamily: UnitFamily | null;
+  unit: string | null;
+  start: number;
+  end: number;
+}
+
+export interface QuantityOptions {
+  /** BCP 47 locale whose decimal mark settles numbers like "1.200"; defaults to en-US. */
+  locale?: string;
+}
+
+const DEFAULT_LOCALE = "en-US";
+
+const QUANTITY =
+  /(?<![\p{L}\p{N}])(?<pre>[$€£¥]|(?:USD|EUR|GBP|CAD|AUD)\s?)?(?<num>\d{1,3}(?:[.,\u00a0\u202f\u2009'’]\d{3})+(?:[.,]\d+)?|\d+(?:[.,]\d+)?)(?:\s?(?<mag>thousand|million|billion|bn|mm|[kmb])(?!\p{L}))?(?:\s?(?<post>%|[$€£¥]|\p{L}+(?:-fold)?))?/giu;
+
+const CURRENCY_SYMBOLS: Record<string, string> = { $: "USD", "€": "EUR", "£": "GBP", "¥": "JPY" };
+const CURRENCY_WORDS: Record<string, string> = {
+  usd: "USD",
+  eur: "EUR",
+  gbp: "GBP",
+  cad: "CAD",
+  aud: "AUD",
+  dollar: "USD",
+  dollars: "USD",
+  euro: "EUR",
+  euros: "EUR",
+  pound: "GBP",
+  pounds: "GBP",
+};
+const MAGNITUDES: Record<string, number> = {
+  thousand: 1e3,
+  k: 1e3,
+  million: 1e6,
+  m: 1e6,
+  mm: 1e6,
+  billion: 1e9,
+  b: 1e9,
+  bn: 1e9,
+};
+const DURATIONS: Record<string, string> = {
+  sec: "seconds",
+  secs: "seconds",
+  second: "seconds",
+  seconds: "seconds",
+  min: "minutes",
+  mins: "minutes",
+  minute: "minutes",
+  minutes: "minutes",
+  hr: "hours",
+  hrs: "hours",
+  hour: "hours",
+  hours: "hours",
+  day: "days",
+  days: "days",
+  week: "weeks",
+  weeks: "weeks",
+  wk: "weeks",
+  wks: "weeks",
+  month: "months",
+  months: "months",
+  year: "years",
+  years: "years",
+  yr: "years",
+  yrs: "years",
+};
+/** Seconds in each normalized duration unit; months and years are averages over leap years. */
+export const DURATION_SECONDS: Record<string, number> = {
+  seconds: 1,
+  minutes: 60,
+  hours: 3600,
+  days: 86_400,
+  weeks: 604_800,
+  months: 2_629_800,
+  years: 31_557_600,
+};
+const COUNT_NOUNS = new Set([
+  "user",
+  "seat",
+  "ticket",
+  "incident",
+  "call",
+  "meeting",
+  "customer",
+  "account",
+  "employee",
+  "agent",
+  "rep",
+  "license",
+  "deal",
+  "invoice",
+  "order",
+  "error",
+  "defect",
+]);
+const PERIODS: Array<[RegExp, ClaimPeriod]> = [
+  [/\b(?:per|a|an|each|every)\s+day\b|\/\s?day\b|\bdaily\b/i, "day"],
+  [/\b(?:per|a|an|each|every)\s+week\b|\/\s?(?:week|wk)\b|\bweekly\b/i, "week"],
+  [/\b(?:per|a|an|each|every)\s+month\b|\/\s?(?:month|mo)\b|\bmonthly\b/i, "month"],
+  [/\b(?:per|a|an|each|every)\s+quarter\b|\/\s?(?:quarter|qtr)\b|\bquarterly\b/i, "quarter"],
+  [/\b(?:per|a|an|each|every)\s+year\b|\/\s?(?:year|yr)\b|\b(?:annually|yearly|annual|per annum)\b/i, "year"],
+];
+const DECREASE = /\b(?:cut|cuts|reduc\w*|drop\w*|fell|fall\w*|decreas\w*|lower\w*|down|fewer|less|shrank|shrunk|declin\w*|eliminat\w*)\b/i;
+const INCREASE = /\b(?:increas\w*|grew|grow\w*|rose|rise|rising|up|boost\w*|improv\w*|more|higher|gain\w*|doubl\w*|tripl\w*)\b/i;
+/** What may sit between the two amounts of "from 12 days to 4 days" or "12 → 4". */
+const PAIR_GAP = /^\s*(?:(?:down|up|all the way)\s+)?(?:to|→|->)\s*$/i;
+
+/** Every amount in the text, in order. */
+export function findQuantities(text: string, options: QuantityOptions = {}): Quantity[] {
+  const decimal = decimalMark(options.locale ?? DEFAULT_LOCALE);
+  const quantities: Quantity[] = [];
+
+  for (const match of text.matchAll(QUANTITY)) {
+    const groups = match.groups ?? {};
+    const number = parseLocaleNumber(groups.num, decimal);
+    if (number == null) continue;
+
+    const pre = groups.pre?.trim() ?? "";
+    const post = groups.post ?? "";
+    const postWord = post.toLowerCase();
+    const currency =
+      CURRENCY_SYMBOLS[pre] ??
+      CURRENCY_WORDS[pre.toLowerCase()] ??
+      CURRENCY_SYMBOLS[post] ??
+      CURRENCY_WORDS[postWord] ??
+      null;
+
+    // Single-letter magnitudes ("$2.3M", "$420k") only count next to a currency; "5m" is minutes.
+    const mag = groups.mag?.toLowerCase();
+    const magnitude = mag && (mag.length > 2 || currency) ? MAGNITUDES[mag] : undefined;
+    const unitWord = mag && !magnitude ? (mag === "m" ? "min" : "") : postWord;
+    const value = round(number * (magnitude ?? 1), 6);
+
+    let unitFamily: UnitFamily | null = null;
+    let unit: string | null = null;
+    if (currency) {
+      unitFamily = "currency";
+      unit = currency;
+    } else if (unitWord === "%" || unitWord === "percent" || unitWord === "pct") {
+      unitFamily = "percent";
+      unit = "%";
+    } else if (unitWord === "x" || unitWord === "times" || unitWord.endsWith("-fold")) {
+      unitFamily = "multiplier";
+      unit = "x";
+    } else if (DURATIONS[unitWord]) {
+      unitFamily = "duration";
+      unit = DURATIONS[unitWord];
+    } else if (COUNT_NOUNS.has(unitWord.replace(/s$/, ""))) {
+      unitFamily = "count";
+      unit = unitWord.endsWith("s") ? unitWord : `${unitWord}s`;
+    }
+
+    // A trailing word that is not the amount's unit ("12 to", "$420,000 annually") is not part of it.
+    const postIsCurrency = CURRENCY_SYMBOLS[post] != null || CURRENCY_WORDS[postWord] != null;
+    const consumed = postIsCurrency || (!currency && unitWord === postWord && unitFamily != null);
+    const text = consumed ? match[0] : match[0].slice(0, match[0].length - post.length).trimEnd();
+    const end = match.index + text.length;
+
+    quantities.push({ value, currency, unitFamily, unit, start: match.index, end });
+  }
+
+  return quantities;
+}
+
+/** Whether the text states an amount with a unit, currency or percentage (a bare "12" does not count). */
+export function hasQuantity(text: string, options: QuantityOptions = {}): boolean {
+  return findQuantities(text, options).some((quantity) => quantity.unitFamily != null);
+}
+
+/**
+ * Parses a number written with either separator convention. With both marks present the last one
+ * is the decimal mark; a mark repeated is a thousands separator; a single mark followed by three
+ * digits is read with the locale's decimal mark.
+ */
+export function parseLocaleNumber(raw: string, decimal: "." | "," = "."): number | null {
+  const compact = raw.replace(/[\s'’]/g, "");
+  const dots = compact.split(".").length - 1;
+  const commas = compact.split(",").length - 1;
+
+  let decimalMarkUsed: "." | "," | null = null;
+  if (dots > 0 && commas > 0) {
+    decimalMarkUsed = compact.lastIndexOf(".") > compact.lastIndexOf(",") ? "." : ",";
+  } else if (dots + commas === 1) {
+    const mark = dots === 1 ? "." : ",";
+    const digitsAfter = compact.length - compact.indexOf(mark) - 1;
+    decimalMarkUsed = digitsAfter !== 3 || mark === decimal ? mark : null;
+  }
+
+  const thousands = decimalMarkUsed === "." ? /,/g : decimalMarkUsed === "," ? /\./g : /[.,]/g;
+  const normalized = compact.replace(thousands, "").replace(",", ".");
+  const value = Number(normalized);
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * The structured form of a claim: the amount from `value`/`unit` (or the claim text), a
+ * from/to pair with its delta when the claim or its evidence states one, the period and the
+ * direction of change.
+ */
+export function normalizeClaimValue(
+  claim: { claim: string; value: string; unit: string | null; evidenceQuote: string },
+  options: QuantityOptions = {}
+): NormalizedClaimValue {
+  const stated = [claim.value, claim.unit].filter(Boolean).join(" ");
+  const inClaim = findQuantities(claim.claim, options);
+  const primary = withContextUnit(findQuantities(stated, options)[0] ?? null, inClaim);
+  const pair = findPair(claim.claim, options) ?? findPair(claim.evidenceQuote, options);
+  const main = primary ?? pair?.after ?? inClaim[0] ?? null;
+
+  const delta = pair ? round(pair.after.value - pair.baseline.value, 6) : null;
+  const context = `${stated} ${claim.claim}`;
+  return {
+    value: main?.value ?? null,
+    currency: main?.currency ?? pair?.after.currency ?? null,
+    unitFamily: main?.unitFamily ?? pair?.after.unitFamily ?? null,
+    unit: main?.unit ?? pair?.after.unit ?? null,
+    period: PERIODS.find(([pattern]) => pattern.test(context))?.[1] ?? null,
+    direction: delta != null ? (delta < 0 ? "decrease" : delta > 0 ? "increase" : null) : keywordDirection(claim.claim),
+    baseline: pair?.baseline.value ?? null,
+    after: pair?.after.value ?? null,
+    delta,
+    deltaPercent:
+      pair && delta != null && pair.baseline.value !== 0 ? round((delta / pair.baseline.value) * 100, 1) : null,
+  };
+}
+
+/** "from 12 days to 4 days", "from $1.2M down to $800k", "12 → 4 hours". */
+function findPair(text: string, options: QuantityOptions): { baseline: Quantity; after: Quantity } | null {
+  const quantities = findQuantities(text, options);
+  for (let index = 0; index + 1 < quantities.length; index += 1) {
+    const [first, second] = [quantities[index], quantities[index + 1]];
+    const gap = text.slice(first.end, second.start);
+    if (!PAIR_GAP.test(gap)) continue;
+    const arrow = /→|->/.test(gap);
+    if (!arrow && !/\bfrom\s*$/i.test(text.slice(0, first.start))) continue;
+    if (first.unitFamily && second.unitFamily && first.unitFamily !== second.unitFamily) continue;
+    if (first.currency && second.currency && first.currency !== second.currency) continue;
+
+    // "from 12 to 4 days": the unit written once applies to both. "From 2 hours to 30 minutes":
+    // the baseline is restated in the after's unit, so the delta compares like with like.
+    const unitOf = second.unitFamily ? second : first;
+    const baselineValue =
+      unitOf.unitFamily === "duration" && first.unit && second.unit && first.unit !== second.unit
+        ? (first.value * DURATION_SECONDS[first.unit]) / DURATION_SECONDS[second.unit]
+        : first.value;
+    const baseline = {
+      ...first,
+      value: round(baselineValue, 6),
+      currency: unitOf.currency,
+      unitFamily: unitOf.unitFamily,
+      unit: unitOf.unit,
+    };
+    const after = { ...second, currency: unitOf.currency, unitFamily: unitOf.unitFamily, unit: unitOf.unit };
+    return { baseline, after };
+  }
+  return null;
+}
+
+/** A bare stated value ("4") takes its unit from the same amount in the claim text ("to 4 days"). */
+function withContextUnit(quantity: Quantity | null, context: Quantity[]): Quantity | null {
+  if (!quantity || quantity.unitFamily) return quantity;
+  const same = context.find((other) => other.value === quantity.value && other.unitFamily);
+  return same ? { ...quantity, currency: same.currency, unitFamily: same.unitFamily, unit: same.unit } : quantity;
+}
+
+function keywordDirection(text: string): ClaimDirection | null {
+  const decrease = DECREASE.exec(text)?.index ?? Infinity;
+  const increase = INCREASE.exec(text)?.index ?? Infinity;
+  if (decrease === Infinity && increase === Infinity) return null;
+  return decrease < increase ? "decrease" : "increase";
+}
+
+function decimalMark(locale: string): "." | "," {
+  try {
+    const mark = new Intl.NumberFormat(locale).formatToParts(1.5).find((part) => part.type === "decimal")?.value;
+    return mark === "," ? "," : ".";
+  } catch {
+    throw new Error(`Invalid number locale "${locale}"; use a BCP 47 tag such as en-US or de-DE.`);
+  }
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
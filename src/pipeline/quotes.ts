@@ -1,5 +1,33 @@
-import OpenAI from "openai";
-import type { CanonicalCall, QuantClaim, QuoteEvidence } from "../types/domain.js";
+import { createHash } from "node:crypto";
+import { LlmBudgetExceededError } from "../llm/scheduler.js";
+import type { LlmClient } from "../llm/types.js";
+import type { ExtractionCache, ExtractionCacheKey } from "../store/extractionCache.js";
+import type {
+  CanonicalCall,
+  EvidenceCitation,
+  EvidenceSpeakers,
+  QuantClaim,
+  QuoteEvidence,
+  SkippedWork,
+  TranscriptSpan,
+} from "../types/domain.js";
+import { createCitationLocator } from "./citations.js";
+import { hasQuantity, normalizeClaimValue } from "./quantities.js";
+import type { QuantityOptions } from "./quantities.js";
+import { citedAffiliation, evidenceFrom } from "./speakers.js";
+import { DEFAULT_MIN_QUOTE_SIMILARITY, findVerbatimSpan } from "./verbatim.js";
+import type { VerbatimMatch } from "./verbatim.js";
+import { splitTranscriptWindows } from "./windows.js";
+import type { TranscriptWindow } from "./windows.js";
+
+const MAX_QUOTES_PER_WINDOW = 10;
+const MAX_CLAIMS_PER_WINDOW = 12;
+/** Room for one quote or claim object in the JSON reply, with its reason and evidence text. */
+const TOKENS_PER_EXTRACTED_ITEM = 150;
+/** Output cap per window; the LLM budget reserves it while the request is in flight. */
+const MAX_EXTRACTION_OUTPUT_TOKENS = (MAX_QUOTES_PER_WINDOW + MAX_CLAIMS_PER_WINDOW) * TOKENS_PER_EXTRACTED_ITEM;
+const DEFAULT_WINDOW_TOKENS = 12_000;
+const DEFAULT_WINDOW_OVERLAP_TOKENS = 400;
 
 const EXTRACTION_PROMPT = `You are an evidence extraction engine.
 Return strict JSON with shape:
@@ -32,11 +60,26 @@ Return strict JSON with shape:
 Rules:
 - Extract only verbatim quotes that appear in transcript.
 - Prioritize numbers, percentages, dollar values, time reductions, error rates, adoption rates.
+- Prefer what the customer's people say over statements by the vendor's own team.
 - If uncertain, exclude the item.
 - confidence must be 0..1.
-- Max 10 quotes, max 12 claims.`;
+- Max ${MAX_QUOTES_PER_WINDOW} quotes, max ${MAX_CLAIMS_PER_WINDOW} claims.`;
+
+/** The user message for one transcript window; `{part}` is empty when the call fits one window. */
+const WINDOW_PROMPT_TEMPLATE = "Call ID: {callId}\nTitle: {title}\nDate: {date}\n{part}\nTranscript:\n{transcript}";
+const WINDOW_PART_TEMPLATE = "Part: {number} of {count} (an excerpt; the transcript continues {continues} it)\n";
+const WINDOW_PART_CONTINUES = { first: "after", middle: "before and after", last: "before" };
+
+/** Changes whenever the prompt or the window message templates do, so older cached extractions are not reused. */
+export const EXTRACTION_PROMPT_VERSION = createHash("sha1")
+  .update(EXTRACTION_PROMPT)
+  .update(WINDOW_PROMPT_TEMPLATE)
+  .update(WINDOW_PART_TEMPLATE)
+  .update(JSON.stringify(WINDOW_PART_CONTINUES))
+  .digest("hex")
+  .slice(0, 12);
 
-const NUMERIC_PATTERN = /\b(?:\$\s?\d[\d,.]*|\d[\d,.]*\s?%|\d[\d,.]*\s?(?:x|hours?|days?|weeks?|months?|years?|mins?|minutes?|seconds?|users?|seats?|tickets?|incidents?|calls?|meetings?|dollars?))\b/i;
+const EMPTY_EXTRACTION = "{\"quotes\":[],\"claims\":[]}";
 
 interface RawQuote {
   quote: string;
@@ -60,104 +103,281 @@ interface RawClaim {
   confidence: number;
 }
 
+export interface EvidenceOptions {
+  /**
+   * Word-level similarity (0..1) a quote needs with some transcript span to be kept; the quote
+   * is then replaced by the span's exact wording. Defaults to 0.85.
+   */
+  minQuoteSimilarity?: number;
+  /** BCP 47 locale for reading ambiguous amounts such as "1.200" in claims; defaults to en-US. */
+  numberLocale?: string;
+  /** Estimated tokens of transcript sent per extraction request; longer calls are split. Defaults to 12000. */
+  windowTokens?: number;
+  /** Estimated tokens each window repeats from the one before it. Defaults to 400. */
+  windowOverlapTokens?: number;
+  /** Reuses model responses for transcripts already extracted with the same model and prompt. */
+  cache?: ExtractionCache;
+  /**
+   * "customer" (the default) drops quotes and claims spoken by internal speakers (see
+   * classifySpeakers); "all" keeps them, tagged, for stories that use the vendor's own voice.
+   */
+  speakers?: EvidenceSpeakers;
+}
+
 export class QuoteExtractor {
-  constructor(private readonly openai: OpenAI, private readonly model: string) {}
+  constructor(
+    private readonly llm: LlmClient,
+    private readonly options: EvidenceOptions = {}
+  ) {}
+
+  /**
+   * Extracts from every call at once; the client bounds how many requests actually run (see
+   * LlmScheduler). Calls the LLM budget no longer covers are skipped whole and reported.
+   */
+  async extractFromCalls(
+    calls: CanonicalCall[]
+  ): Promise<{ quotes: QuoteEvidence[]; claims: QuantClaim[]; skipped: SkippedWork[] }> {
+    const results = await Promise.all(
+      calls.map(async (call) => {
+        try {
+          return { ...(await this.extractFromCall(call)), skipped: [] };
+        } catch (error) {
+          if (!(error instanceof LlmBudgetExceededError)) throw error;
+          const skipped: SkippedWork = {
+            stage: "evidence",
+            id: call.providerCallId,
+            title: call.title,
+            reason: error.message,
+          };
+          return { quotes: [], claims: [], skipped: [skipped] };
+        }
+      })
+    );
 
-  async extractFromCalls(calls: CanonicalCall[]): Promise<{ quotes: QuoteEvidence[]; claims: QuantClaim[] }> {
+    return {
+      quotes: dedupeQuotes(results.flatMap((result) => result.quotes)),
+      claims: dedupeClaims(results.flatMap((result) => result.claims)),
+      skipped: results.flatMap((result) => result.skipped),
+    };
+  }
+
+  /**
+   * Runs extraction over each window of the call and merges the results: evidence found twice
+   * where windows overlap is kept once, and the per-request limits scale with the window count.
+   */
+  private async extractFromCall(call: CanonicalCall): Promise<{ quotes: QuoteEvidence[]; claims: QuantClaim[] }> {
+    const windowOptions = {
+      maxTokens: this.options.windowTokens ?? DEFAULT_WINDOW_TOKENS,
+      overlapTokens: this.options.windowOverlapTokens ?? DEFAULT_WINDOW_OVERLAP_TOKENS,
+    };
+    const windows = splitTranscriptWindows(call, windowOptions);
+    const responses = await this.windowResponses(call, windows, {
+      transcriptHash: hashTranscript(call.transcriptText),
+      llmProvider: this.llm.provider,
+      model: this.llm.model,
+      promptVersion: EXTRACTION_PROMPT_VERSION,
+      windowTokens: windowOptions.maxTokens,
+      windowOverlapTokens: windowOptions.overlapTokens,
+    });
+    const minSimilarity = this.options.minQuoteSimilarity ?? DEFAULT_MIN_QUOTE_SIMILARITY;
+    const numbers = { locale: this.options.numberLocale };
+    const cite = createCitationLocator(call);
     const quotes: QuoteEvidence[] = [];
     const claims: QuantClaim[] = [];
 
-    for (const call of calls) {
-      const response = await this.openai.chat.completions.create({
-        model: this.model,
+    for (const [index, window] of windows.entries()) {
+      const parsed = safeParseExtraction(responses[index], call.providerCallId);
+      // Matches are found in the window and shifted to offsets in the whole transcript.
+      const locate = (text: string): VerbatimMatch | null => {
+        const match = findVerbatimSpan(text, window.text, minSimilarity);
+        return match ? { ...match, start: match.start + window.start, end: match.end + window.start } : null;
+      };
+
+      quotes.push(
+        ...parsed.quotes.flatMap((q) => {
+          const match = locate(q.quote);
+          return match ? [withQuoteAttribution(q, match, cite(match.start, match.end), call)] : [];
+        })
+      );
+
+      claims.push(
+        ...parsed.claims.flatMap((c) => {
+          const hasNumber = [c.claim, c.value, c.evidenceQuote].some((text) => hasQuantity(text, numbers));
+          const match = hasNumber ? locate(c.evidenceQuote) : null;
+          return match ? [withClaimAttribution(c, match, cite(match.start, match.end), call, numbers)] : [];
+        })
+      );
+    }
+
+    const speakers = this.options.speakers ?? "customer";
+    if (windows.length === 1) {
+      return { quotes: evidenceFrom(quotes, speakers), claims: evidenceFrom(claims, speakers) };
+    }
+
+    // Internal statements are dropped before the cap so they do not crowd out the customer's.
+    return {
+      quotes: keepMostConfident(
+        dropOverlapping(evidenceFrom(quotes, speakers), (q) => q.verbatim, () => true),
+        (q) => q.verbatim,
+        MAX_QUOTES_PER_WINDOW * windows.length
+      ),
+      claims: keepMostConfident(
+        dropOverlapping(evidenceFrom(claims, speakers), (c) => c.evidenceVerbatim, (a, b) => a.value.toLowerCase() === b.value.toLowerCase()),
+        (c) => c.evidenceVerbatim,
+        MAX_CLAIMS_PER_WINDOW * windows.length
+      ),
+    };
+  }
+
+  /** The model's response for each window, from the cache when this transcript was extracted before. */
+  private async windowResponses(
+    call: CanonicalCall,
+    windows: TranscriptWindow[],
+    key: ExtractionCacheKey
+  ): Promise<string[]> {
+    const cache = this.options.cache;
+    const cached = cache ? await cache.get(key) : null;
+    if (cached && cached.responses.length === windows.length) return cached.responses;
+
+    const responses: string[] = [];
+    for (const [index, window] of windows.entries()) {
+      const response = await this.llm.chat({
+        task: "extract-evidence",
         temperature: 0,
-        response_format: { type: "json_object" },
+        json: true,
+        maxTokens: MAX_EXTRACTION_OUTPUT_TOKENS,
         messages: [
           { role: "system", content: EXTRACTION_PROMPT },
-          {
-            role: "user",
-            content: `Call ID: ${call.providerCallId}\nTitle: ${call.title}\nDate: ${call.occurredAt}\n\nTranscript:\n${call.transcriptText}`,
-          },
+          { role: "user", content: windowPrompt(call, window, index, windows.length) },
         ],
       });
+      responses.push(response.content || EMPTY_EXTRACTION);
+    }
+
+    await cache?.put({
+      key,
+      source: { provider: call.provider, providerCallId: call.providerCallId, title: call.title },
+      createdAt: new Date().toISOString(),
+      responses,
+    });
+    return responses;
+  }
+}
 
-      const content = response.choices[0]?.message?.content ?? "{\"quotes\":[],\"claims\":[]}";
-      const parsed = safeParseExtraction(content, call.providerCallId);
-
-      const validatedQuotes = parsed.quotes
-        .filter((q) => quoteAppearsInTranscript(q.quote, call.transcriptText))
-        .map((q) => withQuoteAttribution(q, call));
-
-      const validatedClaims = parsed.claims
-        .filter((c) => {
-          const hasNumber =
-            NUMERIC_PATTERN.test(c.claim) ||
-            NUMERIC_PATTERN.test(c.value) ||
-            NUMERIC_PATTERN.test(c.evidenceQuote);
-          const evidencePresent = quoteAppearsInTranscript(c.evidenceQuote, call.transcriptText);
-          return hasNumber && evidencePresent;
+/** Same digest providers store as `metadata.transcriptHash`, taken after fusion may have rewritten the text. */
+function hashTranscript(text: string): string {
+  return createHash("sha1").update(text).digest("hex");
+}
+
+function windowPrompt(call: CanonicalCall, window: TranscriptWindow, index: number, count: number): string {
+  const part =
+    count > 1
+      ? fillTemplate(WINDOW_PART_TEMPLATE, {
+          number: String(index + 1),
+          count: String(count),
+          continues: WINDOW_PART_CONTINUES[index === 0 ? "first" : index === count - 1 ? "last" : "middle"],
         })
-        .map((c) => withClaimAttribution(c, call));
+      : "";
+  return fillTemplate(WINDOW_PROMPT_TEMPLATE, {
+    callId: call.providerCallId,
+    title: call.title,
+    date: call.occurredAt,
+    part,
+    transcript: window.text,
+  });
+}
 
-      quotes.push(...validatedQuotes);
-      claims.push(...validatedClaims);
-    }
+/** Replaces `{name}` placeholders in one pass, so braces in the values are left alone. */
+function fillTemplate(template: string, values: Record<string, string>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+}
 
-    return {
-      quotes: dedupeQuotes(quotes),
-      claims: dedupeClaims(claims),
-    };
+/**
+ * Drops items whose transcript span mostly overlaps (by more than half of the shorter span) that
+ * of a more confident item, as happens when neighbouring windows both see the same passage.
+ */
+function dropOverlapping<T extends { confidence: number }>(
+  items: T[],
+  spanOf: (item: T) => TranscriptSpan,
+  sameEvidence: (a: T, b: T) => boolean
+): T[] {
+  const kept: T[] = [];
+  for (const item of [...items].sort((a, b) => b.confidence - a.confidence)) {
+    const span = spanOf(item);
+    const duplicate = kept.some((other) => {
+      const otherSpan = spanOf(other);
+      const overlap = Math.min(span.end, otherSpan.end) - Math.max(span.start, otherSpan.start);
+      const shorter = Math.min(span.end - span.start, otherSpan.end - otherSpan.start);
+      return overlap > shorter / 2 && sameEvidence(item, other);
+    });
+    if (!duplicate) kept.push(item);
   }
+  return kept;
+}
+
+/** The `limit` most confident items, back in transcript order. */
+function keepMostConfident<T extends { confidence: number }>(
+  items: T[],
+  spanOf: (item: T) => TranscriptSpan,
+  limit: number
+): T[] {
+  return [...items]
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, limit)
+    .sort((a, b) => spanOf(a).start - spanOf(b).start);
 }
 
-function withQuoteAttribution(raw: RawQuote, call: CanonicalCall): QuoteEvidence {
-  const segmentMatch = findSegmentForText(call, raw.quote);
+function withQuoteAttribution(
+  raw: RawQuote,
+  match: VerbatimMatch,
+  citation: EvidenceCitation,
+  call: CanonicalCall
+): QuoteEvidence {
+  const firstSegment = citation.segmentIndices.length > 0 ? call.segments[citation.segmentIndices[0]] : null;
   return {
-    quote: raw.quote,
-    speaker: raw.speaker ?? segmentMatch?.speaker ?? null,
+    quote: match.text,
+    speaker: raw.speaker ?? firstSegment?.speaker ?? null,
+    speakerAffiliation: citedAffiliation(call, citation.segmentIndices),
     metricValue: raw.metricValue,
     metricType: raw.metricType,
     reason: raw.reason,
-    sourceCallId: raw.sourceCallId || call.providerCallId,
+    sourceCallId: call.providerCallId,
     sourceCallTitle: call.title,
     sourceCallDate: call.occurredAt,
-    sourceTimestampMs: raw.sourceTimestampMs ?? segmentMatch?.startMs ?? null,
+    sourceTimestampMs: citation.startMs ?? raw.sourceTimestampMs,
     confidence: raw.confidence,
+    verbatim: spanOf(match),
+    citation,
   };
 }
 
-function withClaimAttribution(raw: RawClaim, call: CanonicalCall): QuantClaim {
-  const segmentMatch = findSegmentForText(call, raw.evidenceQuote);
+function withClaimAttribution(
+  raw: RawClaim,
+  match: VerbatimMatch,
+  citation: EvidenceCitation,
+  call: CanonicalCall,
+  numbers: QuantityOptions
+): QuantClaim {
   return {
     claim: raw.claim,
     claimType: raw.claimType,
     value: raw.value,
     unit: raw.unit,
-    sourceCallId: raw.sourceCallId || call.providerCallId,
+    sourceCallId: call.providerCallId,
     sourceCallTitle: call.title,
     sourceCallDate: call.occurredAt,
-    sourceTimestampMs: raw.sourceTimestampMs ?? segmentMatch?.startMs ?? null,
-    evidenceQuote: raw.evidenceQuote,
+    sourceTimestampMs: citation.startMs ?? raw.sourceTimestampMs,
+    evidenceQuote: match.text,
     confidence: raw.confidence,
+    evidenceVerbatim: spanOf(match),
+    citation,
+    speakerAffiliation: citedAffiliation(call, citation.segmentIndices),
+    normalized: normalizeClaimValue({ ...raw, evidenceQuote: match.text }, numbers),
   };
 }
 
-function findSegmentForText(call: CanonicalCall, text: string) {
-  const needle = normalize(text);
-  if (needle.length < 12) return null;
-  return (
-    call.segments.find((seg) => normalize(seg.text).includes(needle) || needle.includes(normalize(seg.text))) ?? null
-  );
-}
-
-function quoteAppearsInTranscript(quote: string, transcript: string): boolean {
-  const normalizedQuote = normalize(quote);
-  const normalizedTranscript = normalize(transcript);
-  return normalizedQuote.length >= 16 && normalizedTranscript.includes(normalizedQuote);
-}
-
-function normalize(text: string): string {
-  return text.replace(/\s+/g, " ").trim().toLowerCase();
+function spanOf(match: VerbatimMatch): TranscriptSpan {
+  return { start: match.start, end: match.end, score: match.score };
 }
 
 function safeParseExtraction(content: string, fallbackCallId: string): { quotes: RawQuote[]; claims: RawClaim[] } {
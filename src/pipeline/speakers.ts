@@ -0,0 +1,113 @@
+import type { CallParticipant, CanonicalCall, EvidenceSpeakers, SpeakerAffiliation } from "../types/domain.js";
+
+export interface SpeakerOptions {
+  /** Email domains of the vendor's own people (INTERNAL_EMAIL_DOMAINS), lowercase. */
+  internalDomains?: string[];
+}
+
+/**
+ * Tags each participant and segment of a call as internal (the vendor's own people), external
+ * (the customer) or unknown. A participant keeps an affiliation its provider reported (Gong's
+ * `affiliation`); otherwise it is read from the email domain. Domains of participants the
+ * provider marked internal count as internal too, so calls without INTERNAL_EMAIL_DOMAINS still
+ * classify everyone with an email. Segments take the affiliation of the participant whose name
+ * or email matches the speaker; "Dana Scott" also matches dana.scott@, dscott@ or dana@.
+ */
+export function classifySpeakers(call: CanonicalCall, options: SpeakerOptions = {}): CanonicalCall {
+  const internalDomains = new Set(options.internalDomains ?? []);
+  for (const participant of call.participants) {
+    const domain = emailDomain(participant.email);
+    if (participant.affiliation === "internal" && domain) internalDomains.add(domain);
+  }
+
+  const participants = call.participants.map((participant) => ({
+    ...participant,
+    affiliation: participantAffiliation(participant, internalDomains),
+  }));
+  const bySpeaker = new Map<string, SpeakerAffiliation>();
+  const affiliationOf = (speaker: string | null): SpeakerAffiliation => {
+    if (!speaker) return "unknown";
+    let affiliation = bySpeaker.get(speaker);
+    if (!affiliation) {
+      affiliation = matchParticipant(speaker, participants)?.affiliation ?? "unknown";
+      bySpeaker.set(speaker, affiliation);
+    }
+    return affiliation;
+  };
+
+  return {
+    ...call,
+    participants,
+    segments: call.segments.map((segment) => ({ ...segment, affiliation: affiliationOf(segment.speaker) })),
+  };
+}
+
+/** The affiliation shared by every cited segment; unknown when they differ or none are cited. */
+export function citedAffiliation(call: CanonicalCall, segmentIndices: number[]): SpeakerAffiliation {
+  const affiliations = new Set(segmentIndices.map((index) => call.segments[index]?.affiliation ?? "unknown"));
+  return affiliations.size === 1 ? [...affiliations][0] : "unknown";
+}
+
+/** The items a story or output may use; "customer" drops evidence spoken by internal speakers. */
+export function evidenceFrom<T extends { speakerAffiliation: SpeakerAffiliation }>(
+  items: T[],
+  speakers: EvidenceSpeakers
+): T[] {
+  return speakers === "all" ? items : items.filter((item) => item.speakerAffiliation !== "internal");
+}
+
+function participantAffiliation(participant: CallParticipant, internalDomains: Set<string>): SpeakerAffiliation {
+  if (participant.affiliation && participant.affiliation !== "unknown") return participant.affiliation;
+  const domain = emailDomain(participant.email);
+  if (!domain || internalDomains.size === 0) return "unknown";
+  return internalDomains.has(domain) ? "internal" : "external";
+}
+
+/** The one participant the speaker label names, by name, email or a name-shaped email; null when ambiguous. */
+function matchParticipant(speaker: string, participants: CallParticipant[]): CallParticipant | null {
+  const label = normalizeName(speaker);
+  const byName = participants.filter(
+    (participant) =>
+      (participant.name && normalizeName(participant.name) === label) ||
+      participant.email?.toLowerCase() === speaker.trim().toLowerCase()
+  );
+  if (byName.length > 0) return byName.length === 1 ? byName[0] : null;
+
+  const local = emailLocalParts(label);
+  const byEmail = participants.filter(
+    (participant) => participant.email && local.has(normalizeLocalPart(participant.email))
+  );
+  return byEmail.length === 1 ? byEmail[0] : null;
+}
+
+/** Local parts a person's email commonly takes: dana.scott, danascott, dscott, danas, dana. */
+function emailLocalParts(name: string): Set<string> {
+  const words = name.split(" ").filter(Boolean);
+  if (words.length === 0) return new Set();
+  const [first, last] = [words[0], words[words.length - 1]];
+  const parts = new Set([first, words.join("")]);
+  if (words.length > 1) {
+    parts.add(`${first[0]}${last}`);
+    parts.add(`${first}${last[0]}`);
+    parts.add(`${first}${last}`);
+  }
+  return parts;
+}
+
+function normalizeName(name: string): string {
+  return name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/** "Dana.Scott+crm@acme.com" -> "danascott". */
+function normalizeLocalPart(email: string): string {
+  return normalizeName(email.split("@")[0].split("+")[0]).replace(/ /g, "");
+}
+
+function emailDomain(email: string | null): string | null {
+  return email?.split("@")[1]?.trim().toLowerCase() || null;
+}
@@ -0,0 +1,127 @@
+/**
+ * Locates a quote in a transcript by aligning words rather than matching characters, so quotes
+ * survive the edits models make when copying: fixed punctuation or casing, a dropped "um", two
+ * sentences run together.
+ */
+
+/** Where a quote was found: the exact transcript wording and its character range. */
+export interface VerbatimMatch {
+  text: string;
+  /** Offsets into the transcript; `end` is exclusive. */
+  start: number;
+  end: number;
+  /** 1 for a word-for-word match, lower as more words differ. */
+  score: number;
+}
+
+interface WordToken {
+  key: string;
+  start: number;
+  end: number;
+  filler: boolean;
+}
+
+export const DEFAULT_MIN_QUOTE_SIMILARITY = 0.85;
+
+const MIN_QUOTE_CHARS = 16;
+const WORD = /[$£€]?[\p{L}\p{N}]+(?:['’.,:][\p{L}\p{N}]+)*%?/gu;
+const FILLERS = new Set(["um", "umm", "uh", "uhh", "er", "erm", "hmm", "mm", "ah"]);
+const CLOSING_PUNCTUATION = /^[.!?"'”’)\]]+/;
+
+/**
+ * Finds the transcript span whose words best match the quote's, with filler words skipped on
+ * either side. Returns null for very short quotes and when the best span scores below
+ * `minSimilarity`.
+ */
+export function findVerbatimSpan(
+  quote: string,
+  transcript: string,
+  minSimilarity = DEFAULT_MIN_QUOTE_SIMILARITY
+): VerbatimMatch | null {
+  if (quote.replace(/\s+/g, " ").trim().length < MIN_QUOTE_CHARS) return null;
+
+  const needle = wordTokens(quote).filter((token) => !token.filler);
+  const haystack = wordTokens(transcript);
+  if (needle.length === 0 || haystack.length === 0) return null;
+
+  const alignment = alignQuote(needle, haystack);
+  if (!alignment) return null;
+
+  const spanWords = haystack.slice(alignment.first, alignment.last + 1).filter((token) => !token.filler).length;
+  const score = 1 - alignment.distance / Math.max(needle.length, spanWords);
+  if (score < minSimilarity) return null;
+
+  const start = haystack[alignment.first].start;
+  let end = haystack[alignment.last].end;
+  if (CLOSING_PUNCTUATION.test(quote.trim().slice(-1))) {
+    end += CLOSING_PUNCTUATION.exec(transcript.slice(end))?.[0].length ?? 0;
+  }
+
+  return { text: transcript.slice(start, end), start, end, score: Math.round(score * 1000) / 1000 };
+}
+
+/**
+ * Edit distance between the quote and the closest run of transcript words, free to start and end
+ * anywhere in the transcript. Transcript fillers can be skipped at no cost.
+ */
+function alignQuote(
+  needle: WordToken[],
+  haystack: WordToken[]
+): { first: number; last: number; distance: number } | null {
+  const rows = needle.length;
+  const cols = haystack.length;
+  // cost[j] / origin[j]: best distance for the quote prefix ending at transcript word j - 1, and
+  // the transcript word that alignment started from.
+  let cost = new Int32Array(cols + 1);
+  let origin = Int32Array.from({ length: cols + 1 }, (_, j) => j);
+  let nextCost = new Int32Array(cols + 1);
+  let nextOrigin = new Int32Array(cols + 1);
+
+  for (let i = 1; i <= rows; i += 1) {
+    nextCost[0] = i;
+    nextOrigin[0] = 0;
+    for (let j = 1; j <= cols; j += 1) {
+      const word = haystack[j - 1];
+      const substitute = cost[j - 1] + (word.key === needle[i - 1].key ? 0 : 1);
+      const skipQuoteWord = cost[j] + 1;
+      const skipTranscriptWord = nextCost[j - 1] + (word.filler ? 0 : 1);
+
+      if (substitute <= skipQuoteWord && substitute <= skipTranscriptWord) {
+        nextCost[j] = substitute;
+        nextOrigin[j] = origin[j - 1];
+      } else if (skipQuoteWord <= skipTranscriptWord) {
+        nextCost[j] = skipQuoteWord;
+        nextOrigin[j] = origin[j];
+      } else {
+        nextCost[j] = skipTranscriptWord;
+        nextOrigin[j] = nextOrigin[j - 1];
+      }
+    }
+    [cost, nextCost] = [nextCost, cost];
+    [origin, nextOrigin] = [nextOrigin, origin];
+  }
+
+  let best = -1;
+  for (let j = 1; j <= cols; j += 1) {
+    if (best === -1 || cost[j] < cost[best]) best = j;
+  }
+  if (best === -1) return null;
+
+  let first = origin[best];
+  let last = best - 1;
+  // Fillers at the edges of the span are not part of the quote.
+  while (first < last && haystack[first].filler) first += 1;
+  while (last > first && haystack[last].filler) last -= 1;
+  if (first > last) return null;
+
+  return { first, last, distance: cost[best] };
+}
+
+function wordTokens(text: string): WordToken[] {
+  const tokens: WordToken[] = [];
+  for (const match of text.matchAll(WORD)) {
+    const key = match[0].toLowerCase().replace(/’/g, "'");
+    tokens.push({ key, start: match.index, end: match.index + match[0].length, filler: FILLERS.has(key) });
+  }
+  return tokens;
+}
@@ -0,0 +1,89 @@
+import { CHARS_PER_TOKEN } from "../llm/tokens.js";
+import type { CanonicalCall } from "../types/domain.js";
+import { locateSegments } from "./citations.js";
+
+/** A stretch of a call's transcript sent to the model on its own; `end` is exclusive. */
+export interface TranscriptWindow {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface WindowOptions {
+  maxTokens: number;
+  /** How much of the previous window each window repeats, so evidence on a boundary is seen whole. */
+  overlapTokens: number;
+}
+
+const SENTENCE_END = /[.!?]["')\]]*\s+/g;
+
+/**
+ * Splits a call's transcript into windows of at most `maxTokens` (estimated) that start and end
+ * on segment boundaries, or on line breaks when the segments cannot be placed in the transcript.
+ * A single turn longer than a window is split between sentences. Short transcripts come back as
+ * one window.
+ */
+export function splitTranscriptWindows(call: CanonicalCall, options: WindowOptions): TranscriptWindow[] {
+  const text = call.transcriptText;
+  const maxChars = Math.max(1, options.maxTokens * CHARS_PER_TOKEN);
+  if (text.length <= maxChars) {
+    return [{ start: 0, end: text.length, text }];
+  }
+
+  const overlapChars = Math.max(0, options.overlapTokens * CHARS_PER_TOKEN);
+  const boundaries = splitLongUnits(text, unitBoundaries(call), maxChars);
+  const windows: TranscriptWindow[] = [];
+
+  let first = 0;
+  while (first < boundaries.length) {
+    const start = boundaries[first];
+    // Units first..next-1 go in this window; the first always does, even when it is oversized.
+    let next = first + 1;
+    while (next < boundaries.length && (boundaries[next + 1] ?? text.length) - start <= maxChars) next += 1;
+    const end = next < boundaries.length ? boundaries[next] : text.length;
+    windows.push({ start, end, text: text.slice(start, end) });
+    if (next >= boundaries.length) break;
+
+    // Step back over whole units while they fit in the overlap, always moving forward.
+    let overlapFrom = next;
+    while (overlapFrom - 1 > first && end - boundaries[overlapFrom - 1] <= overlapChars) overlapFrom -= 1;
+    first = overlapFrom;
+  }
+
+  return windows;
+}
+
+/** Where each segment's line starts (so speaker labels stay with their text), or each line. */
+function unitBoundaries(call: CanonicalCall): number[] {
+  const text = call.transcriptText;
+  const ranges = locateSegments(call);
+  const starts =
+    ranges.length > 0 && ranges.length === call.segments.filter((segment) => segment.text.trim()).length
+      ? ranges.map((range) => text.lastIndexOf("\n", range.start - 1) + 1)
+      : [...text.matchAll(/\n/g)].map((match) => match.index + 1);
+
+  return [...new Set([0, ...starts])].filter((start) => start < text.length).sort((a, b) => a - b);
+}
+
+/** Adds sentence (or, failing that, whitespace) boundaries inside units longer than a window. */
+function splitLongUnits(text: string, boundaries: number[], maxChars: number): number[] {
+  const result: number[] = [];
+  boundaries.forEach((start, index) => {
+    const end = boundaries[index + 1] ?? text.length;
+    let pieceStart = start;
+    result.push(start);
+
+    while (end - pieceStart > maxChars) {
+      const limit = pieceStart + maxChars;
+      let cut = -1;
+      for (const match of text.slice(pieceStart, limit).matchAll(SENTENCE_END)) {
+        cut = pieceStart + match.index + match[0].length;
+      }
+      if (cut <= pieceStart) cut = text.lastIndexOf(" ", limit) + 1;
+      if (cut <= pieceStart) cut = limit;
+      result.push(cut);
+      pieceStart = cut;
+    }
+  });
+  return result;
+}
@@ -1,3 +1,5 @@
+import type { EvidenceSpeakers } from "../types/domain.js";
+
 export type UseCaseStage =
   | "TOFU"
   | "MOFU"
@@ -40,6 +42,8 @@ export interface UseCaseSpec {
   forbiddenMoves: string[];
   minimumQuoteCount: number;
   minimumClaimCount: number;
+  /** "customer" leaves out quotes and claims spoken by the vendor's own team. */
+  evidenceSpeakers: EvidenceSpeakers;
 }
 
 export interface UseCaseDefinition {
@@ -77,7 +81,7 @@ const COMMON_FORBIDDEN_MOVES = [
   "Do not attribute quotes to named speakers unless attribution evidence exists.",
 ];
 
-const STAGE_PROFILE: Record<UseCaseStage, Omit<UseCaseSpec, "objective" | "narrativeAngle">> = {
+const STAGE_PROFILE: Record<UseCaseStage, Omit<UseCaseSpec, "objective" | "narrativeAngle" | "evidenceSpeakers">> = {
   TOFU: {
     primaryAudience: ["Product Marketing", "Content Marketing", "Demand Generation"],
     backendPromptTemplate:
@@ -267,6 +271,10 @@ const USE_CASE_OVERRIDES: Record<string, UseCaseOverride> = {
     requiredEvidenceSignals: ["quant_claim", "risk_control", "timeline", "stakeholder_perspective"],
     minimumClaimCount: 4,
   },
+  sales_enablement: {
+    // Objection handling and deal strategy draw on what our own reps said, not only the customer.
+    evidenceSpeakers: "all",
+  },
 };
 
 const USE_CASE_SEEDS: UseCaseSeed[] = [
@@ -332,6 +340,7 @@ export const USE_CASES: UseCaseDefinition[] = USE_CASE_SEEDS.map((seed) => {
   const override = USE_CASE_OVERRIDES[seed.id] ?? {};
 
   const spec: UseCaseSpec = {
+    evidenceSpeakers: "customer",
     ...stageProfile,
     objective:
       override.objective ??
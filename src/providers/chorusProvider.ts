@@ -0,0 +1,407 @@
+import { createHash } from "node:crypto";
+import { z } from "zod";
+import {
+  accountIdFromName,
+  companyNameFromEmail,
+  normalizeAccountName,
+  parseCommaSeparated,
+  uniqueAccountCandidates,
+} from "./account-utils.js";
+import { ProviderHttpClient, ProviderNotFoundError } from "./httpClient.js";
+import type { HttpClientOptions } from "./httpClient.js";
+import type {
+  CanonicalCall,
+  CallProvider,
+  DiscoveredAccount,
+  ProviderFetchInput,
+  ProviderSyncInput,
+  ProviderSyncPage,
+} from "../types/domain.js";
+
+const ChorusParticipantSchema = z.object({
+  name: z.string().nullable().optional(),
+  email: z.string().nullable().optional(),
+  type: z.string().nullable().optional(),
+  company_name: z.string().nullable().optional(),
+});
+
+const ChorusEngagementSchema = z.object({
+  engagement_id: z.string(),
+  subject: z.string().nullable().optional(),
+  date_time: z.union([z.number(), z.string()]).nullable().optional(),
+  duration: z.number().nullable().optional(),
+  url: z.string().nullable().optional(),
+  user_email: z.string().nullable().optional(),
+  no_show: z.boolean().nullable().optional(),
+  account_name: z.string().nullable().optional(),
+  account_id: z.string().nullable().optional(),
+  opportunity_name: z.string().nullable().optional(),
+  participants: z.array(ChorusParticipantSchema).nullable().optional(),
+});
+
+const ChorusEngagementsResponseSchema = z.object({
+  engagements: z.array(ChorusEngagementSchema).default([]),
+  continuation_key: z.string().nullable().optional(),
+});
+
+const ChorusUtteranceSchema = z.object({
+  speaker_name: z.string().nullable().optional(),
+  speaker_type: z.string().nullable().optional(),
+  snippet: z.string().nullable().optional(),
+  snippet_time: z.number().nullable().optional(),
+  snippet_duration: z.number().nullable().optional(),
+});
+
+const ChorusConversationResponseSchema = z.object({
+  data: z.object({
+    id: z.string().optional(),
+    attributes: z
+      .object({
+        recording: z
+          .object({
+            utterances: z.array(ChorusUtteranceSchema).nullable().optional(),
+          })
+          .nullable()
+          .optional(),
+      })
+      .optional(),
+  }),
+});
+
+interface ChorusProviderConfig {
+  apiToken: string;
+  baseUrl: string;
+  internalDomains?: string;
+  http?: Omit<HttpClientOptions, "provider" | "authHint">;
+}
+
+type ChorusEngagement = z.infer<typeof ChorusEngagementSchema>;
+
+interface FetchedChorusCall {
+  engagement: ChorusEngagement;
+  transcriptText: string;
+  segments: CanonicalCall["segments"];
+  derivedAccountName: string;
+}
+
+interface FetchedChorusPage {
+  rows: FetchedChorusCall[];
+  cursor: string | null;
+  complete: boolean;
+}
+
+// Participant types Chorus assigns to people on the recording team's side.
+const INTERNAL_PARTICIPANT_TYPES = new Set(["rep", "internal", "host"]);
+
+export class ChorusProvider implements CallProvider {
+  readonly name = "chorus";
+
+  private readonly internalDomains: Set<string>;
+  private readonly http: ProviderHttpClient;
+
+  constructor(private readonly config: ChorusProviderConfig) {
+    this.internalDomains = new Set(parseCommaSeparated(config.internalDomains));
+    this.http = new ProviderHttpClient({
+      ...config.http,
+      provider: "Chorus",
+      authHint: "Check CHORUS_API_TOKEN.",
+    });
+  }
+
+  async fetchCalls(input: ProviderFetchInput): Promise<CanonicalCall[]> {
+    const { rows } = await this.fetchAndDerive(input);
+    const normalizedTarget = input.accountName
+      ? normalizeAccountName(input.accountName)
+      : null;
+
+    const filtered = normalizedTarget
+      ? rows.filter((row) => normalizeAccountName(row.derivedAccountName) === normalizedTarget)
+      : rows;
+
+    const maxCalls = input.maxCalls ?? filtered.length;
+
+    return filtered
+      .slice(0, maxCalls)
+      .map((row) => this.toCanonicalCall(row))
+      .sort((a, b) => a.occurredAt.localeCompare(b.occurredAt));
+  }
+
+  async syncCalls(input: ProviderSyncInput): Promise<ProviderSyncPage> {
+    const page = await this.fetchAndDerive(input, input.cursor ?? null);
+    return {
+      calls: page.rows
+        .map((row) => this.toCanonicalCall(row))
+        .sort((a, b) => a.occurredAt.localeCompare(b.occurredAt)),
+      cursor: page.cursor,
+      complete: page.complete,
+    };
+  }
+
+  async discoverAccounts(input: ProviderFetchInput): Promise<DiscoveredAccount[]> {
+    const maxCalls = input.maxCalls ?? 1200;
+    const counter = new Map<string, { name: string; count: number }>();
+    let cursor: string | null = null;
+    let seen = 0;
+
+    // Engagement listings already carry CRM and participant fields; no transcript requests needed.
+    while (seen < maxCalls) {
+      const payload = await this.requestEngagements(input, cursor);
+
+      for (const engagement of payload.engagements.slice(0, maxCalls - seen)) {
+        seen += 1;
+        if (!mayHaveTranscript(engagement)) continue;
+
+        const derivedAccountName = resolveEngagementAccountName(engagement, this.internalDomains);
+        const normalized = normalizeAccountName(derivedAccountName);
+        const current = counter.get(normalized);
+        if (!current) {
+          counter.set(normalized, { name: derivedAccountName, count: 1 });
+        } else {
+          current.count += 1;
+        }
+      }
+
+      if (!payload.continuation_key || payload.engagements.length === 0) {
+        break;
+      }
+      cursor = payload.continuation_key;
+    }
+
+    return [...counter.entries()]
+      .map(([normalizedName, value]) => ({
+        name: value.name,
+        normalizedName,
+        source: "chorus",
+        callCount: value.count,
+      }))
+      .sort((a, b) => b.callCount - a.callCount || a.name.localeCompare(b.name));
+  }
+
+  private async fetchAndDerive(
+    input: ProviderFetchInput,
+    startCursor: string | null = null
+  ): Promise<FetchedChorusPage> {
+    const rows: FetchedChorusCall[] = [];
+    const maxCalls = input.maxCalls ?? 500;
+    let cursor: string | null = startCursor;
+    let complete = false;
+
+    // Pages are always consumed whole so the returned cursor can resume exactly where we stopped.
+    while (true) {
+      const payload = await this.requestEngagements(input, cursor);
+      const engagements = payload.engagements.filter(mayHaveTranscript);
+      const transcripts = await Promise.all(
+        engagements.map((engagement) => this.getTranscript(engagement.engagement_id))
+      );
+
+      for (const [index, engagement] of engagements.entries()) {
+        const transcript = transcripts[index];
+        if (!transcript.transcriptText.trim()) {
+          continue;
+        }
+
+        rows.push({
+          engagement,
+          transcriptText: transcript.transcriptText,
+          segments: transcript.segments,
+          derivedAccountName: resolveEngagementAccountName(engagement, this.internalDomains),
+        });
+      }
+
+      if (!payload.continuation_key || payload.engagements.length === 0) {
+        complete = true;
+        break;
+      }
+      cursor = payload.continuation_key;
+
+      if (rows.length >= maxCalls) {
+        break;
+      }
+    }
+
+    return { rows, cursor: complete ? null : cursor, complete };
+  }
+
+  private async requestEngagements(
+    input: ProviderFetchInput,
+    cursor: string | null
+  ): Promise<z.infer<typeof ChorusEngagementsResponseSchema>> {
+    const params = new URLSearchParams();
+    if (input.fromDate) params.set("min_date", toIso(input.fromDate, false));
+    if (input.toDate) params.set("max_date", toIso(input.toDate, true));
+    if (cursor) params.set("continuation_key", cursor);
+
+    return ChorusEngagementsResponseSchema.parse(
+      await this.request(`/v3/engagements?${params.toString()}`, "engagements fetch")
+    );
+  }
+
+  private async getTranscript(
+    engagementId: string
+  ): Promise<{ transcriptText: string; segments: CanonicalCall["segments"] }> {
+    let raw: unknown;
+    try {
+      raw = await this.request(
+        `/api/v1/conversations/${encodeURIComponent(engagementId)}`,
+        "transcript fetch"
+      );
+    } catch (error) {
+      // Engagements are listed before their transcript finishes processing.
+      if (error instanceof ProviderNotFoundError) {
+        return { transcriptText: "", segments: [] };
+      }
+      throw error;
+    }
+
+    const payload = ChorusConversationResponseSchema.parse(raw);
+
+    return parseChorusUtterances(payload.data.attributes?.recording?.utterances ?? []);
+  }
+
+  private async request(pathAndQuery: string, operation: string): Promise<unknown> {
+    return this.http.requestJson(`${this.config.baseUrl.replace(/\/$/, "")}${pathAndQuery}`, {
+      operation,
+      method: "GET",
+      headers: {
+        // Chorus expects the raw API token, without a scheme.
+        Authorization: this.config.apiToken,
+        "Content-Type": "application/json",
+      },
+    });
+  }
+
+  private toCanonicalCall(row: FetchedChorusCall): CanonicalCall {
+    const owner = row.engagement.user_email?.toLowerCase() ?? null;
+
+    return {
+      provider: "chorus",
+      providerCallId: row.engagement.engagement_id,
+      accountId: accountIdFromName(row.derivedAccountName),
+      accountName: row.derivedAccountName,
+      title: row.engagement.subject?.trim() || `Call ${row.engagement.engagement_id}`,
+      occurredAt: toOccurredAt(row.engagement.date_time),
+      durationSeconds: row.engagement.duration != null ? Math.round(row.engagement.duration) : null,
+      participants: (row.engagement.participants ?? []).map((participant) => {
+        const email = participant.email?.toLowerCase() ?? null;
+        return {
+          name: participant.name ?? null,
+          email,
+          role: email && email === owner ? ("host" as const) : ("participant" as const),
+        };
+      }),
+      transcriptText: row.transcriptText,
+      segments: row.segments,
+      metadata: {
+        chorusEngagementId: row.engagement.engagement_id,
+        recordingUrl: row.engagement.url ?? null,
+        crmAccountId: row.engagement.account_id ?? null,
+        transcriptHash: hashText(row.transcriptText),
+        accountCandidates: extractAccountNamesFromEngagement(row.engagement, this.internalDomains),
+      },
+    };
+  }
+}
+
+function parseChorusUtterances(
+  utterances: Array<z.infer<typeof ChorusUtteranceSchema>>
+): { transcriptText: string; segments: CanonicalCall["segments"] } {
+  const ordered = [...utterances].sort((a, b) => (a.snippet_time ?? 0) - (b.snippet_time ?? 0));
+
+  const segments = ordered
+    .map((utterance, index) => {
+      const text = utterance.snippet?.trim();
+      if (!text) return null;
+
+      const startMs = secondsToMs(utterance.snippet_time);
+      // Utterances only carry a start; the next one's start closes the current one.
+      const endMs =
+        utterance.snippet_duration != null && startMs != null
+          ? startMs + Math.round(utterance.snippet_duration * 1000)
+          : secondsToMs(ordered[index + 1]?.snippet_time);
+
+      return {
+        speaker: utterance.speaker_name?.trim() || null,
+        text,
+        startMs,
+        endMs,
+      };
+    })
+    .filter((value): value is NonNullable<typeof value> => value !== null);
+
+  const transcriptText = segments
+    .map((segment) => (segment.speaker ? `${segment.speaker}: ${segment.text}` : segment.text))
+    .join("\n");
+
+  return { transcriptText, segments };
+}
+
+/** Cheap metadata check: no-shows and zero-length engagements were never transcribed. */
+function mayHaveTranscript(engagement: ChorusEngagement): boolean {
+  if (engagement.no_show) return false;
+  return engagement.duration == null || engagement.duration > 0;
+}
+
+function resolveEngagementAccountName(
+  engagement: ChorusEngagement,
+  internalDomains: Set<string>
+): string {
+  const candidates = extractAccountNamesFromEngagement(engagement, internalDomains);
+  return candidates[0] ?? "Unknown Account";
+}
+
+function extractAccountNamesFromEngagement(
+  engagement: ChorusEngagement,
+  internalDomains: Set<string>
+): string[] {
+  const values: Array<string | null | undefined> = [];
+
+  // CRM-linked account first, as with Gong context objects.
+  values.push(engagement.account_name);
+
+  for (const participant of engagement.participants ?? []) {
+    const isInternal = INTERNAL_PARTICIPANT_TYPES.has(participant.type?.toLowerCase() ?? "");
+    if (isInternal) continue;
+
+    values.push(participant.company_name);
+
+    if (participant.email) {
+      const domain = participant.email.split("@")[1]?.toLowerCase();
+      if (domain && !internalDomains.has(domain)) {
+        values.push(companyNameFromEmail(participant.email));
+      }
+    }
+  }
+
+  return uniqueAccountCandidates(values);
+}
+
+function secondsToMs(raw: number | null | undefined): number | null {
+  if (typeof raw !== "number" || Number.isNaN(raw) || raw < 0) {
+    return null;
+  }
+  return Math.round(raw * 1000);
+}
+
+function toOccurredAt(raw: number | string | null | undefined): string {
+  if (raw == null) return new Date().toISOString();
+  // Epoch values arrive in seconds.
+  const date = typeof raw === "number" ? new Date(raw * 1000) : new Date(raw);
+  return Number.isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+}
+
+function toIso(value: string, endOfDay: boolean): string {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return endOfDay ? `${value}T23:59:59.999Z` : `${value}T00:00:00.000Z`;
+  }
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date value: ${value}`);
+  }
+
+  return date.toISOString();
+}
+
+function hashText(text: string): string {
+  return createHash("sha1").update(text).digest("hex");
+}
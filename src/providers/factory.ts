@@ -1,11 +1,65 @@
-import type { AgentEnv } from "../config/env.js";
+import { CALL_SOURCES, parseCallSources } from "../config/env.js";
+import type { AgentEnv, CallSource } from "../config/env.js";
 import type { CallProvider } from "../types/domain.js";
 import { accountIdFromName } from "./account-utils.js";
+import { ChorusProvider } from "./chorusProvider.js";
 import { CompositeProvider } from "./compositeProvider.js";
+import { FirefliesProvider } from "./firefliesProvider.js";
+import { FolderProvider } from "./folderProvider.js";
 import { GongProvider } from "./gongProvider.js";
 import { GrainProvider } from "./grainProvider.js";
 import { JsonProvider } from "./jsonProvider.js";
 import { MergeProvider } from "./mergeProvider.js";
+import { withCorpusStore } from "./storeBackedProvider.js";
+import { ZoomProvider } from "./zoomProvider.js";
+
+/** Credentials for every call source; shared by the env-driven CLI and the web/MCP request schemas. */
+export interface CallSourceCredentials {
+  gongBaseUrl?: string;
+  gongAccessToken?: string;
+  gongAccessKey?: string;
+  gongAccessKeySecret?: string;
+  grainBaseUrl?: string;
+  grainApiToken?: string;
+  zoomBaseUrl?: string;
+  zoomOauthUrl?: string;
+  zoomAccountId?: string;
+  zoomClientId?: string;
+  zoomClientSecret?: string;
+  zoomAccessToken?: string;
+  zoomUserId?: string;
+  firefliesBaseUrl?: string;
+  firefliesApiKey?: string;
+  chorusBaseUrl?: string;
+  chorusApiToken?: string;
+  internalEmailDomains?: string;
+  corpusStoreDir?: string;
+}
+
+export const CALL_SOURCE_LABELS: Record<CallSource, string> = {
+  gong: "Gong",
+  grain: "Grain",
+  zoom: "Zoom",
+  fireflies: "Fireflies",
+  chorus: "Chorus",
+};
+
+const CREDENTIAL_HINTS: Record<CallSource, string> = {
+  gong: "GONG_ACCESS_TOKEN or GONG_ACCESS_KEY + GONG_ACCESS_KEY_SECRET",
+  grain: "GRAIN_API_TOKEN",
+  zoom: "ZOOM_ACCESS_TOKEN or ZOOM_ACCOUNT_ID + ZOOM_CLIENT_ID + ZOOM_CLIENT_SECRET",
+  fireflies: "FIREFLIES_API_KEY",
+  chorus: "CHORUS_API_TOKEN",
+};
+
+const DEFAULT_BASE_URLS = {
+  gong: "https://api.gong.io",
+  grain: "https://grain.com/_/public-api",
+  zoom: "https://api.zoom.us/v2",
+  zoomOauth: "https://zoom.us/oauth/token",
+  fireflies: "https://api.fireflies.ai/graphql",
+  chorus: "https://chorus.ai",
+};
 
 export function createProvider(env: AgentEnv, accountName?: string, accountId?: string): CallProvider {
   if (env.PROVIDER === "json") {
@@ -15,6 +69,13 @@ export function createProvider(env: AgentEnv, accountName?: string, accountId?:
     return new JsonProvider(env.JSON_INPUT_FILE);
   }
 
+  if (env.PROVIDER === "folder") {
+    if (!env.TRANSCRIPT_FOLDER) {
+      throw new Error("TRANSCRIPT_FOLDER is required when PROVIDER=folder");
+    }
+    return new FolderProvider(env.TRANSCRIPT_FOLDER);
+  }
+
   if (env.PROVIDER === "merge") {
     if (!env.MERGE_API_KEY || !env.MERGE_ACCOUNT_TOKEN) {
       throw new Error("MERGE_API_KEY and MERGE_ACCOUNT_TOKEN are required when PROVIDER=merge");
@@ -32,64 +93,166 @@ export function createProvider(env: AgentEnv, accountName?: string, accountId?:
     });
   }
 
-  if (env.PROVIDER === "gong") {
-    if (!hasGongCreds(env)) {
+  const sources = parseCallSources(env.PROVIDER);
+  if (!sources) {
+    throw new Error(`Unsupported PROVIDER: ${env.PROVIDER}`);
+  }
+
+  const credentials = credentialsFromEnv(env);
+  const providers = sources.map((source) => {
+    if (!hasCallSourceCredentials(source, credentials)) {
       throw new Error(
-        "Gong credentials are required: set GONG_ACCESS_TOKEN or GONG_ACCESS_KEY + GONG_ACCESS_KEY_SECRET"
+        `${CALL_SOURCE_LABELS[source]} credentials are required for PROVIDER=${env.PROVIDER}: set ${CREDENTIAL_HINTS[source]}`
       );
     }
+    return createCallSourceProvider(source, credentials);
+  });
 
-    return new GongProvider({
-      baseUrl: env.GONG_BASE_URL,
-      accessToken: env.GONG_ACCESS_TOKEN,
-      accessKey: env.GONG_ACCESS_KEY,
-      accessKeySecret: env.GONG_ACCESS_KEY_SECRET,
-      internalDomains: env.INTERNAL_EMAIL_DOMAINS,
-    });
+  if (providers.length === 1) {
+    return providers[0];
   }
 
-  if (env.PROVIDER === "grain") {
-    if (!env.GRAIN_API_TOKEN) {
-      throw new Error("GRAIN_API_TOKEN is required when PROVIDER=grain");
-    }
+  return new CompositeProvider(providers, { sharedAccountsOnly: true });
+}
 
-    return new GrainProvider({
-      apiToken: env.GRAIN_API_TOKEN,
-      baseUrl: env.GRAIN_BASE_URL,
-      internalDomains: env.INTERNAL_EMAIL_DOMAINS,
-    });
-  }
+/** Sources whose credentials are present, in canonical order. */
+export function configuredCallSources(credentials: CallSourceCredentials): CallSource[] {
+  return CALL_SOURCES.filter((source) => hasCallSourceCredentials(source, credentials));
+}
 
-  // PROVIDER=gong_grain
-  if (!env.GRAIN_API_TOKEN) {
-    throw new Error("GRAIN_API_TOKEN is required when PROVIDER=gong_grain");
+export function hasCallSourceCredentials(source: CallSource, credentials: CallSourceCredentials): boolean {
+  switch (source) {
+    case "gong":
+      return Boolean(
+        credentials.gongAccessToken || (credentials.gongAccessKey && credentials.gongAccessKeySecret)
+      );
+    case "grain":
+      return Boolean(credentials.grainApiToken);
+    case "zoom":
+      return Boolean(
+        credentials.zoomAccessToken ||
+          (credentials.zoomAccountId && credentials.zoomClientId && credentials.zoomClientSecret)
+      );
+    case "fireflies":
+      return Boolean(credentials.firefliesApiKey);
+    case "chorus":
+      return Boolean(credentials.chorusApiToken);
   }
+}
 
-  if (!hasGongCreds(env)) {
-    throw new Error(
-      "Gong credentials are required for PROVIDER=gong_grain: set GONG_ACCESS_TOKEN or GONG_ACCESS_KEY + GONG_ACCESS_KEY_SECRET"
-    );
-  }
+export function callSourceCredentialHint(source: CallSource): string {
+  return CREDENTIAL_HINTS[source];
+}
 
-  const gong = new GongProvider({
-    baseUrl: env.GONG_BASE_URL,
-    accessToken: env.GONG_ACCESS_TOKEN,
-    accessKey: env.GONG_ACCESS_KEY,
-    accessKeySecret: env.GONG_ACCESS_KEY_SECRET,
-    internalDomains: env.INTERNAL_EMAIL_DOMAINS,
-  });
+/** Builds a store-backed provider for one call source; the store is scoped to its credentials. */
+export function createCallSourceProvider(
+  source: CallSource,
+  credentials: CallSourceCredentials
+): CallProvider {
+  const internalDomains = credentials.internalEmailDomains;
+  const storeDir = credentials.corpusStoreDir;
 
-  const grain = new GrainProvider({
-    apiToken: env.GRAIN_API_TOKEN,
-    baseUrl: env.GRAIN_BASE_URL,
-    internalDomains: env.INTERNAL_EMAIL_DOMAINS,
-  });
+  switch (source) {
+    case "gong": {
+      const baseUrl = credentials.gongBaseUrl ?? DEFAULT_BASE_URLS.gong;
+      const gong = new GongProvider({
+        baseUrl,
+        accessToken: credentials.gongAccessToken,
+        accessKey: credentials.gongAccessKey,
+        accessKeySecret: credentials.gongAccessKeySecret,
+        internalDomains,
+      });
+      return withCorpusStore(gong, {
+        storeDir,
+        scope: [baseUrl, credentials.gongAccessToken ?? credentials.gongAccessKey, internalDomains],
+      });
+    }
 
-  return new CompositeProvider([gong, grain], { sharedAccountsOnly: true });
+    case "grain": {
+      const baseUrl = credentials.grainBaseUrl ?? DEFAULT_BASE_URLS.grain;
+      const grain = new GrainProvider({
+        apiToken: credentials.grainApiToken!,
+        baseUrl,
+        internalDomains,
+      });
+      return withCorpusStore(grain, {
+        storeDir,
+        scope: [baseUrl, credentials.grainApiToken, internalDomains],
+      });
+    }
+
+    case "zoom": {
+      const baseUrl = credentials.zoomBaseUrl ?? DEFAULT_BASE_URLS.zoom;
+      const userId = credentials.zoomUserId ?? "me";
+      const zoom = new ZoomProvider({
+        baseUrl,
+        oauthUrl: credentials.zoomOauthUrl ?? DEFAULT_BASE_URLS.zoomOauth,
+        accessToken: credentials.zoomAccessToken,
+        accountId: credentials.zoomAccountId,
+        clientId: credentials.zoomClientId,
+        clientSecret: credentials.zoomClientSecret,
+        userId,
+        internalDomains,
+      });
+      return withCorpusStore(zoom, {
+        storeDir,
+        scope: [
+          baseUrl,
+          credentials.zoomAccessToken ?? credentials.zoomAccountId,
+          userId,
+          internalDomains,
+        ],
+      });
+    }
+
+    case "fireflies": {
+      const baseUrl = credentials.firefliesBaseUrl ?? DEFAULT_BASE_URLS.fireflies;
+      const fireflies = new FirefliesProvider({
+        apiKey: credentials.firefliesApiKey!,
+        baseUrl,
+        internalDomains,
+      });
+      return withCorpusStore(fireflies, {
+        storeDir,
+        scope: [baseUrl, credentials.firefliesApiKey, internalDomains],
+      });
+    }
+
+    case "chorus": {
+      const baseUrl = credentials.chorusBaseUrl ?? DEFAULT_BASE_URLS.chorus;
+      const chorus = new ChorusProvider({
+        apiToken: credentials.chorusApiToken!,
+        baseUrl,
+        internalDomains,
+      });
+      return withCorpusStore(chorus, {
+        storeDir,
+        scope: [baseUrl, credentials.chorusApiToken, internalDomains],
+      });
+    }
+  }
 }
 
-function hasGongCreds(env: AgentEnv): boolean {
-  return Boolean(
-    env.GONG_ACCESS_TOKEN || (env.GONG_ACCESS_KEY && env.GONG_ACCESS_KEY_SECRET)
-  );
+function credentialsFromEnv(env: AgentEnv): CallSourceCredentials {
+  return {
+    gongBaseUrl: env.GONG_BASE_URL,
+    gongAccessToken: env.GONG_ACCESS_TOKEN,
+    gongAccessKey: env.GONG_ACCESS_KEY,
+    gongAccessKeySecret: env.GONG_ACCESS_KEY_SECRET,
+    grainBaseUrl: env.GRAIN_BASE_URL,
+    grainApiToken: env.GRAIN_API_TOKEN,
+    zoomBaseUrl: env.ZOOM_BASE_URL,
+    zoomOauthUrl: env.ZOOM_OAUTH_URL,
+    zoomAccountId: env.ZOOM_ACCOUNT_ID,
+    zoomClientId: env.ZOOM_CLIENT_ID,
+    zoomClientSecret: env.ZOOM_CLIENT_SECRET,
+    zoomAccessToken: env.ZOOM_ACCESS_TOKEN,
+    zoomUserId: env.ZOOM_USER_ID,
+    firefliesBaseUrl: env.FIREFLIES_BASE_URL,
+    firefliesApiKey: env.FIREFLIES_API_KEY,
+    chorusBaseUrl: env.CHORUS_BASE_URL,
+    chorusApiToken: env.CHORUS_API_TOKEN,
+    internalEmailDomains: env.INTERNAL_EMAIL_DOMAINS,
+    corpusStoreDir: env.CORPUS_STORE_DIR,
+  };
 }
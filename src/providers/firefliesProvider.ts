@@ -0,0 +1,439 @@
+import { createHash } from "node:crypto";
+import { z } from "zod";
+import {
+  accountIdFromName,
+  companyNameFromEmail,
+  normalizeAccountName,
+  parseCommaSeparated,
+  uniqueAccountCandidates,
+} from "./account-utils.js";
+import { ProviderAuthError, ProviderHttpClient } from "./httpClient.js";
+import type { HttpClientOptions } from "./httpClient.js";
+import type {
+  CallParticipant,
+  CanonicalCall,
+  CallProvider,
+  DiscoveredAccount,
+  ProviderFetchInput,
+  ProviderSyncInput,
+  ProviderSyncPage,
+} from "../types/domain.js";
+
+const FirefliesAttendeeSchema = z.object({
+  displayName: z.string().nullable().optional(),
+  name: z.string().nullable().optional(),
+  email: z.string().nullable().optional(),
+});
+
+const FirefliesSentenceSchema = z.object({
+  index: z.number().nullable().optional(),
+  speaker_name: z.string().nullable().optional(),
+  text: z.string().nullable().optional(),
+  raw_text: z.string().nullable().optional(),
+  start_time: z.number().nullable().optional(),
+  end_time: z.number().nullable().optional(),
+});
+
+const FirefliesTranscriptSchema = z.object({
+  id: z.string(),
+  title: z.string().nullable().optional(),
+  date: z.union([z.number(), z.string()]).nullable().optional(),
+  duration: z.number().nullable().optional(),
+  transcript_url: z.string().nullable().optional(),
+  organizer_email: z.string().nullable().optional(),
+  participants: z.array(z.string()).nullable().optional(),
+  meeting_attendees: z.array(FirefliesAttendeeSchema).nullable().optional(),
+  sentences: z.array(FirefliesSentenceSchema).nullable().optional(),
+});
+
+const FirefliesTranscriptsResponseSchema = z.object({
+  data: z
+    .object({
+      transcripts: z.array(FirefliesTranscriptSchema).nullable().default([]),
+    })
+    .nullable()
+    .optional(),
+  errors: z
+    .array(
+      z.object({
+        message: z.string(),
+        code: z.string().optional(),
+        extensions: z
+          .object({ code: z.string().optional(), status: z.number().optional() })
+          .optional(),
+      })
+    )
+    .optional(),
+});
+
+type FirefliesGraphqlError = NonNullable<z.infer<typeof FirefliesTranscriptsResponseSchema>["errors"]>[number];
+
+const TRANSCRIPT_FIELDS = `
+  id
+  title
+  date
+  duration
+  transcript_url
+  organizer_email
+  participants
+  meeting_attendees { displayName name email }
+`;
+
+const TRANSCRIPTS_QUERY = `
+  query Transcripts($limit: Int, $skip: Int, $fromDate: DateTime, $toDate: DateTime) {
+    transcripts(limit: $limit, skip: $skip, fromDate: $fromDate, toDate: $toDate) {
+      ${TRANSCRIPT_FIELDS}
+      sentences { index speaker_name text raw_text start_time end_time }
+    }
+  }
+`;
+
+// Discovery never asks for sentences, which are the bulk of every payload.
+const TRANSCRIPT_METADATA_QUERY = `
+  query TranscriptMetadata($limit: Int, $skip: Int, $fromDate: DateTime, $toDate: DateTime) {
+    transcripts(limit: $limit, skip: $skip, fromDate: $fromDate, toDate: $toDate) {
+      ${TRANSCRIPT_FIELDS}
+    }
+  }
+`;
+
+// The transcripts query caps `limit` at 50.
+const PAGE_SIZE = 50;
+const AUTH_HINT = "Check FIREFLIES_API_KEY.";
+const AUTH_ERROR_CODES = /^(?:auth_failed|unauthenticated|unauthorized|forbidden|invalid_api_key)$/i;
+
+interface FirefliesProviderConfig {
+  apiKey: string;
+  baseUrl: string;
+  internalDomains?: string;
+  http?: Omit<HttpClientOptions, "provider" | "authHint">;
+}
+
+type FirefliesTranscript = z.infer<typeof FirefliesTranscriptSchema>;
+
+interface FetchedFirefliesCall {
+  transcript: FirefliesTranscript;
+  participants: CallParticipant[];
+  transcriptText: string;
+  segments: CanonicalCall["segments"];
+  derivedAccountName: string;
+}
+
+interface FetchedFirefliesPage {
+  rows: FetchedFirefliesCall[];
+  cursor: string | null;
+  complete: boolean;
+}
+
+export class FirefliesProvider implements CallProvider {
+  readonly name = "fireflies";
+
+  private readonly internalDomains: Set<string>;
+  private readonly http: ProviderHttpClient;
+
+  constructor(private readonly config: FirefliesProviderConfig) {
+    this.internalDomains = new Set(parseCommaSeparated(config.internalDomains));
+    this.http = new ProviderHttpClient({
+      ...config.http,
+      provider: "Fireflies",
+      authHint: AUTH_HINT,
+    });
+  }
+
+  async fetchCalls(input: ProviderFetchInput): Promise<CanonicalCall[]> {
+    const { rows } = await this.fetchAndDerive(input);
+    const normalizedTarget = input.accountName
+      ? normalizeAccountName(input.accountName)
+      : null;
+
+    const filtered = normalizedTarget
+      ? rows.filter((row) => normalizeAccountName(row.derivedAccountName) === normalizedTarget)
+      : rows;
+
+    const maxCalls = input.maxCalls ?? filtered.length;
+
+    return filtered
+      .slice(0, maxCalls)
+      .map((row) => this.toCanonicalCall(row))
+      .sort((a, b) => a.occurredAt.localeCompare(b.occurredAt));
+  }
+
+  async syncCalls(input: ProviderSyncInput): Promise<ProviderSyncPage> {
+    const page = await this.fetchAndDerive(input, input.cursor ?? null);
+    return {
+      calls: page.rows
+        .map((row) => this.toCanonicalCall(row))
+        .sort((a, b) => a.occurredAt.localeCompare(b.occurredAt)),
+      cursor: page.cursor,
+      complete: page.complete,
+    };
+  }
+
+  async discoverAccounts(input: ProviderFetchInput): Promise<DiscoveredAccount[]> {
+    const maxCalls = input.maxCalls ?? 1200;
+    const counter = new Map<string, { name: string; count: number }>();
+    let skip = 0;
+
+    while (skip < maxCalls) {
+      const transcripts = await this.requestTranscripts(TRANSCRIPT_METADATA_QUERY, input, skip);
+
+      for (const transcript of transcripts.slice(0, maxCalls - skip)) {
+        if (transcript.duration === 0) continue;
+
+        const derivedAccountName = resolveTranscriptAccountName(
+          transcript,
+          toParticipants(transcript),
+          this.internalDomains
+        );
+        const normalized = normalizeAccountName(derivedAccountName);
+        const current = counter.get(normalized);
+        if (!current) {
+          counter.set(normalized, { name: derivedAccountName, count: 1 });
+        } else {
+          current.count += 1;
+        }
+      }
+
+      skip += transcripts.length;
+      if (transcripts.length < PAGE_SIZE) {
+        break;
+      }
+    }
+
+    return [...counter.entries()]
+      .map(([normalizedName, value]) => ({
+        name: value.name,
+        normalizedName,
+        source: "fireflies",
+        callCount: value.count,
+      }))
+      .sort((a, b) => b.callCount - a.callCount || a.name.localeCompare(b.name));
+  }
+
+  private async fetchAndDerive(
+    input: ProviderFetchInput,
+    startCursor: string | null = null
+  ): Promise<FetchedFirefliesPage> {
+    const rows: FetchedFirefliesCall[] = [];
+    const maxCalls = input.maxCalls ?? 500;
+    // The API pages by offset, so the cursor is the number of transcripts already read.
+    let skip = startCursor ? Number(startCursor) || 0 : 0;
+
+    while (true) {
+      const transcripts = await this.requestTranscripts(TRANSCRIPTS_QUERY, input, skip);
+      skip += transcripts.length;
+
+      for (const transcript of transcripts) {
+        const segments = toSegments(transcript);
+        if (segments.length === 0) continue;
+
+        const participants = toParticipants(transcript);
+        rows.push({
+          transcript,
+          participants,
+          segments,
+          transcriptText: segments
+            .map((segment) => (segment.speaker ? `${segment.speaker}: ${segment.text}` : segment.text))
+            .join("\n"),
+          derivedAccountName: resolveTranscriptAccountName(
+            transcript,
+            participants,
+            this.internalDomains
+          ),
+        });
+      }
+
+      if (transcripts.length < PAGE_SIZE) {
+        return { rows, cursor: null, complete: true };
+      }
+
+      if (rows.length >= maxCalls) {
+        return { rows, cursor: String(skip), complete: false };
+      }
+    }
+  }
+
+  private async requestTranscripts(
+    query: string,
+    input: ProviderFetchInput,
+    skip: number
+  ): Promise<FirefliesTranscript[]> {
+    const variables: Record<string, unknown> = { limit: PAGE_SIZE, skip };
+    if (input.fromDate) variables.fromDate = toIso(input.fromDate, false);
+    if (input.toDate) variables.toDate = toIso(input.toDate, true);
+
+    const payload = FirefliesTranscriptsResponseSchema.parse(
+      await this.http.requestJson(this.config.baseUrl, {
+        operation: "transcripts query",
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${this.config.apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ query, variables }),
+      })
+    );
+
+    // GraphQL reports query and auth problems in a 200 response.
+    if (payload.errors?.length) {
+      const detail = payload.errors.map((error) => error.message).join("; ");
+      const authError = payload.errors.find(isAuthError);
+      if (authError) {
+        const status = authError.extensions?.status ?? 401;
+        throw new ProviderAuthError(
+          `Fireflies transcripts query failed (${status}): credentials were rejected. ${AUTH_HINT} ${detail}`,
+          "Fireflies",
+          status,
+          1
+        );
+      }
+      throw new Error(`Fireflies transcripts query failed: ${detail}`);
+    }
+
+    return payload.data?.transcripts ?? [];
+  }
+
+  private toCanonicalCall(row: FetchedFirefliesCall): CanonicalCall {
+    return {
+      provider: "fireflies",
+      providerCallId: row.transcript.id,
+      accountId: accountIdFromName(row.derivedAccountName),
+      accountName: row.derivedAccountName,
+      title: row.transcript.title?.trim() || `Call ${row.transcript.id}`,
+      occurredAt: toOccurredAt(row.transcript.date),
+      durationSeconds:
+        row.transcript.duration != null ? Math.round(row.transcript.duration * 60) : null,
+      participants: row.participants,
+      transcriptText: row.transcriptText,
+      segments: row.segments,
+      metadata: {
+        firefliesTranscriptId: row.transcript.id,
+        recordingUrl: row.transcript.transcript_url ?? null,
+        transcriptHash: hashText(row.transcriptText),
+        accountCandidates: extractAccountNamesFromTranscript(
+          row.transcript,
+          row.participants,
+          this.internalDomains
+        ),
+      },
+    };
+  }
+}
+
+function toSegments(transcript: FirefliesTranscript): CanonicalCall["segments"] {
+  return [...(transcript.sentences ?? [])]
+    .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+    .map((sentence) => {
+      const text = (sentence.text ?? sentence.raw_text)?.trim();
+      if (!text) return null;
+      return {
+        speaker: sentence.speaker_name?.trim() || null,
+        text,
+        startMs: secondsToMs(sentence.start_time),
+        endMs: secondsToMs(sentence.end_time),
+      };
+    })
+    .filter((value): value is NonNullable<typeof value> => value !== null);
+}
+
+function toParticipants(transcript: FirefliesTranscript): CallParticipant[] {
+  const organizer = transcript.organizer_email?.toLowerCase() ?? null;
+  const participants: CallParticipant[] = [];
+  const seenEmails = new Set<string>();
+
+  const push = (name: string | null, rawEmail: string | null) => {
+    const email = rawEmail?.trim().toLowerCase() || null;
+    if (email) {
+      if (seenEmails.has(email)) return;
+      seenEmails.add(email);
+    }
+    if (!name && !email) return;
+    participants.push({
+      name,
+      email,
+      role: email && email === organizer ? "host" : "participant",
+    });
+  };
+
+  for (const attendee of transcript.meeting_attendees ?? []) {
+    push(attendee.displayName?.trim() || attendee.name?.trim() || null, attendee.email ?? null);
+  }
+
+  // `participants` is a flat list of emails, sometimes comma-joined in a single entry.
+  for (const entry of transcript.participants ?? []) {
+    for (const email of entry.split(",")) {
+      if (email.includes("@")) push(null, email);
+    }
+  }
+
+  return participants;
+}
+
+function resolveTranscriptAccountName(
+  transcript: FirefliesTranscript,
+  participants: CallParticipant[],
+  internalDomains: Set<string>
+): string {
+  const candidates = extractAccountNamesFromTranscript(transcript, participants, internalDomains);
+  return candidates[0] ?? "Unknown Account";
+}
+
+function extractAccountNamesFromTranscript(
+  transcript: FirefliesTranscript,
+  participants: CallParticipant[],
+  internalDomains: Set<string>
+): string[] {
+  // The organizer is whoever recorded the call, so their domain is always internal.
+  const organizerDomain = transcript.organizer_email?.split("@")[1]?.toLowerCase();
+  const values: Array<string | null> = [];
+
+  for (const participant of participants) {
+    if (!participant.email) continue;
+    const domain = participant.email.split("@")[1]?.toLowerCase();
+    if (domain && !internalDomains.has(domain) && domain !== organizerDomain) {
+      values.push(companyNameFromEmail(participant.email));
+    }
+  }
+
+  return uniqueAccountCandidates(values);
+}
+
+/** GraphQL auth failures arrive as errors in a 200 response, tagged by code or HTTP-style status. */
+function isAuthError(error: FirefliesGraphqlError): boolean {
+  const status = error.extensions?.status;
+  return (
+    status === 401 ||
+    status === 403 ||
+    [error.code, error.extensions?.code].some((code) => code != null && AUTH_ERROR_CODES.test(code))
+  );
+}
+
+function secondsToMs(raw: number | null | undefined): number | null {
+  if (typeof raw !== "number" || Number.isNaN(raw) || raw < 0) {
+    return null;
+  }
+  return Math.round(raw * 1000);
+}
+
+function toOccurredAt(raw: number | string | null | undefined): string {
+  if (raw == null) return new Date().toISOString();
+  const date = typeof raw === "number" ? new Date(raw) : new Date(/^\d+$/.test(raw) ? Number(raw) : raw);
+  return Number.isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+}
+
+function toIso(value: string, endOfDay: boolean): string {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return endOfDay ? `${value}T23:59:59.999Z` : `${value}T00:00:00.000Z`;
+  }
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date value: ${value}`);
+  }
+
+  return date.toISOString();
+}
+
+function hashText(text: string): string {
+  return createHash("sha1").update(text).digest("hex");
+}
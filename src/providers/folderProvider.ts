@@ -0,0 +1,231 @@
+import { createHash } from "node:crypto";
+import { readdir, readFile, stat } from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod";
+import { accountIdFromName, normalizeAccountName } from "./account-utils.js";
+import {
+  formatFromFileName,
+  parseTranscriptFile,
+  segmentsToTranscriptText,
+} from "./transcript-parsers.js";
+import type {
+  CallParticipant,
+  CanonicalCall,
+  CallProvider,
+  DiscoveredAccount,
+  ProviderFetchInput,
+} from "../types/domain.js";
+
+export const FOLDER_MANIFEST_FILE = "callcase.json";
+
+const ManifestParticipantSchema = z.object({
+  name: z.string().nullable().default(null),
+  email: z.string().nullable().default(null),
+  role: z.enum(["host", "participant"]).default("participant"),
+});
+
+const ManifestEntrySchema = z.object({
+  title: z.string().optional(),
+  date: z.string().optional(),
+  account: z.string().optional(),
+  participants: z.array(ManifestParticipantSchema).optional(),
+});
+
+const ManifestSchema = z.object({
+  account: z.string().optional(),
+  files: z.record(z.string(), ManifestEntrySchema).default({}),
+});
+
+type FolderManifest = z.infer<typeof ManifestSchema>;
+
+const FILE_NAME_DATE =
+  /(\d{4})[-_.]?(\d{2})[-_.]?(\d{2})(?:[T _-]?(\d{2})[-:.h]?(\d{2})(?:[-:.m]?(\d{2}))?)?/;
+
+/**
+ * Reads exported `.vtt`/`.srt`/`.txt` transcripts from a directory tree. The account comes from
+ * a `callcase.json` sidecar, a transcript header, or the top-level folder the file sits in.
+ */
+export class FolderProvider implements CallProvider {
+  readonly name = "folder";
+
+  constructor(private readonly rootDir: string) {}
+
+  async fetchCalls(input: ProviderFetchInput): Promise<CanonicalCall[]> {
+    const calls = await this.load();
+    const targetAccountName = input.accountName ? normalizeAccountName(input.accountName) : null;
+
+    return calls
+      .filter((call) => (input.accountId ? call.accountId === input.accountId : true))
+      .filter((call) =>
+        targetAccountName ? normalizeAccountName(call.accountName) === targetAccountName : true
+      )
+      .filter((call) => (input.fromDate ? call.occurredAt >= input.fromDate : true))
+      .filter((call) => (input.toDate ? call.occurredAt <= input.toDate : true))
+      .sort((a, b) => a.occurredAt.localeCompare(b.occurredAt))
+      .slice(0, input.maxCalls ?? calls.length);
+  }
+
+  async discoverAccounts(): Promise<DiscoveredAccount[]> {
+    const calls = await this.load();
+    const counts = new Map<string, { name: string; callCount: number }>();
+
+    for (const call of calls) {
+      const normalizedName = normalizeAccountName(call.accountName);
+      const current = counts.get(normalizedName);
+      if (!current) {
+        counts.set(normalizedName, { name: call.accountName, callCount: 1 });
+      } else {
+        current.callCount += 1;
+      }
+    }
+
+    return [...counts.entries()]
+      .map(([normalizedName, value]) => ({
+        name: value.name,
+        normalizedName,
+        source: "folder",
+        callCount: value.callCount,
+      }))
+      .sort((a, b) => b.callCount - a.callCount || a.name.localeCompare(b.name));
+  }
+
+  private async load(): Promise<CanonicalCall[]> {
+    const root = path.resolve(this.rootDir);
+    const calls: CanonicalCall[] = [];
+    await this.walk(root, [], calls);
+    return calls;
+  }
+
+  private async walk(
+    dir: string,
+    manifests: Array<{ dir: string; manifest: FolderManifest }>,
+    out: CanonicalCall[]
+  ): Promise<void> {
+    const entries = await readdir(dir, { withFileTypes: true });
+    const manifest = await readManifest(dir);
+    const scoped = manifest ? [...manifests, { dir, manifest }] : manifests;
+
+    for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+      if (entry.name.startsWith(".")) continue;
+      const fullPath = path.join(dir, entry.name);
+
+      if (entry.isDirectory()) {
+        await this.walk(fullPath, scoped, out);
+        continue;
+      }
+
+      const format = formatFromFileName(entry.name);
+      if (!entry.isFile() || !format) continue;
+
+      const call = await this.readCall(fullPath, format, scoped);
+      if (call) out.push(call);
+    }
+  }
+
+  private async readCall(
+    filePath: string,
+    format: NonNullable<ReturnType<typeof formatFromFileName>>,
+    manifests: Array<{ dir: string; manifest: FolderManifest }>
+  ): Promise<CanonicalCall | null> {
+    const parsed = parseTranscriptFile(await readFile(filePath, "utf8"), format);
+    const transcriptText = segmentsToTranscriptText(parsed.segments);
+    if (!transcriptText.trim()) return null;
+
+    const relativePath = path.relative(path.resolve(this.rootDir), filePath).split(path.sep).join("/");
+    const fileEntry = findManifestEntry(filePath, manifests);
+    const nearestManifestAccount = [...manifests]
+      .reverse()
+      .find((item) => item.manifest.account)?.manifest.account;
+    const topLevelFolder = relativePath.includes("/") ? relativePath.split("/")[0] : null;
+
+    const accountName =
+      fileEntry?.account ??
+      parsed.headers.account ??
+      parsed.headers.company ??
+      nearestManifestAccount ??
+      topLevelFolder ??
+      "Unknown Account";
+
+    const nameInfo = inferFromFileName(path.basename(filePath));
+    const occurredAt =
+      toIsoDate(fileEntry?.date) ??
+      toIsoDate(parsed.headers.date) ??
+      nameInfo.occurredAt ??
+      (await stat(filePath)).mtime.toISOString();
+
+    const lastMs = Math.max(0, ...parsed.segments.map((segment) => segment.endMs ?? segment.startMs ?? 0));
+
+    return {
+      provider: "folder",
+      providerCallId: relativePath,
+      accountId: accountIdFromName(accountName),
+      accountName,
+      title: fileEntry?.title ?? parsed.headers.title ?? parsed.headers.meeting ?? nameInfo.title,
+      occurredAt,
+      durationSeconds: lastMs > 0 ? Math.round(lastMs / 1000) : null,
+      participants: fileEntry?.participants ?? participantsFromSpeakers(parsed.segments),
+      transcriptText,
+      segments: parsed.segments,
+      metadata: {
+        sourceFile: relativePath,
+        format,
+        transcriptHash: createHash("sha1").update(transcriptText).digest("hex"),
+      },
+    };
+  }
+}
+
+async function readManifest(dir: string): Promise<FolderManifest | null> {
+  try {
+    const raw = await readFile(path.join(dir, FOLDER_MANIFEST_FILE), "utf8");
+    return ManifestSchema.parse(JSON.parse(raw));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw new Error(`Invalid ${FOLDER_MANIFEST_FILE} in ${dir}: ${(error as Error).message}`);
+  }
+}
+
+function findManifestEntry(
+  filePath: string,
+  manifests: Array<{ dir: string; manifest: FolderManifest }>
+): z.infer<typeof ManifestEntrySchema> | undefined {
+  for (const { dir, manifest } of [...manifests].reverse()) {
+    const key = path.relative(dir, filePath).split(path.sep).join("/");
+    if (manifest.files[key]) return manifest.files[key];
+  }
+  return undefined;
+}
+
+function participantsFromSpeakers(segments: CanonicalCall["segments"]): CallParticipant[] {
+  const names = new Set(segments.map((segment) => segment.speaker).filter((name): name is string => !!name));
+  return [...names].map((name) => ({ name, email: null, role: "participant" as const }));
+}
+
+function inferFromFileName(fileName: string): { title: string; occurredAt: string | null } {
+  const base = fileName.replace(/\.(vtt|srt|txt)$/i, "").replace(/\.transcript$/i, "");
+  const match = base.match(FILE_NAME_DATE);
+  let occurredAt: string | null = null;
+
+  if (match) {
+    const [, year, month, day, hour, minute, second] = match;
+    const iso = `${year}-${month}-${day}T${hour ?? "00"}:${minute ?? "00"}:${second ?? "00"}.000Z`;
+    if (!Number.isNaN(new Date(iso).getTime()) && Number(month) >= 1 && Number(month) <= 12) {
+      occurredAt = new Date(iso).toISOString();
+    }
+  }
+
+  const title = (occurredAt && match ? base.replace(match[0], " ") : base)
+    .replace(/\bGMT\b/g, " ")
+    .replace(/[_]+/g, " ")
+    .replace(/\s-\s|^\s*-+|-+\s*$/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  return { title: title || `Call ${fileName}`, occurredAt };
+}
+
+function toIsoDate(value: string | undefined): string | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
@@ -7,11 +7,16 @@ import {
   parseCommaSeparated,
   uniqueAccountCandidates,
 } from "./account-utils.js";
+import { ProviderHttpClient } from "./httpClient.js";
+import type { HttpClientOptions } from "./httpClient.js";
 import type {
   CanonicalCall,
   CallProvider,
   DiscoveredAccount,
   ProviderFetchInput,
+  ProviderSyncInput,
+  ProviderSyncPage,
+  SpeakerAffiliation,
 } from "../types/domain.js";
 
 const GongFieldSchema = z.object({
@@ -82,12 +87,19 @@ const GongTranscriptResponseSchema = z.object({
   callTranscripts: z.array(GongCallTranscriptSchema).default([]),
 });
 
+const GONG_AFFILIATIONS: Record<NonNullable<z.infer<typeof GongPartySchema>["affiliation"]>, SpeakerAffiliation> = {
+  INTERNAL: "internal",
+  EXTERNAL: "external",
+  UNKNOWN: "unknown",
+};
+
 interface GongProviderConfig {
   baseUrl: string;
   accessToken?: string;
   accessKey?: string;
   accessKeySecret?: string;
   internalDomains?: string;
+  http?: Omit<HttpClientOptions, "provider" | "authHint">;
 }
 
 interface ParsedGongTranscript {
@@ -106,17 +118,29 @@ interface FetchedGongCall {
   derivedAccountName: string;
 }
 
+interface FetchedGongPage {
+  rows: FetchedGongCall[];
+  cursor: string | null;
+  complete: boolean;
+}
+
 export class GongProvider implements CallProvider {
   readonly name = "gong";
 
   private readonly internalDomains: Set<string>;
+  private readonly http: ProviderHttpClient;
 
   constructor(private readonly config: GongProviderConfig) {
     this.internalDomains = new Set(parseCommaSeparated(config.internalDomains));
+    this.http = new ProviderHttpClient({
+      ...config.http,
+      provider: "Gong",
+      authHint: "Check GONG_ACCESS_TOKEN or GONG_ACCESS_KEY + GONG_ACCESS_KEY_SECRET.",
+    });
   }
 
   async fetchCalls(input: ProviderFetchInput): Promise<CanonicalCall[]> {
-    const fetched = await this.fetchAndDerive(input);
+    const { rows: fetched } = await this.fetchAndDerive(input);
     const normalizedTarget = input.accountName
       ? normalizeAccountName(input.accountName)
       : null;
@@ -129,48 +153,49 @@ export class GongProvider implements CallProvider {
 
     return filtered
       .slice(0, maxCalls)
-      .map(({ call, transcript, derivedAccountName }) => {
-        const transcriptText = transcript?.transcriptText ?? "";
-        const segments = transcript?.segments ?? [];
-
-        return {
-          provider: "gong",
-          providerCallId: call.id,
-          accountId: accountIdFromName(derivedAccountName),
-          accountName: derivedAccountName,
-          title: call.title?.trim() || `Call ${call.id}`,
-          occurredAt: call.started ?? new Date().toISOString(),
-          durationSeconds: call.duration ?? null,
-          participants: (call.parties ?? []).map((party) => ({
-            name: party.name ?? null,
-            email: party.emailAddress?.toLowerCase() ?? null,
-            role: party.affiliation === "INTERNAL" ? ("host" as const) : ("participant" as const),
-          })),
-          transcriptText,
-          segments,
-          metadata: {
-            gongCallId: call.id,
-            recordingUrl: call.media?.videoUrl ?? call.media?.audioUrl ?? call.url ?? null,
-            transcriptHash: hashText(transcriptText),
-            accountCandidates: extractAccountNamesFromCall(call, this.internalDomains),
-          },
-        } satisfies CanonicalCall;
-      })
+      .map((row) => this.toCanonicalCall(row))
       .sort((a, b) => a.occurredAt.localeCompare(b.occurredAt));
   }
 
+  async syncCalls(input: ProviderSyncInput): Promise<ProviderSyncPage> {
+    const page = await this.fetchAndDerive(input, input.cursor ?? null);
+    return {
+      calls: page.rows
+        .map((row) => this.toCanonicalCall(row))
+        .sort((a, b) => a.occurredAt.localeCompare(b.occurredAt)),
+      cursor: page.cursor,
+      complete: page.complete,
+    };
+  }
+
   async discoverAccounts(input: ProviderFetchInput): Promise<DiscoveredAccount[]> {
-    const fetched = await this.fetchAndDerive({ ...input, maxCalls: input.maxCalls ?? 1200 });
+    const maxCalls = input.maxCalls ?? 1200;
     const counter = new Map<string, { name: string; count: number }>();
+    let cursor: string | null = null;
+    let seen = 0;
+
+    // Discovery only reads call/party metadata; transcripts are checked lazily in fetchCalls.
+    while (seen < maxCalls) {
+      const payload = await this.requestCallsPage(input, cursor);
+
+      for (const call of payload.calls.slice(0, maxCalls - seen)) {
+        seen += 1;
+        if (!mayHaveTranscript(call)) continue;
+
+        const derivedAccountName = resolveCallAccountName(call, this.internalDomains);
+        const normalized = normalizeAccountName(derivedAccountName);
+        const current = counter.get(normalized);
+        if (!current) {
+          counter.set(normalized, { name: derivedAccountName, count: 1 });
+        } else {
+          current.count += 1;
+        }
+      }
 
-    for (const row of fetched) {
-      const normalized = normalizeAccountName(row.derivedAccountName);
-      const current = counter.get(normalized);
-      if (!current) {
-        counter.set(normalized, { name: row.derivedAccountName, count: 1 });
-      } else {
-        current.count += 1;
+      if (!payload.records?.cursor) {
+        break;
       }
+      cursor = payload.records.cursor;
     }
 
     return [...counter.entries()]
@@ -183,33 +208,18 @@ export class GongProvider implements CallProvider {
       .sort((a, b) => b.callCount - a.callCount || a.name.localeCompare(b.name));
   }
 
-  private async fetchAndDerive(input: ProviderFetchInput): Promise<FetchedGongCall[]> {
+  private async fetchAndDerive(
+    input: ProviderFetchInput,
+    startCursor: string | null = null
+  ): Promise<FetchedGongPage> {
     const maxCalls = input.maxCalls ?? 500;
     const rows: FetchedGongCall[] = [];
-    let cursor: string | null = null;
-    let done = false;
+    let cursor: string | null = startCursor;
+    let complete = false;
 
-    while (!done) {
-      const body: Record<string, unknown> = {};
-      if (cursor) body.cursor = cursor;
-
-      const filter: Record<string, string> = {};
-      if (input.fromDate) filter.fromDateTime = toIso(input.fromDate, false);
-      if (input.toDate) filter.toDateTime = toIso(input.toDate, true);
-      if (Object.keys(filter).length > 0) body.filter = filter;
-
-      const callsResponse = await fetch(this.endpoint("/v2/calls/extensive"), {
-        method: "POST",
-        headers: this.headers(),
-        body: JSON.stringify(body),
-      });
-
-      if (!callsResponse.ok) {
-        const bodyText = await callsResponse.text();
-        throw new Error(`Gong calls fetch failed (${callsResponse.status}): ${bodyText}`);
-      }
-
-      const payload = GongCallsResponseSchema.parse(await callsResponse.json());
+    // Pages are always consumed whole so the returned cursor can resume exactly where we stopped.
+    while (true) {
+      const payload = await this.requestCallsPage(input, cursor);
       const transcripts = await this.fetchTranscripts(payload.calls);
 
       for (const call of payload.calls) {
@@ -223,20 +233,47 @@ export class GongProvider implements CallProvider {
           transcript: parsedTranscript,
           derivedAccountName: resolveCallAccountName(call, this.internalDomains),
         });
-
-        if (rows.length >= maxCalls) {
-          done = true;
-          break;
-        }
       }
 
-      if (!payload.records?.cursor || done) {
+      if (!payload.records?.cursor) {
+        complete = true;
         break;
       }
       cursor = payload.records.cursor;
+
+      if (rows.length >= maxCalls) {
+        break;
+      }
     }
 
-    return rows;
+    return { rows, cursor: complete ? null : cursor, complete };
+  }
+
+  private async requestCallsPage(
+    input: ProviderFetchInput,
+    cursor: string | null
+  ): Promise<z.infer<typeof GongCallsResponseSchema>> {
+    const body: Record<string, unknown> = {
+      contentSelector: {
+        context: "Extended",
+        exposedFields: { parties: true, media: true },
+      },
+    };
+    if (cursor) body.cursor = cursor;
+
+    const filter: Record<string, string> = {};
+    if (input.fromDate) filter.fromDateTime = toIso(input.fromDate, false);
+    if (input.toDate) filter.toDateTime = toIso(input.toDate, true);
+    if (Object.keys(filter).length > 0) body.filter = filter;
+
+    return GongCallsResponseSchema.parse(
+      await this.http.requestJson(this.endpoint("/v2/calls/extensive"), {
+        operation: "calls fetch",
+        method: "POST",
+        headers: this.headers(),
+        body: JSON.stringify(body),
+      })
+    );
   }
 
   private async fetchTranscripts(
@@ -256,26 +293,26 @@ export class GongProvider implements CallProvider {
       speakerLookupByCall.set(call.id, speakerMap);
     }
 
-    for (const callIdChunk of chunk(calls.map((call) => call.id), 80)) {
-      if (callIdChunk.length === 0) continue;
-
-      const response = await fetch(this.endpoint("/v2/calls/transcript"), {
-        method: "POST",
-        headers: this.headers(),
-        body: JSON.stringify({
-          filter: {
-            callIds: callIdChunk,
-          },
-        }),
-      });
-
-      if (!response.ok) {
-        const bodyText = await response.text();
-        throw new Error(`Gong transcript fetch failed (${response.status}): ${bodyText}`);
-      }
-
-      const payload = GongTranscriptResponseSchema.parse(await response.json());
+    const payloads = await Promise.all(
+      chunk(calls.map((call) => call.id), 80)
+        .filter((callIdChunk) => callIdChunk.length > 0)
+        .map(async (callIdChunk) =>
+          GongTranscriptResponseSchema.parse(
+            await this.http.requestJson(this.endpoint("/v2/calls/transcript"), {
+              operation: "transcript fetch",
+              method: "POST",
+              headers: this.headers(),
+              body: JSON.stringify({
+                filter: {
+                  callIds: callIdChunk,
+                },
+              }),
+            })
+          )
+        )
+    );
 
+    for (const payload of payloads) {
       for (const callTranscript of payload.callTranscripts) {
         const speakerMap = speakerLookupByCall.get(callTranscript.callId) ?? new Map();
         const parsed = parseGongTranscript(callTranscript.transcript ?? [], speakerMap);
@@ -288,6 +325,35 @@ export class GongProvider implements CallProvider {
     return result;
   }
 
+  private toCanonicalCall({ call, transcript, derivedAccountName }: FetchedGongCall): CanonicalCall {
+    const transcriptText = transcript?.transcriptText ?? "";
+    const segments = transcript?.segments ?? [];
+
+    return {
+      provider: "gong",
+      providerCallId: call.id,
+      accountId: accountIdFromName(derivedAccountName),
+      accountName: derivedAccountName,
+      title: call.title?.trim() || `Call ${call.id}`,
+      occurredAt: call.started ?? new Date().toISOString(),
+      durationSeconds: call.duration ?? null,
+      participants: (call.parties ?? []).map((party) => ({
+        name: party.name ?? null,
+        email: party.emailAddress?.toLowerCase() ?? null,
+        role: party.affiliation === "INTERNAL" ? ("host" as const) : ("participant" as const),
+        affiliation: GONG_AFFILIATIONS[party.affiliation ?? "UNKNOWN"],
+      })),
+      transcriptText,
+      segments,
+      metadata: {
+        gongCallId: call.id,
+        recordingUrl: call.media?.videoUrl ?? call.media?.audioUrl ?? call.url ?? null,
+        transcriptHash: hashText(transcriptText),
+        accountCandidates: extractAccountNamesFromCall(call, this.internalDomains),
+      },
+    };
+  }
+
   private endpoint(path: string): string {
     return `${this.config.baseUrl.replace(/\/$/, "")}${path}`;
   }
@@ -345,6 +411,11 @@ function parseGongTranscript(
   };
 }
 
+/** Cheap metadata check: zero-length calls were never recorded, so they cannot have a transcript. */
+function mayHaveTranscript(call: z.infer<typeof GongCallSchema>): boolean {
+  return call.duration == null || call.duration > 0;
+}
+
 function resolveCallAccountName(
   call: z.infer<typeof GongCallSchema>,
   internalDomains: Set<string>
@@ -7,11 +7,15 @@ import {
   parseCommaSeparated,
   uniqueAccountCandidates,
 } from "./account-utils.js";
+import { ProviderHttpClient, ProviderNotFoundError } from "./httpClient.js";
+import type { HttpClientOptions } from "./httpClient.js";
 import type {
   CanonicalCall,
   CallProvider,
   DiscoveredAccount,
   ProviderFetchInput,
+  ProviderSyncInput,
+  ProviderSyncPage,
 } from "../types/domain.js";
 
 const GrainParticipantSchema = z.object({
@@ -43,6 +47,7 @@ const GrainRecordingSchema = z.object({
   url: z.string().optional(),
   duration: z.number().optional(),
   started_at: z.string().optional(),
+  has_transcript: z.boolean().optional(),
   participants: z.array(GrainParticipantSchema).optional(),
   transcript: GrainTranscriptSchema.optional(),
   account: z.union([z.string(), z.object({ name: z.string().optional() })]).optional(),
@@ -66,6 +71,7 @@ interface GrainProviderConfig {
   apiToken: string;
   baseUrl: string;
   internalDomains?: string;
+  http?: Omit<HttpClientOptions, "provider" | "authHint">;
 }
 
 interface FetchedGrainCall {
@@ -75,17 +81,29 @@ interface FetchedGrainCall {
   derivedAccountName: string;
 }
 
+interface FetchedGrainPage {
+  rows: FetchedGrainCall[];
+  cursor: string | null;
+  complete: boolean;
+}
+
 export class GrainProvider implements CallProvider {
   readonly name = "grain";
 
   private readonly internalDomains: Set<string>;
+  private readonly http: ProviderHttpClient;
 
   constructor(private readonly config: GrainProviderConfig) {
     this.internalDomains = new Set(parseCommaSeparated(config.internalDomains));
+    this.http = new ProviderHttpClient({
+      ...config.http,
+      provider: "Grain",
+      authHint: "Check GRAIN_API_TOKEN.",
+    });
   }
 
   async fetchCalls(input: ProviderFetchInput): Promise<CanonicalCall[]> {
-    const rows = await this.fetchAndDerive(input);
+    const { rows } = await this.fetchAndDerive(input);
     const normalizedTarget = input.accountName
       ? normalizeAccountName(input.accountName)
       : null;
@@ -98,43 +116,55 @@ export class GrainProvider implements CallProvider {
 
     return filtered
       .slice(0, maxCalls)
-      .map((row) => ({
-        provider: "grain",
-        providerCallId: row.call.id,
-        accountId: accountIdFromName(row.derivedAccountName),
-        accountName: row.derivedAccountName,
-        title: row.call.title?.trim() || `Call ${row.call.id}`,
-        occurredAt: row.call.started_at ?? new Date().toISOString(),
-        durationSeconds: row.call.duration ?? null,
-        participants: (row.call.participants ?? []).map((p) => ({
-          name: p.name ?? null,
-          email: p.email?.toLowerCase() ?? null,
-          role: p.is_host ?? p.is_organizer ? ("host" as const) : ("participant" as const),
-        })),
-        transcriptText: row.transcriptText,
-        segments: row.segments,
-        metadata: {
-          grainRecordingId: row.call.id,
-          recordingUrl: row.call.url ?? null,
-          transcriptHash: hashText(row.transcriptText),
-          accountCandidates: extractAccountNamesFromRecording(row.call, this.internalDomains),
-        },
-      }))
+      .map((row) => this.toCanonicalCall(row))
       .sort((a, b) => a.occurredAt.localeCompare(b.occurredAt));
   }
 
+  async syncCalls(input: ProviderSyncInput): Promise<ProviderSyncPage> {
+    const page = await this.fetchAndDerive(input, input.cursor ?? null);
+    return {
+      calls: page.rows
+        .map((row) => this.toCanonicalCall(row))
+        .sort((a, b) => a.occurredAt.localeCompare(b.occurredAt)),
+      cursor: page.cursor,
+      complete: page.complete,
+    };
+  }
+
   async discoverAccounts(input: ProviderFetchInput): Promise<DiscoveredAccount[]> {
-    const rows = await this.fetchAndDerive({ ...input, maxCalls: input.maxCalls ?? 1200 });
+    const maxCalls = input.maxCalls ?? 1200;
     const counter = new Map<string, { name: string; count: number }>();
+    let cursor: string | null = null;
+    let seen = 0;
+
+    // Discovery only reads the list payload; transcripts are checked lazily in fetchCalls.
+    while (seen < maxCalls) {
+      const params = new URLSearchParams();
+      params.set("limit", "100");
+      if (cursor) params.set("cursor", cursor);
+      if (input.fromDate) params.set("started_after", toIso(input.fromDate, false));
+      if (input.toDate) params.set("started_before", toIso(input.toDate, true));
+
+      const payload = await this.requestList(params);
 
-    for (const row of rows) {
-      const normalized = normalizeAccountName(row.derivedAccountName);
-      const current = counter.get(normalized);
-      if (!current) {
-        counter.set(normalized, { name: row.derivedAccountName, count: 1 });
-      } else {
-        current.count += 1;
+      for (const call of payload.recordings.slice(0, maxCalls - seen)) {
+        seen += 1;
+        if (!mayHaveTranscript(call)) continue;
+
+        const derivedAccountName = resolveRecordingAccountName(call, this.internalDomains);
+        const normalized = normalizeAccountName(derivedAccountName);
+        const current = counter.get(normalized);
+        if (!current) {
+          counter.set(normalized, { name: derivedAccountName, count: 1 });
+        } else {
+          current.count += 1;
+        }
       }
+
+      if (!payload.cursor || payload.has_more === false) {
+        break;
+      }
+      cursor = payload.cursor;
     }
 
     return [...counter.entries()]
@@ -147,13 +177,17 @@ export class GrainProvider implements CallProvider {
       .sort((a, b) => b.callCount - a.callCount || a.name.localeCompare(b.name));
   }
 
-  private async fetchAndDerive(input: ProviderFetchInput): Promise<FetchedGrainCall[]> {
+  private async fetchAndDerive(
+    input: ProviderFetchInput,
+    startCursor: string | null = null
+  ): Promise<FetchedGrainPage> {
     const rows: FetchedGrainCall[] = [];
     const maxCalls = input.maxCalls ?? 500;
-    let cursor: string | null = null;
-    let done = false;
+    let cursor: string | null = startCursor;
+    let complete = false;
 
-    while (!done) {
+    // Pages are always consumed whole so the returned cursor can resume exactly where we stopped.
+    while (true) {
       const params = new URLSearchParams();
       params.set("limit", "100");
       params.set("transcript_format", "sentences");
@@ -162,9 +196,12 @@ export class GrainProvider implements CallProvider {
       if (input.toDate) params.set("started_before", toIso(input.toDate, true));
 
       const payload = await this.requestList(params);
+      const transcripts = await Promise.all(
+        payload.recordings.map((call) => this.getTranscript(call))
+      );
 
-      for (const call of payload.recordings) {
-        const transcript = await this.getTranscript(call);
+      for (const [index, call] of payload.recordings.entries()) {
+        const transcript = transcripts[index];
         if (!transcript.transcriptText.trim()) {
           continue;
         }
@@ -175,43 +212,26 @@ export class GrainProvider implements CallProvider {
           segments: transcript.segments,
           derivedAccountName: resolveRecordingAccountName(call, this.internalDomains),
         });
-
-        if (rows.length >= maxCalls) {
-          done = true;
-          break;
-        }
       }
 
-      if (!payload.cursor || payload.has_more === false || done) {
+      if (!payload.cursor || payload.has_more === false) {
+        complete = true;
         break;
       }
       cursor = payload.cursor;
+
+      if (rows.length >= maxCalls) {
+        break;
+      }
     }
 
-    return rows;
+    return { rows, cursor: complete ? null : cursor, complete };
   }
 
   private async requestList(params: URLSearchParams): Promise<z.infer<typeof GrainListResponseSchema>> {
-    const primary = `${this.config.baseUrl.replace(/\/$/, "")}/recordings?${params.toString()}`;
-    let response = await fetch(primary, {
-      method: "GET",
-      headers: this.headers(),
-    });
-
-    if (response.status === 404) {
-      const fallback = `${this.config.baseUrl.replace(/\/$/, "")}/v1/recordings?${params.toString()}`;
-      response = await fetch(fallback, {
-        method: "GET",
-        headers: this.headers(),
-      });
-    }
-
-    if (!response.ok) {
-      const bodyText = await response.text();
-      throw new Error(`Grain list fetch failed (${response.status}): ${bodyText}`);
-    }
-
-    return GrainListResponseSchema.parse(await response.json());
+    return GrainListResponseSchema.parse(
+      await this.requestWithFallback(`/recordings?${params.toString()}`, "list fetch")
+    );
   }
 
   private async getTranscript(
@@ -229,26 +249,52 @@ export class GrainProvider implements CallProvider {
   private async requestDetail(id: string): Promise<z.infer<typeof GrainDetailResponseSchema>> {
     const params = new URLSearchParams();
     params.set("transcript_format", "sentences");
-    const primary = `${this.config.baseUrl.replace(/\/$/, "")}/recordings/${encodeURIComponent(id)}?${params.toString()}`;
-    let response = await fetch(primary, {
-      method: "GET",
-      headers: this.headers(),
-    });
+    return GrainDetailResponseSchema.parse(
+      await this.requestWithFallback(
+        `/recordings/${encodeURIComponent(id)}?${params.toString()}`,
+        "detail fetch"
+      )
+    );
+  }
 
-    if (response.status === 404) {
-      const fallback = `${this.config.baseUrl.replace(/\/$/, "")}/v1/recordings/${encodeURIComponent(id)}?${params.toString()}`;
-      response = await fetch(fallback, {
-        method: "GET",
-        headers: this.headers(),
-      });
-    }
+  private async requestWithFallback(pathAndQuery: string, operation: string): Promise<unknown> {
+    const base = this.config.baseUrl.replace(/\/$/, "");
+    const request = { operation, method: "GET" as const, headers: this.headers() };
 
-    if (!response.ok) {
-      const bodyText = await response.text();
-      throw new Error(`Grain detail fetch failed (${response.status}): ${bodyText}`);
+    try {
+      return await this.http.requestJson(`${base}${pathAndQuery}`, request);
+    } catch (error) {
+      if (!(error instanceof ProviderNotFoundError)) {
+        throw error;
+      }
+      // Older workspaces only expose the versioned path.
+      return this.http.requestJson(`${base}/v1${pathAndQuery}`, request);
     }
+  }
 
-    return GrainDetailResponseSchema.parse(await response.json());
+  private toCanonicalCall(row: FetchedGrainCall): CanonicalCall {
+    return {
+      provider: "grain",
+      providerCallId: row.call.id,
+      accountId: accountIdFromName(row.derivedAccountName),
+      accountName: row.derivedAccountName,
+      title: row.call.title?.trim() || `Call ${row.call.id}`,
+      occurredAt: row.call.started_at ?? new Date().toISOString(),
+      durationSeconds: row.call.duration ?? null,
+      participants: (row.call.participants ?? []).map((p) => ({
+        name: p.name ?? null,
+        email: p.email?.toLowerCase() ?? null,
+        role: p.is_host ?? p.is_organizer ? ("host" as const) : ("participant" as const),
+      })),
+      transcriptText: row.transcriptText,
+      segments: row.segments,
+      metadata: {
+        grainRecordingId: row.call.id,
+        recordingUrl: row.call.url ?? null,
+        transcriptHash: hashText(row.transcriptText),
+        accountCandidates: extractAccountNamesFromRecording(row.call, this.internalDomains),
+      },
+    };
   }
 
   private headers(): Record<string, string> {
@@ -303,6 +349,12 @@ function parseGrainTranscript(
   };
 }
 
+/** Cheap list-payload check so discovery never has to download a transcript. */
+function mayHaveTranscript(call: z.infer<typeof GrainRecordingSchema>): boolean {
+  if (call.has_transcript === false) return false;
+  return call.duration == null || call.duration > 0;
+}
+
 function resolveRecordingAccountName(
   call: z.infer<typeof GrainRecordingSchema>,
   internalDomains: Set<string>
@@ -0,0 +1,263 @@
+export interface HttpPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  timeoutMs: number;
+  concurrency: number;
+}
+
+export interface HttpClientOptions extends Partial<HttpPolicy> {
+  /** Human-readable provider name used in error messages, e.g. "Gong". */
+  provider: string;
+  /** Appended to auth errors so the user knows which credential to fix. */
+  authHint?: string;
+  fetchImpl?: typeof fetch;
+  sleep?: (ms: number) => Promise<void>;
+}
+
+export interface HttpRequest {
+  /** Short label for the call, e.g. "calls fetch"; used in error messages. */
+  operation: string;
+  method?: "GET" | "POST";
+  headers?: Record<string, string>;
+  body?: string;
+}
+
+export const DEFAULT_HTTP_POLICY: HttpPolicy = {
+  maxAttempts: 5,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+  timeoutMs: 60_000,
+  concurrency: 4,
+};
+
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+export class ProviderHttpError extends Error {
+  constructor(
+    message: string,
+    readonly provider: string,
+    readonly status: number | null,
+    readonly attempts: number
+  ) {
+    super(message);
+    this.name = "ProviderHttpError";
+  }
+}
+
+export class ProviderAuthError extends ProviderHttpError {
+  constructor(message: string, provider: string, status: number, attempts: number) {
+    super(message, provider, status, attempts);
+    this.name = "ProviderAuthError";
+  }
+}
+
+export class ProviderRateLimitError extends ProviderHttpError {
+  constructor(
+    message: string,
+    provider: string,
+    attempts: number,
+    readonly retryAfterMs: number | null
+  ) {
+    super(message, provider, 429, attempts);
+    this.name = "ProviderRateLimitError";
+  }
+}
+
+export class ProviderNotFoundError extends ProviderHttpError {
+  constructor(message: string, provider: string, attempts: number) {
+    super(message, provider, 404, attempts);
+    this.name = "ProviderNotFoundError";
+  }
+}
+
+export class ProviderServerError extends ProviderHttpError {
+  constructor(message: string, provider: string, status: number | null, attempts: number) {
+    super(message, provider, status, attempts);
+    this.name = "ProviderServerError";
+  }
+}
+
+export class ProviderHttpClient {
+  private readonly policy: HttpPolicy;
+  private readonly fetchImpl: typeof fetch;
+  private readonly sleep: (ms: number) => Promise<void>;
+  private active = 0;
+  private readonly waiting: Array<() => void> = [];
+
+  constructor(private readonly options: HttpClientOptions) {
+    this.policy = {
+      maxAttempts: options.maxAttempts ?? DEFAULT_HTTP_POLICY.maxAttempts,
+      baseDelayMs: options.baseDelayMs ?? DEFAULT_HTTP_POLICY.baseDelayMs,
+      maxDelayMs: options.maxDelayMs ?? DEFAULT_HTTP_POLICY.maxDelayMs,
+      timeoutMs: options.timeoutMs ?? DEFAULT_HTTP_POLICY.timeoutMs,
+      concurrency: Math.max(1, options.concurrency ?? DEFAULT_HTTP_POLICY.concurrency),
+    };
+    this.fetchImpl = options.fetchImpl ?? fetch;
+    this.sleep = options.sleep ?? ((ms) => new Promise((resolve) => setTimeout(resolve, ms)));
+  }
+
+  /**
+   * Performs a request and returns the parsed JSON body. Transient failures (network errors,
+   * timeouts, 408/425/429/5xx) are retried with exponential backoff, honouring Retry-After.
+   */
+  async requestJson(url: string | URL, request: HttpRequest): Promise<unknown> {
+    const text = await this.requestText(url, request);
+    return text.trim() ? JSON.parse(text) : {};
+  }
+
+  /** Same retry behaviour as `requestJson`, for non-JSON bodies such as transcript files. */
+  async requestText(url: string | URL, request: HttpRequest): Promise<string> {
+    let lastFailure: { status: number | null; detail: string; retryAfterMs: number | null } | null = null;
+
+    for (let attempt = 1; attempt <= this.policy.maxAttempts; attempt += 1) {
+      const outcome = await this.withSlot(() => this.attempt(url, request));
+
+      if (outcome.ok) {
+        return outcome.body;
+      }
+
+      lastFailure = outcome;
+      if (!outcome.retryable || attempt === this.policy.maxAttempts) {
+        throw this.toError(request, outcome, attempt);
+      }
+
+      await this.sleep(this.retryDelay(attempt, outcome.retryAfterMs));
+    }
+
+    throw this.toError(
+      request,
+      lastFailure ?? { status: null, detail: "no attempts made", retryAfterMs: null },
+      this.policy.maxAttempts
+    );
+  }
+
+  private async attempt(
+    url: string | URL,
+    request: HttpRequest
+  ): Promise<
+    | { ok: true; body: string }
+    | { ok: false; retryable: boolean; status: number | null; detail: string; retryAfterMs: number | null }
+  > {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.policy.timeoutMs);
+
+    try {
+      const response = await this.fetchImpl(url, {
+        method: request.method ?? "GET",
+        headers: request.headers,
+        body: request.body,
+        signal: controller.signal,
+      });
+
+      if (response.ok) {
+        return { ok: true, body: await response.text() };
+      }
+
+      const detail = truncate(await response.text().catch(() => ""));
+      return {
+        ok: false,
+        retryable: RETRYABLE_STATUSES.has(response.status),
+        status: response.status,
+        detail,
+        retryAfterMs: parseRetryAfter(response.headers.get("retry-after")),
+      };
+    } catch (error) {
+      const detail = controller.signal.aborted
+        ? `timed out after ${this.policy.timeoutMs}ms`
+        : error instanceof Error
+          ? error.message
+          : String(error);
+      return { ok: false, retryable: true, status: null, detail, retryAfterMs: null };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private toError(
+    request: HttpRequest,
+    failure: { status: number | null; detail: string; retryAfterMs: number | null },
+    attempts: number
+  ): ProviderHttpError {
+    const provider = this.options.provider;
+    const label = `${provider} ${request.operation} failed`;
+    const tries = attempts > 1 ? ` after ${attempts} attempts` : "";
+    const detail = failure.detail ? `: ${failure.detail}` : "";
+
+    if (failure.status === 401 || failure.status === 403) {
+      const hint = this.options.authHint ? ` ${this.options.authHint}` : "";
+      return new ProviderAuthError(
+        `${label} (${failure.status}): credentials were rejected.${hint}${detail}`,
+        provider,
+        failure.status,
+        attempts
+      );
+    }
+
+    if (failure.status === 429) {
+      return new ProviderRateLimitError(
+        `${label} (429)${tries}: rate limit still exceeded. Wait a few minutes or lower maxCalls / the date range, then retry.${detail}`,
+        provider,
+        attempts,
+        failure.retryAfterMs
+      );
+    }
+
+    if (failure.status === 404) {
+      return new ProviderNotFoundError(`${label} (404)${detail}`, provider, attempts);
+    }
+
+    if (failure.status == null || failure.status >= 500 || RETRYABLE_STATUSES.has(failure.status)) {
+      const status = failure.status ?? "network error";
+      return new ProviderServerError(
+        `${label} (${status})${tries}. ${provider} may be degraded; retry later.${detail}`,
+        provider,
+        failure.status,
+        attempts
+      );
+    }
+
+    return new ProviderHttpError(`${label} (${failure.status})${detail}`, provider, failure.status, attempts);
+  }
+
+  private retryDelay(attempt: number, retryAfterMs: number | null): number {
+    if (retryAfterMs != null) {
+      return Math.min(retryAfterMs, this.policy.maxDelayMs);
+    }
+    const exponential = this.policy.baseDelayMs * 2 ** (attempt - 1);
+    const jitter = Math.random() * this.policy.baseDelayMs;
+    return Math.min(exponential + jitter, this.policy.maxDelayMs);
+  }
+
+  private async withSlot<T>(task: () => Promise<T>): Promise<T> {
+    while (this.active >= this.policy.concurrency) {
+      await new Promise<void>((resolve) => this.waiting.push(resolve));
+    }
+
+    this.active += 1;
+    try {
+      return await task();
+    } finally {
+      this.active -= 1;
+      this.waiting.shift()?.();
+    }
+  }
+}
+
+export function parseRetryAfter(raw: string | null): number | null {
+  if (!raw) return null;
+  const trimmed = raw.trim();
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(Number(trimmed) * 1000);
+  }
+
+  const date = Date.parse(trimmed);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - Date.now());
+}
+
+function truncate(text: string, max = 500): string {
+  const trimmed = text.trim();
+  return trimmed.length > max ? `${trimmed.slice(0, max)}...` : trimmed;
+}
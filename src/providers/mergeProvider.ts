@@ -3,6 +3,8 @@ import {
   accountIdFromName,
   normalizeAccountName,
 } from "./account-utils.js";
+import { ProviderHttpClient } from "./httpClient.js";
+import type { HttpClientOptions } from "./httpClient.js";
 import type {
   CanonicalCall,
   CallProvider,
@@ -37,12 +39,21 @@ interface MergeProviderConfig {
   baseUrl: string;
   accountName: string;
   fallbackAccountId: string;
+  http?: Omit<HttpClientOptions, "provider" | "authHint">;
 }
 
 export class MergeProvider implements CallProvider {
   readonly name = "merge";
 
-  constructor(private readonly config: MergeProviderConfig) {}
+  private readonly http: ProviderHttpClient;
+
+  constructor(private readonly config: MergeProviderConfig) {
+    this.http = new ProviderHttpClient({
+      ...config.http,
+      provider: "Merge",
+      authHint: "Check MERGE_API_KEY and MERGE_ACCOUNT_TOKEN.",
+    });
+  }
 
   async fetchCalls(input: ProviderFetchInput): Promise<CanonicalCall[]> {
     const targetAccountName = input.accountName?.trim();
@@ -65,20 +76,16 @@ export class MergeProvider implements CallProvider {
       url.searchParams.set("page_size", "100");
       if (cursor) url.searchParams.set("cursor", cursor);
 
-      const response = await fetch(url, {
-        headers: {
-          Authorization: `Bearer ${this.config.apiKey}`,
-          "X-Account-Token": this.config.accountToken,
-          "Content-Type": "application/json",
-        },
-      });
-
-      if (!response.ok) {
-        const body = await response.text();
-        throw new Error(`Merge fetch failed (${response.status}): ${body}`);
-      }
-
-      const parsed = MergePageSchema.parse(await response.json());
+      const parsed = MergePageSchema.parse(
+        await this.http.requestJson(url, {
+          operation: "recordings fetch",
+          headers: {
+            Authorization: `Bearer ${this.config.apiKey}`,
+            "X-Account-Token": this.config.accountToken,
+            "Content-Type": "application/json",
+          },
+        })
+      );
 
       for (const rec of parsed.results) {
         if (!rec.transcript || rec.transcript.trim().length === 0) continue;
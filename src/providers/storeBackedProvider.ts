@@ -0,0 +1,147 @@
+import { CorpusStore, credentialFingerprint, resolveCorpusStoreDir } from "../store/corpusStore.js";
+import type { CorpusSyncState, CorpusSyncWindow } from "../store/corpusStore.js";
+import type {
+  CallProvider,
+  CanonicalCall,
+  DiscoveredAccount,
+  ProviderFetchInput,
+} from "../types/domain.js";
+
+// Calls can gain a transcript some time after they happen, so each incremental sync
+// re-reads a short window before the newest call already stored.
+const SYNC_OVERLAP_MS = 2 * 24 * 60 * 60 * 1000;
+const DEFAULT_SYNC_BATCH_SIZE = 200;
+
+interface StoreBackedProviderOptions {
+  syncBatchSize?: number;
+}
+
+interface CorpusStoreOptions {
+  storeDir?: string;
+  /** Values identifying the workspace, e.g. base URL and credential. Only a hash is persisted. */
+  scope: Array<string | null | undefined>;
+}
+
+type PendingWindow = CorpusSyncWindow & { cursor: string | null };
+
+export class StoreBackedProvider implements CallProvider {
+  readonly name: string;
+
+  constructor(
+    private readonly provider: CallProvider,
+    private readonly store: CorpusStore,
+    private readonly options: StoreBackedProviderOptions = {}
+  ) {
+    this.name = provider.name;
+  }
+
+  async fetchCalls(input: ProviderFetchInput): Promise<CanonicalCall[]> {
+    if (!this.provider.syncCalls) {
+      return this.provider.fetchCalls(input);
+    }
+
+    const calls = await this.store.exclusive(async () => {
+      await this.sync(input);
+      return this.store.readCalls({
+        accountName: input.accountName,
+        fromDate: input.fromDate,
+        toDate: input.toDate,
+      });
+    });
+
+    return calls.slice(0, input.maxCalls ?? calls.length);
+  }
+
+  async discoverAccounts(input: ProviderFetchInput): Promise<DiscoveredAccount[]> {
+    if (!this.provider.discoverAccounts) {
+      throw new Error(`Provider ${this.provider.name} does not support account discovery`);
+    }
+    return this.provider.discoverAccounts(input);
+  }
+
+  private async sync(input: ProviderFetchInput): Promise<void> {
+    if (input.refresh) {
+      await this.store.clear();
+    }
+
+    const existing = await this.store.readState();
+    const state: CorpusSyncState = existing ?? {
+      provider: this.provider.name,
+      syncedAt: new Date().toISOString(),
+      coveredFrom: input.fromDate ?? null,
+      newestOccurredAt: null,
+      pending: null,
+    };
+
+    if (state.pending) {
+      await this.syncWindow(state, state.pending);
+    }
+
+    if (!existing) {
+      await this.syncWindow(state, { fromDate: input.fromDate, cursor: null });
+      return;
+    }
+
+    if (startsEarlier(input.fromDate, state.coveredFrom)) {
+      await this.syncWindow(state, {
+        fromDate: input.fromDate,
+        toDate: state.coveredFrom ?? undefined,
+        cursor: null,
+      });
+      state.coveredFrom = input.fromDate ?? null;
+      await this.store.writeState(state);
+    }
+
+    const incrementalFrom = state.newestOccurredAt
+      ? new Date(new Date(state.newestOccurredAt).getTime() - SYNC_OVERLAP_MS).toISOString()
+      : state.coveredFrom ?? undefined;
+
+    await this.syncWindow(state, { fromDate: incrementalFrom, cursor: null });
+  }
+
+  private async syncWindow(state: CorpusSyncState, window: PendingWindow): Promise<void> {
+    let cursor = window.cursor;
+
+    while (true) {
+      const page = await this.provider.syncCalls!({
+        fromDate: window.fromDate,
+        toDate: window.toDate,
+        cursor,
+        maxCalls: this.options.syncBatchSize ?? DEFAULT_SYNC_BATCH_SIZE,
+      });
+
+      await this.store.upsertCalls(page.calls);
+
+      for (const call of page.calls) {
+        if (!state.newestOccurredAt || call.occurredAt > state.newestOccurredAt) {
+          state.newestOccurredAt = call.occurredAt;
+        }
+      }
+      state.syncedAt = new Date().toISOString();
+      state.pending = page.complete
+        ? null
+        : { fromDate: window.fromDate, toDate: window.toDate, cursor: page.cursor };
+      await this.store.writeState(state);
+
+      if (page.complete) {
+        return;
+      }
+      cursor = page.cursor;
+    }
+  }
+}
+
+export function withCorpusStore(provider: CallProvider, options: CorpusStoreOptions): CallProvider {
+  const store = CorpusStore.open(
+    resolveCorpusStoreDir(options.storeDir),
+    provider.name,
+    credentialFingerprint(...options.scope)
+  );
+  return new StoreBackedProvider(provider, store);
+}
+
+function startsEarlier(requested: string | undefined, coveredFrom: string | null): boolean {
+  if (coveredFrom == null) return false;
+  if (requested == null) return true;
+  return new Date(requested).getTime() < new Date(coveredFrom).getTime();
+}
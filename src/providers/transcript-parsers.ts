@@ -0,0 +1,181 @@
+import type { CallSegment } from "../types/domain.js";
+
+export type TranscriptFormat = "vtt" | "srt" | "txt";
+
+export interface ParsedTranscriptFile {
+  segments: CallSegment[];
+  /** Lower-cased `key: value` header fields (e.g. title, date, account) found before the first cue. */
+  headers: Record<string, string>;
+}
+
+const CUE_TIMING = /^((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s*-->\s*((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+const TXT_TIMESTAMP = /^\[?((?:\d+:)?\d{1,2}:\d{2}(?:[.,]\d{1,3})?)\]?\s+/;
+const SPEAKER_PREFIX = /^([A-Za-z][^:]{0,59}):\s+(.+)$/;
+const HEADER_LINE = /^(title|date|account|meeting|company)\s*:\s*(.+)$/i;
+
+export function formatFromFileName(fileName: string): TranscriptFormat | null {
+  const ext = fileName.toLowerCase().split(".").pop();
+  if (ext === "vtt" || ext === "srt" || ext === "txt") return ext;
+  return null;
+}
+
+export function parseTranscriptFile(content: string, format: TranscriptFormat): ParsedTranscriptFile {
+  if (format === "vtt") return parseVtt(content);
+  if (format === "srt") return parseSrt(content);
+  return parsePlainText(content);
+}
+
+/** WebVTT as exported by Zoom (`Name: text`) and Teams (`<v Name>text</v>`). */
+export function parseVtt(content: string): ParsedTranscriptFile {
+  const headers: Record<string, string> = {};
+  const segments: CallSegment[] = [];
+
+  for (const block of splitBlocks(content)) {
+    const lines = block.split("\n");
+
+    if (/^(WEBVTT|NOTE)\b/.test(lines[0])) {
+      const headerLines = [lines[0].replace(/^(WEBVTT|NOTE)\s*-?\s*/, ""), ...lines.slice(1)];
+      collectHeaders(headerLines, headers);
+      continue;
+    }
+    if (/^(STYLE|REGION)\b/.test(lines[0])) {
+      continue;
+    }
+
+    const cue = parseCueBlock(lines);
+    if (cue) segments.push(cue);
+  }
+
+  return { segments, headers };
+}
+
+export function parseSrt(content: string): ParsedTranscriptFile {
+  const segments: CallSegment[] = [];
+  for (const block of splitBlocks(content)) {
+    const cue = parseCueBlock(block.split("\n"));
+    if (cue) segments.push(cue);
+  }
+  return { segments, headers: {} };
+}
+
+/**
+ * Plain text: optional header lines (`Title: ...`), then utterances optionally prefixed by a
+ * `[hh:mm:ss]` timestamp and a `Speaker:` label. Unlabelled lines continue the previous
+ * utterance until a blank line.
+ */
+export function parsePlainText(content: string): ParsedTranscriptFile {
+  const headers: Record<string, string> = {};
+  const lines = normalizeNewlines(content).split("\n");
+  let index = 0;
+
+  while (index < lines.length && (HEADER_LINE.test(lines[index].trim()) || !lines[index].trim())) {
+    collectHeaders([lines[index]], headers);
+    index += 1;
+  }
+
+  const segments: CallSegment[] = [];
+  let paragraphBreak = true;
+  for (const rawLine of lines.slice(index)) {
+    let line = rawLine.trim();
+    if (!line) {
+      paragraphBreak = true;
+      continue;
+    }
+
+    let startMs: number | null = null;
+    const timestamp = line.match(TXT_TIMESTAMP);
+    if (timestamp) {
+      startMs = parseClock(timestamp[1]);
+      line = line.slice(timestamp[0].length).trim();
+    }
+
+    const { speaker, text } = splitSpeaker(line);
+    if (!text) continue;
+
+    if (!timestamp && !speaker && !paragraphBreak && segments.length > 0) {
+      // Wrapped line continuing the previous utterance.
+      const previous = segments[segments.length - 1];
+      previous.text = `${previous.text} ${text}`;
+      continue;
+    }
+
+    segments.push({ speaker, text, startMs, endMs: null });
+    paragraphBreak = false;
+  }
+
+  return { segments, headers };
+}
+
+export function segmentsToTranscriptText(segments: CallSegment[]): string {
+  return segments
+    .map((segment) => (segment.speaker ? `${segment.speaker}: ${segment.text}` : segment.text))
+    .join("\n");
+}
+
+/** Parses `hh:mm:ss.mmm`, `mm:ss,mmm` or `h:mm:ss` into milliseconds. */
+export function parseClock(value: string): number | null {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?$/);
+  if (!match) return null;
+  const [, hours, minutes, seconds, fraction] = match;
+  return (
+    Number(hours ?? 0) * 3_600_000 +
+    Number(minutes) * 60_000 +
+    Number(seconds) * 1000 +
+    Number((fraction ?? "0").padEnd(3, "0"))
+  );
+}
+
+function parseCueBlock(lines: string[]): CallSegment | null {
+  const timingIndex = lines.findIndex((line) => CUE_TIMING.test(line));
+  if (timingIndex === -1) return null;
+
+  const timing = lines[timingIndex].match(CUE_TIMING)!;
+  const rawText = lines
+    .slice(timingIndex + 1)
+    .join(" ")
+    .trim();
+  if (!rawText) return null;
+
+  const voice = rawText.match(/^<v(?:\.[^\s>]+)?\s+([^>]+)>/);
+  const withoutTags = rawText.replace(/<[^>]+>/g, "").replace(/\s+/g, " ").trim();
+  const { speaker, text } = voice
+    ? { speaker: voice[1].trim(), text: withoutTags }
+    : splitSpeaker(withoutTags);
+
+  if (!text) return null;
+
+  return {
+    speaker,
+    text,
+    startMs: parseClock(timing[1]),
+    endMs: parseClock(timing[2]),
+  };
+}
+
+function splitSpeaker(line: string): { speaker: string | null; text: string } {
+  const match = line.match(SPEAKER_PREFIX);
+  if (!match || HEADER_LINE.test(line)) {
+    return { speaker: null, text: line.trim() };
+  }
+  return { speaker: match[1].trim(), text: match[2].trim() };
+}
+
+function collectHeaders(lines: string[], headers: Record<string, string>): void {
+  for (const line of lines) {
+    const match = line.trim().match(HEADER_LINE);
+    if (match) {
+      headers[match[1].toLowerCase()] = match[2].trim();
+    }
+  }
+}
+
+function splitBlocks(content: string): string[] {
+  return normalizeNewlines(content)
+    .split(/\n\s*\n/)
+    .map((block) => block.trim())
+    .filter((block) => block.length > 0);
+}
+
+function normalizeNewlines(content: string): string {
+  return content.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+}
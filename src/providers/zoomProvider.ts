@@ -0,0 +1,512 @@
+import { createHash } from "node:crypto";
+import { z } from "zod";
+import {
+  accountIdFromName,
+  companyNameFromEmail,
+  normalizeAccountName,
+  parseCommaSeparated,
+  uniqueAccountCandidates,
+} from "./account-utils.js";
+import { ProviderHttpClient, ProviderNotFoundError } from "./httpClient.js";
+import type { HttpClientOptions } from "./httpClient.js";
+import { parseVtt, segmentsToTranscriptText } from "./transcript-parsers.js";
+import type {
+  CallParticipant,
+  CanonicalCall,
+  CallProvider,
+  DiscoveredAccount,
+  ProviderFetchInput,
+  ProviderSyncInput,
+  ProviderSyncPage,
+} from "../types/domain.js";
+
+const ZoomRecordingFileSchema = z.object({
+  id: z.string().optional(),
+  file_type: z.string().optional(),
+  file_extension: z.string().optional(),
+  recording_type: z.string().optional(),
+  download_url: z.string().optional(),
+  status: z.string().optional(),
+});
+
+const ZoomMeetingSchema = z.object({
+  uuid: z.string(),
+  id: z.union([z.string(), z.number()]).optional(),
+  topic: z.string().optional(),
+  start_time: z.string().optional(),
+  duration: z.number().optional(),
+  host_email: z.string().optional(),
+  share_url: z.string().optional(),
+  recording_files: z.array(ZoomRecordingFileSchema).optional(),
+});
+
+const ZoomRecordingsResponseSchema = z.object({
+  meetings: z.array(ZoomMeetingSchema).default([]),
+  next_page_token: z.string().optional(),
+});
+
+const ZoomParticipantSchema = z.object({
+  name: z.string().optional(),
+  user_email: z.string().optional(),
+});
+
+const ZoomParticipantsResponseSchema = z.object({
+  participants: z.array(ZoomParticipantSchema).default([]),
+  next_page_token: z.string().optional(),
+});
+
+const ZoomTokenResponseSchema = z.object({
+  access_token: z.string(),
+  expires_in: z.number().optional(),
+});
+
+interface ZoomProviderConfig {
+  baseUrl: string;
+  oauthUrl: string;
+  accessToken?: string;
+  accountId?: string;
+  clientId?: string;
+  clientSecret?: string;
+  /** Zoom user whose cloud recordings are listed; `me` for the token owner. */
+  userId?: string;
+  internalDomains?: string;
+  http?: Omit<HttpClientOptions, "provider" | "authHint">;
+}
+
+type ZoomMeeting = z.infer<typeof ZoomMeetingSchema>;
+
+interface FetchedZoomCall {
+  meeting: ZoomMeeting;
+  participants: CallParticipant[];
+  transcriptText: string;
+  segments: CanonicalCall["segments"];
+  derivedAccountName: string;
+}
+
+interface FetchedZoomPage {
+  rows: FetchedZoomCall[];
+  cursor: string | null;
+  complete: boolean;
+}
+
+interface RecordingWindow {
+  from: string;
+  to: string;
+}
+
+// The recordings endpoint rejects ranges longer than a month.
+const WINDOW_DAYS = 30;
+const DEFAULT_LOOKBACK_DAYS = 180;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Zoom cloud recordings with their generated VTT transcripts. Authenticates with a
+ * Server-to-Server OAuth app (account id + client credentials) or a pre-issued access token.
+ */
+export class ZoomProvider implements CallProvider {
+  readonly name = "zoom";
+
+  private readonly internalDomains: Set<string>;
+  private readonly http: ProviderHttpClient;
+  private token: Promise<{ value: string; expiresAt: number }> | null = null;
+
+  constructor(private readonly config: ZoomProviderConfig) {
+    if (!config.accessToken && !(config.accountId && config.clientId && config.clientSecret)) {
+      throw new Error(
+        "Zoom credentials are required: set ZOOM_ACCESS_TOKEN or ZOOM_ACCOUNT_ID + ZOOM_CLIENT_ID + ZOOM_CLIENT_SECRET"
+      );
+    }
+
+    this.internalDomains = new Set(parseCommaSeparated(config.internalDomains));
+    this.http = new ProviderHttpClient({
+      ...config.http,
+      provider: "Zoom",
+      authHint:
+        "Check ZOOM_ACCOUNT_ID / ZOOM_CLIENT_ID / ZOOM_CLIENT_SECRET and that the app has the cloud_recording:read and meeting:read scopes.",
+    });
+  }
+
+  async fetchCalls(input: ProviderFetchInput): Promise<CanonicalCall[]> {
+    const { rows } = await this.fetchAndDerive(input);
+    const normalizedTarget = input.accountName
+      ? normalizeAccountName(input.accountName)
+      : null;
+
+    const filtered = normalizedTarget
+      ? rows.filter((row) => normalizeAccountName(row.derivedAccountName) === normalizedTarget)
+      : rows;
+
+    const maxCalls = input.maxCalls ?? filtered.length;
+
+    return filtered
+      .slice(0, maxCalls)
+      .map((row) => this.toCanonicalCall(row))
+      .sort((a, b) => a.occurredAt.localeCompare(b.occurredAt));
+  }
+
+  async syncCalls(input: ProviderSyncInput): Promise<ProviderSyncPage> {
+    const page = await this.fetchAndDerive(input, input.cursor ?? null);
+    return {
+      calls: page.rows
+        .map((row) => this.toCanonicalCall(row))
+        .sort((a, b) => a.occurredAt.localeCompare(b.occurredAt)),
+      cursor: page.cursor,
+      complete: page.complete,
+    };
+  }
+
+  async discoverAccounts(input: ProviderFetchInput): Promise<DiscoveredAccount[]> {
+    const maxCalls = input.maxCalls ?? 1200;
+    const counter = new Map<string, { name: string; count: number }>();
+    let seen = 0;
+
+    // Discovery reads recording lists and participant rosters only; transcripts are never downloaded.
+    for (const window of recordingWindows(input.fromDate, input.toDate)) {
+      let pageToken: string | null = null;
+
+      do {
+        const payload = await this.requestRecordings(window, pageToken);
+        const meetings = payload.meetings
+          .filter((meeting) => withinRange(meeting, input) && transcriptFile(meeting))
+          .slice(0, maxCalls - seen);
+        seen += meetings.length;
+
+        const rosters = await Promise.all(meetings.map((meeting) => this.getParticipants(meeting)));
+        for (const [index, meeting] of meetings.entries()) {
+          const derivedAccountName = resolveMeetingAccountName(
+            meeting,
+            rosters[index],
+            this.internalDomains
+          );
+          const normalized = normalizeAccountName(derivedAccountName);
+          const current = counter.get(normalized);
+          if (!current) {
+            counter.set(normalized, { name: derivedAccountName, count: 1 });
+          } else {
+            current.count += 1;
+          }
+        }
+
+        pageToken = payload.next_page_token || null;
+      } while (pageToken && seen < maxCalls);
+
+      if (seen >= maxCalls) break;
+    }
+
+    return [...counter.entries()]
+      .map(([normalizedName, value]) => ({
+        name: value.name,
+        normalizedName,
+        source: "zoom",
+        callCount: value.count,
+      }))
+      .sort((a, b) => b.callCount - a.callCount || a.name.localeCompare(b.name));
+  }
+
+  private async fetchAndDerive(
+    input: ProviderFetchInput,
+    startCursor: string | null = null
+  ): Promise<FetchedZoomPage> {
+    const rows: FetchedZoomCall[] = [];
+    const maxCalls = input.maxCalls ?? 500;
+    const resume = decodeCursor(startCursor);
+    const windows = recordingWindows(resume?.from ?? input.fromDate, input.toDate);
+
+    // The cursor is "<window start>|<page token>" so a sync can resume mid-window.
+    for (const [index, window] of windows.entries()) {
+      let pageToken: string | null = index === 0 ? (resume?.pageToken ?? null) : null;
+
+      do {
+        const payload = await this.requestRecordings(window, pageToken);
+        const meetings = payload.meetings.filter(
+          (meeting) => withinRange(meeting, input) && transcriptFile(meeting)
+        );
+        const fetched = await Promise.all(meetings.map((meeting) => this.fetchMeeting(meeting)));
+        rows.push(...fetched.filter((row): row is FetchedZoomCall => row !== null));
+
+        pageToken = payload.next_page_token || null;
+
+        if (rows.length >= maxCalls) {
+          const next = pageToken ? window.from : windows[index + 1]?.from;
+          const cursor = next ? `${next}|${pageToken ?? ""}` : null;
+          return { rows, cursor, complete: cursor === null };
+        }
+      } while (pageToken);
+    }
+
+    return { rows, cursor: null, complete: true };
+  }
+
+  private async fetchMeeting(meeting: ZoomMeeting): Promise<FetchedZoomCall | null> {
+    const file = transcriptFile(meeting);
+    if (!file?.download_url) return null;
+
+    const [vtt, participants] = await Promise.all([
+      this.http.requestText(file.download_url, {
+        operation: "transcript download",
+        headers: { Authorization: `Bearer ${await this.accessToken()}` },
+      }),
+      this.getParticipants(meeting),
+    ]);
+
+    const segments = parseVtt(vtt).segments;
+    const transcriptText = segmentsToTranscriptText(segments);
+    if (!transcriptText.trim()) return null;
+
+    const roster = participants.length > 0 ? participants : participantsFromSpeakers(segments);
+
+    return {
+      meeting,
+      participants: roster,
+      transcriptText,
+      segments,
+      derivedAccountName: resolveMeetingAccountName(meeting, roster, this.internalDomains),
+    };
+  }
+
+  private async requestRecordings(
+    window: RecordingWindow,
+    pageToken: string | null
+  ): Promise<z.infer<typeof ZoomRecordingsResponseSchema>> {
+    const params = new URLSearchParams();
+    params.set("from", window.from);
+    params.set("to", window.to);
+    params.set("page_size", "300");
+    if (pageToken) params.set("next_page_token", pageToken);
+
+    const userId = encodeURIComponent(this.config.userId ?? "me");
+    return ZoomRecordingsResponseSchema.parse(
+      await this.request(`/users/${userId}/recordings?${params.toString()}`, "recordings fetch")
+    );
+  }
+
+  private async getParticipants(meeting: ZoomMeeting): Promise<CallParticipant[]> {
+    const participants: CallParticipant[] = [];
+    const seen = new Set<string>();
+    let pageToken: string | null = null;
+
+    do {
+      const params = new URLSearchParams();
+      params.set("page_size", "300");
+      if (pageToken) params.set("next_page_token", pageToken);
+
+      let payload: z.infer<typeof ZoomParticipantsResponseSchema>;
+      try {
+        payload = ZoomParticipantsResponseSchema.parse(
+          await this.request(
+            `/past_meetings/${encodeMeetingUuid(meeting.uuid)}/participants?${params.toString()}`,
+            "participants fetch"
+          )
+        );
+      } catch (error) {
+        // Rosters are only kept for a limited time; fall back to transcript speakers.
+        if (error instanceof ProviderNotFoundError) return participants;
+        throw error;
+      }
+
+      for (const participant of payload.participants) {
+        const email = participant.user_email?.trim().toLowerCase() || null;
+        const name = participant.name?.trim() || null;
+        // People who rejoin appear once per session.
+        const key = email ?? name ?? "";
+        if (!key || seen.has(key)) continue;
+        seen.add(key);
+
+        participants.push({
+          name,
+          email,
+          role: email && email === meeting.host_email?.toLowerCase() ? "host" : "participant",
+        });
+      }
+
+      pageToken = payload.next_page_token || null;
+    } while (pageToken);
+
+    return participants;
+  }
+
+  private async request(pathAndQuery: string, operation: string): Promise<unknown> {
+    return this.http.requestJson(`${this.config.baseUrl.replace(/\/$/, "")}${pathAndQuery}`, {
+      operation,
+      method: "GET",
+      headers: {
+        Authorization: `Bearer ${await this.accessToken()}`,
+        "Content-Type": "application/json",
+      },
+    });
+  }
+
+  private async accessToken(): Promise<string> {
+    if (this.config.accessToken) {
+      return this.config.accessToken;
+    }
+
+    if (this.token) {
+      const current = await this.token.catch(() => null);
+      if (current && current.expiresAt > Date.now()) {
+        return current.value;
+      }
+    }
+
+    this.token = this.requestToken();
+    return (await this.token).value;
+  }
+
+  private async requestToken(): Promise<{ value: string; expiresAt: number }> {
+    const params = new URLSearchParams();
+    params.set("grant_type", "account_credentials");
+    params.set("account_id", this.config.accountId!);
+
+    const basic = Buffer.from(`${this.config.clientId}:${this.config.clientSecret}`).toString("base64");
+    const payload = ZoomTokenResponseSchema.parse(
+      await this.http.requestJson(`${this.config.oauthUrl}?${params.toString()}`, {
+        operation: "token request",
+        method: "POST",
+        headers: { Authorization: `Basic ${basic}` },
+      })
+    );
+
+    // Refresh a minute early so in-flight requests never carry an expired token.
+    const lifetimeMs = Math.max(0, (payload.expires_in ?? 3600) - 60) * 1000;
+    return { value: payload.access_token, expiresAt: Date.now() + lifetimeMs };
+  }
+
+  private toCanonicalCall(row: FetchedZoomCall): CanonicalCall {
+    const lastMs = Math.max(0, ...row.segments.map((segment) => segment.endMs ?? segment.startMs ?? 0));
+
+    return {
+      provider: "zoom",
+      providerCallId: row.meeting.uuid,
+      accountId: accountIdFromName(row.derivedAccountName),
+      accountName: row.derivedAccountName,
+      title: row.meeting.topic?.trim() || `Zoom meeting ${row.meeting.id ?? row.meeting.uuid}`,
+      occurredAt: row.meeting.start_time ?? new Date().toISOString(),
+      durationSeconds:
+        row.meeting.duration != null
+          ? row.meeting.duration * 60
+          : lastMs > 0
+            ? Math.round(lastMs / 1000)
+            : null,
+      participants: row.participants,
+      transcriptText: row.transcriptText,
+      segments: row.segments,
+      metadata: {
+        zoomMeetingId: row.meeting.id != null ? String(row.meeting.id) : null,
+        zoomMeetingUuid: row.meeting.uuid,
+        recordingUrl: row.meeting.share_url ?? null,
+        transcriptHash: hashText(row.transcriptText),
+        accountCandidates: extractAccountNamesFromMeeting(
+          row.meeting,
+          row.participants,
+          this.internalDomains
+        ),
+      },
+    };
+  }
+}
+
+function transcriptFile(meeting: ZoomMeeting): z.infer<typeof ZoomRecordingFileSchema> | undefined {
+  return (meeting.recording_files ?? []).find(
+    (file) =>
+      (file.file_type === "TRANSCRIPT" || file.recording_type === "audio_transcript") &&
+      (!file.status || file.status === "completed")
+  );
+}
+
+function resolveMeetingAccountName(
+  meeting: ZoomMeeting,
+  participants: CallParticipant[],
+  internalDomains: Set<string>
+): string {
+  const candidates = extractAccountNamesFromMeeting(meeting, participants, internalDomains);
+  return candidates[0] ?? "Unknown Account";
+}
+
+function extractAccountNamesFromMeeting(
+  meeting: ZoomMeeting,
+  participants: CallParticipant[],
+  internalDomains: Set<string>
+): string[] {
+  // The host's own domain is internal even when INTERNAL_EMAIL_DOMAINS is not configured.
+  const hostDomain = meeting.host_email?.split("@")[1]?.toLowerCase();
+  const values: Array<string | null> = [];
+
+  for (const participant of participants) {
+    if (!participant.email) continue;
+    const domain = participant.email.split("@")[1]?.toLowerCase();
+    if (domain && !internalDomains.has(domain) && domain !== hostDomain) {
+      values.push(companyNameFromEmail(participant.email));
+    }
+  }
+
+  return uniqueAccountCandidates(values);
+}
+
+function participantsFromSpeakers(segments: CanonicalCall["segments"]): CallParticipant[] {
+  const names = new Set(segments.map((segment) => segment.speaker).filter((name): name is string => !!name));
+  return [...names].map((name) => ({ name, email: null, role: "participant" as const }));
+}
+
+/** Splits the requested range into month-sized windows, oldest first. */
+function recordingWindows(fromDate?: string, toDate?: string): RecordingWindow[] {
+  const end = toDate ? parseDate(toDate) : new Date();
+  const start = fromDate ? parseDate(fromDate) : new Date(end.getTime() - DEFAULT_LOOKBACK_DAYS * DAY_MS);
+  const windows: RecordingWindow[] = [];
+
+  let cursor = Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate());
+  while (cursor <= end.getTime()) {
+    const windowEnd = Math.min(cursor + (WINDOW_DAYS - 1) * DAY_MS, end.getTime());
+    windows.push({ from: toDay(cursor), to: toDay(windowEnd) });
+    cursor += WINDOW_DAYS * DAY_MS;
+  }
+
+  return windows;
+}
+
+function withinRange(meeting: ZoomMeeting, input: ProviderFetchInput): boolean {
+  if (!meeting.start_time) return true;
+  if (input.fromDate && meeting.start_time < toIso(input.fromDate, false)) return false;
+  if (input.toDate && meeting.start_time > toIso(input.toDate, true)) return false;
+  return true;
+}
+
+function decodeCursor(cursor: string | null): { from: string; pageToken: string | null } | null {
+  if (!cursor) return null;
+  const [from, pageToken] = cursor.split("|");
+  return { from, pageToken: pageToken || null };
+}
+
+/** Zoom requires double-encoding UUIDs that start with `/` or contain `//`. */
+function encodeMeetingUuid(uuid: string): string {
+  const encoded = encodeURIComponent(uuid);
+  return uuid.startsWith("/") || uuid.includes("//") ? encodeURIComponent(encoded) : encoded;
+}
+
+function parseDate(value: string): Date {
+  const date = new Date(toIso(value, false));
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date value: ${value}`);
+  }
+  return date;
+}
+
+function toDay(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 10);
+}
+
+function toIso(value: string, endOfDay: boolean): string {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return endOfDay ? `${value}T23:59:59.999Z` : `${value}T00:00:00.000Z`;
+  }
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date value: ${value}`);
+  }
+
+  return date.toISOString();
+}
+
+function hashText(text: string): string {
+  return createHash("sha1").update(text).digest("hex");
+}
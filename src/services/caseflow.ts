@@ -1,44 +1,49 @@
-import OpenAI from "openai";
 import os from "node:os";
 import path from "node:path";
 
-import { dedupeCalls } from "../pipeline/dedupe.js";
-import {
-  renderMergedMarkdown,
-  writeCallMarkdownFiles,
-  writeMergedMarkdownFile,
-} from "../pipeline/markdown.js";
-import { QuoteExtractor } from "../pipeline/quotes.js";
-import { CaseStudyGenerator } from "../pipeline/caseStudies.js";
+import { createLlmClient, llmConfigIssue, resolveLlmConfig } from "../llm/factory.js";
+import type { LlmConfig } from "../llm/factory.js";
+import type { LlmClient } from "../llm/types.js";
+import { runCaseStudyPipeline } from "../pipeline/engine.js";
+import type { PipelineResult } from "../pipeline/engine.js";
+import { evidenceFrom } from "../pipeline/speakers.js";
 import { USE_CASES } from "../prompts/useCases.js";
-import { accountIdFromName } from "../providers/account-utils.js";
-import { GongProvider } from "../providers/gongProvider.js";
-import { GrainProvider } from "../providers/grainProvider.js";
-import { writeJsonFile, writeTextFile } from "../utils/fs.js";
+import type { UseCaseDefinition } from "../prompts/useCases.js";
+import { loadAgentEnv } from "../config/env.js";
+import type { CallSource } from "../config/env.js";
+import { accountIdFromName, parseCommaSeparated } from "../providers/account-utils.js";
+import {
+  CALL_SOURCE_LABELS,
+  configuredCallSources,
+  createCallSourceProvider,
+} from "../providers/factory.js";
+import { credentialFingerprint } from "../store/corpusStore.js";
+import { ExtractionCache, resolveExtractionCacheDir } from "../store/extractionCache.js";
 import { matchSharedAccounts } from "../webapp/account-matcher.js";
 import type { SharedAccountOption } from "../webapp/account-matcher.js";
-import type { BuildRequest, DiscoverRequest, ExportRequest } from "./contracts.js";
-import type { CanonicalCall, QuoteEvidence } from "../types/domain.js";
-
-interface CreateProvidersInput {
-  gongBaseUrl: string;
-  gongAccessToken?: string;
-  gongAccessKey?: string;
-  gongAccessKeySecret?: string;
-  grainBaseUrl: string;
-  grainApiToken?: string;
-  internalEmailDomains?: string;
-}
+import type { BaseRequest, BuildRequest, DiscoverRequest, ExportRequest } from "./contracts.js";
+import { DiscoveryCache } from "./discoveryCache.js";
+import type { CallProvider, SkippedWork } from "../types/domain.js";
 
 export interface DiscoverResult {
   accounts: SharedAccountOption[];
+  /** Providers that took part in discovery, in match order. */
+  providers: CallSource[];
+  accountScope: DiscoverRequest["accountScope"];
   counts: {
-    gongAccounts: number;
-    grainAccounts: number;
+    /** Accounts discovered per provider. */
+    providerAccounts: Partial<Record<CallSource, number>>;
     sharedAccounts: number;
   };
+  generatedAt: string;
+  fromCache: boolean;
 }
 
+type DiscoveryCacheValue = Omit<DiscoverResult, "generatedAt" | "fromCache">;
+
+/** Created on first use, so importing this module never depends on the environment parsing. */
+let discoveryCache: DiscoveryCache<DiscoveryCacheValue> | null = null;
+
 export interface BuildStoryResult {
   accountName: string;
   accountId: string;
@@ -56,11 +61,15 @@ export interface BuildStoryResult {
     callFiles: string[];
     mergedFile: string;
     dedupeReport: string;
+    /** Human-readable dedupe review (HTML). */
+    dedupeReview: string;
   };
   storyMarkdown: string;
   quotesExtracted: number;
   claimsExtracted: number;
   quoteCsvRows: number;
+  /** Calls extraction skipped because the LLM budget ran out. */
+  skipped: SkippedWork[];
 }
 
 export interface ExportCorpusResult {
@@ -74,26 +83,12 @@ export interface ExportCorpusResult {
     callFiles: string[];
     mergedFile: string;
     dedupeReport: string;
+    /** Human-readable dedupe review (HTML). */
+    dedupeReview: string;
   };
   storyTypeOptions: ReturnType<typeof listStoryTypes>;
 }
 
-interface PreparedCorpus {
-  accountName: string;
-  accountId: string;
-  calls: CanonicalCall[];
-  mergedMarkdown: string;
-  callsFetched: number;
-  callsAfterDedupe: number;
-  duplicatesRemoved: number;
-  markdownDownloadsPath: string;
-  output: {
-    callFiles: string[];
-    mergedFile: string;
-    dedupeReport: string;
-  };
-}
-
 export function listStoryTypes() {
   return USE_CASES.map((storyType) => ({
     id: storyType.id,
@@ -105,254 +100,221 @@ export function listStoryTypes() {
 }
 
 export async function discoverSharedAccounts(input: DiscoverRequest): Promise<DiscoverResult> {
-  const { gongProvider, grainProvider } = createProviders(input);
+  discoveryCache ??= new DiscoveryCache<DiscoveryCacheValue>(
+    loadAgentEnv().DISCOVERY_CACHE_TTL_MINUTES * 60_000
+  );
+  const cached = await discoveryCache.getOrCompute(
+    discoveryCacheKey(input),
+    () => runDiscovery(input),
+    { refresh: input.refresh }
+  );
 
-  const [gongAccounts, grainAccounts] = await Promise.all([
-    gongProvider.discoverAccounts?.({
-      fromDate: input.fromDate,
-      toDate: input.toDate,
-      maxCalls: input.maxCalls,
-    }) ?? Promise.resolve([]),
-    grainProvider.discoverAccounts?.({
-      fromDate: input.fromDate,
-      toDate: input.toDate,
-      maxCalls: input.maxCalls,
-    }) ?? Promise.resolve([]),
-  ]);
+  return {
+    ...cached.value,
+    generatedAt: cached.generatedAt,
+    fromCache: cached.fromCache,
+  };
+}
+
+export function invalidateDiscoveryCache(): { cleared: number } {
+  return { cleared: discoveryCache?.invalidate() ?? 0 };
+}
+
+async function runDiscovery(
+  input: DiscoverRequest
+): Promise<Omit<DiscoverResult, "generatedAt" | "fromCache">> {
+  const providers = createProviders(input);
+  const discoverInput = {
+    fromDate: input.fromDate,
+    toDate: input.toDate,
+    maxCalls: input.maxCalls,
+  };
+
+  const providerAccounts = await Promise.all(
+    providers.map(async ({ source, provider }) => {
+      if (!provider.discoverAccounts) {
+        throw new Error(`${CALL_SOURCE_LABELS[source]} does not support account discovery`);
+      }
+      return { provider: source, accounts: await provider.discoverAccounts(discoverInput) };
+    })
+  );
 
   const sharedAccounts = await matchSharedAccounts({
-    gongAccounts,
-    grainAccounts,
-    openaiApiKey: input.openaiApiKey,
-    openaiModel: input.openaiModel,
+    providerAccounts,
+    scope: input.accountScope,
+    llm: matcherLlm(input),
   });
 
   return {
     accounts: sharedAccounts,
+    providers: providers.map(({ source }) => source),
+    accountScope: input.accountScope,
     counts: {
-      gongAccounts: gongAccounts.length,
-      grainAccounts: grainAccounts.length,
+      providerAccounts: Object.fromEntries(
+        providerAccounts.map((result) => [result.provider, result.accounts.length])
+      ),
       sharedAccounts: sharedAccounts.length,
     },
   };
 }
 
 export async function exportAccountCorpus(input: ExportRequest): Promise<ExportCorpusResult> {
-  const prepared = await prepareAccountCorpus(input);
+  const result = await runAccountPipeline(input, []);
   return {
-    accountName: prepared.accountName,
-    accountId: prepared.accountId,
-    callsFetched: prepared.callsFetched,
-    callsAfterDedupe: prepared.callsAfterDedupe,
-    duplicatesRemoved: prepared.duplicatesRemoved,
-    markdownDownloadsPath: prepared.markdownDownloadsPath,
-    output: prepared.output,
+    ...corpusSummary(result),
     storyTypeOptions: listStoryTypes(),
   };
 }
 
 export async function buildStory(input: BuildRequest): Promise<BuildStoryResult> {
-  const prepared = await prepareAccountCorpus(input);
-
   const storyType = USE_CASES.find((item) => item.id === input.storyTypeId);
   if (!storyType) {
     throw new Error(`Unknown story type: ${input.storyTypeId}`);
   }
 
-  const openai = new OpenAI({ apiKey: input.openaiApiKey });
-  const model = input.openaiModel ?? "gpt-4o";
-
-  const extractor = new QuoteExtractor(openai, model);
-  const { quotes, claims } = await extractor.extractFromCalls(prepared.calls);
-
-  const generator = new CaseStudyGenerator(openai, model);
-  const [artifact] = await generator.generateAll(
-    [storyType],
-    prepared.calls,
-    prepared.mergedMarkdown,
-    quotes,
-    claims
-  );
-
-  const storyPath = path.join(
-    os.homedir(),
-    "Downloads",
-    `${safeFileName(prepared.accountName)} - ${safeFileName(storyType.name)}.md`
-  );
-  await writeTextFile(storyPath, artifact.markdown);
+  const result = await runAccountPipeline(input, [storyType], createLlmClient(resolveLlmConfig(input)));
 
-  const quotesCsv = renderQuotesCsv(quotes);
-  const quotesCsvPath = path.join(
-    os.homedir(),
-    "Downloads",
-    `${safeFileName(prepared.accountName)} - ${safeFileName(storyType.name)} - Quotes.csv`
-  );
-  await writeTextFile(quotesCsvPath, quotesCsv);
+  const [story] = result.stories;
+  const evidence = result.evidence!;
+  if (!story) {
+    const reason = result.skipped.find((item) => item.stage === "stories")?.reason ?? "no output";
+    throw new Error(`Story "${storyType.name}" was not generated: ${reason}`);
+  }
 
   return {
-    accountName: prepared.accountName,
-    accountId: prepared.accountId,
+    ...corpusSummary(result),
     storyType: { id: storyType.id, name: storyType.name },
-    callsFetched: prepared.callsFetched,
-    callsAfterDedupe: prepared.callsAfterDedupe,
-    duplicatesRemoved: prepared.duplicatesRemoved,
-    markdownDownloadsPath: prepared.markdownDownloadsPath,
-    storyDownloadsPath: storyPath,
-    quotesCsvDownloadsPath: quotesCsvPath,
-    output: prepared.output,
-    storyMarkdown: artifact.markdown,
-    quotesExtracted: quotes.length,
-    claimsExtracted: claims.length,
-    quoteCsvRows: quotes.length,
+    storyDownloadsPath: story.exportPath!,
+    quotesCsvDownloadsPath: story.quotesCsvExportPath!,
+    storyMarkdown: story.markdown,
+    quotesExtracted: evidence.quotes.length,
+    claimsExtracted: evidence.claims.length,
+    quoteCsvRows: evidenceFrom(evidence.quotes, storyType.spec.evidenceSpeakers).length,
+    skipped: result.skipped,
   };
 }
 
-async function prepareAccountCorpus(input: ExportRequest | BuildRequest): Promise<PreparedCorpus> {
-  const { gongProvider, grainProvider } = createProviders(input);
-
-  const [gongCalls, grainCalls] = await Promise.all([
-    gongProvider.fetchCalls({
-      accountName: input.selectedAccount.gongName,
-      fromDate: input.fromDate,
-      toDate: input.toDate,
-      maxCalls: input.maxCalls,
-    }),
-    grainProvider.fetchCalls({
-      accountName: input.selectedAccount.grainName,
-      fromDate: input.fromDate,
-      toDate: input.toDate,
-      maxCalls: input.maxCalls,
-    }),
-  ]);
-
-  const combined = [...gongCalls, ...grainCalls];
-  if (combined.length === 0) {
-    throw new Error("No calls found for the selected account/company in Gong or Grain.");
-  }
-
-  const dedupe = dedupeCalls(combined);
-  if (dedupe.calls.length === 0) {
-    throw new Error("All calls were removed by dedupe. Try a different account or date range.");
+/** Runs the shared pipeline for a selected account, reading each provider under its own account name. */
+async function runAccountPipeline(
+  input: ExportRequest | BuildRequest,
+  useCases: UseCaseDefinition[],
+  llm?: LlmClient
+): Promise<PipelineResult> {
+  const providerNames = input.selectedAccount.providerNames;
+  const providers = createProviders(input).filter(({ source }) => providerNames[source]);
+  if (providers.length === 0) {
+    const named = Object.keys(providerNames).join(", ");
+    throw new Error(`The selected account names ${named}, but no credentials were provided for those providers.`);
   }
 
   const accountName = input.selectedAccount.displayName;
-  const accountId = accountIdFromName(accountName);
-
-  const calls = dedupe.calls
-    .map((call) => ({
-      ...call,
-      accountId,
-      accountName,
-    }))
-    .sort((a, b) => a.occurredAt.localeCompare(b.occurredAt));
-
-  const mergedMarkdown = renderMergedMarkdown(accountName, accountId, calls);
-  const markdownDownloadsPath = path.join(os.homedir(), "Downloads", `${safeFileName(accountName)}.md`);
-  await writeTextFile(markdownDownloadsPath, mergedMarkdown);
 
-  const outputBase = path.resolve(process.cwd(), "output-web");
-  const [callPaths, mergedPath] = await Promise.all([
-    writeCallMarkdownFiles(outputBase, calls),
-    writeMergedMarkdownFile(outputBase, accountName, accountId, calls),
-  ]);
-
-  const dedupePath = path.resolve(outputBase, safeFileName(accountName), "dedupe", "duplicates.json");
-  await writeJsonFile(dedupePath, {
-    totalFetchedCalls: combined.length,
-    dedupedCalls: calls.length,
-    duplicatesRemoved: dedupe.duplicates.length,
-    duplicates: dedupe.duplicates,
+  return runCaseStudyPipeline({
+    account: { id: accountIdFromName(accountName), name: accountName },
+    sources: providers.map(({ source, provider }) => ({
+      provider,
+      label: CALL_SOURCE_LABELS[source],
+      accountName: providerNames[source],
+    })),
+    fetch: {
+      fromDate: input.fromDate,
+      toDate: input.toDate,
+      maxCalls: input.maxCalls,
+      refresh: input.refresh,
+    },
+    dedupe: { fuseSegments: input.fuseSegments, policy: input.dedupePolicy },
+    speakers: { internalDomains: parseCommaSeparated(input.internalEmailDomains) },
+    evidence: {
+      minQuoteSimilarity: input.minQuoteSimilarity,
+      windowTokens: input.windowTokens,
+      numberLocale: input.numberLocale,
+      cache: new ExtractionCache(resolveExtractionCacheDir()),
+    },
+    outputDir: path.resolve(process.cwd(), "output-web"),
+    useCases,
+    llm,
+    llmLimits: {
+      concurrency: input.llmConcurrency,
+      tokensPerMinute: input.llmTokensPerMinute,
+      maxTokens: input.maxLlmTokens,
+      maxCostUsd: input.maxLlmCostUsd,
+    },
+    exportDir: path.join(os.homedir(), "Downloads"),
   });
+}
 
+function corpusSummary(result: PipelineResult): Omit<ExportCorpusResult, "storyTypeOptions"> {
   return {
-    accountName,
-    accountId,
-    calls,
-    mergedMarkdown,
-    callsFetched: combined.length,
-    callsAfterDedupe: calls.length,
-    duplicatesRemoved: dedupe.duplicates.length,
-    markdownDownloadsPath,
+    accountName: result.accountName,
+    accountId: result.accountId,
+    callsFetched: result.callsFetched,
+    callsAfterDedupe: result.callsProcessed,
+    duplicatesRemoved: result.duplicatesRemoved,
+    markdownDownloadsPath: result.corpus.mergedMarkdownExportPath!,
     output: {
-      callFiles: callPaths,
-      mergedFile: mergedPath,
-      dedupeReport: dedupePath,
+      callFiles: result.corpus.callsMarkdownPaths,
+      mergedFile: result.corpus.mergedMarkdownPath,
+      dedupeReport: result.corpus.dedupeReportPath,
+      dedupeReview: result.corpus.dedupeReviewHtmlPath,
     },
   };
 }
 
-function renderQuotesCsv(quotes: QuoteEvidence[]): string {
-  const headers = ["speaker", "date", "call_time", "quote", "why_included"];
-  const rows = quotes.map((quote) => [
-    quote.speaker ?? "",
-    formatDateOnly(quote.sourceCallDate),
-    formatCallTimestamp(quote.sourceTimestampMs),
-    quote.quote,
-    quote.reason,
-  ]);
-
-  return [headers, ...rows].map((row) => row.map(csvCell).join(",")).join("\n") + "\n";
-}
-
-function formatDateOnly(raw: string): string {
-  const date = new Date(raw);
-  if (Number.isNaN(date.getTime())) {
-    return raw;
+export function asErrorMessage(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message;
   }
-  return date.toISOString().slice(0, 10);
+  return String(error);
 }
 
-function formatCallTimestamp(ms: number | null): string {
-  if (ms == null || !Number.isFinite(ms) || ms < 0) {
-    return "";
-  }
-  const totalSeconds = Math.floor(ms / 1000);
-  const hours = Math.floor(totalSeconds / 3600);
-  const minutes = Math.floor((totalSeconds % 3600) / 60);
-  const seconds = totalSeconds % 60;
-
-  if (hours > 0) {
-    return `${hours}:${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`;
-  }
-  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+function discoveryCacheKey(input: DiscoverRequest): string {
+  return credentialFingerprint(
+    input.gongBaseUrl,
+    input.gongAccessToken,
+    input.gongAccessKey,
+    input.gongAccessKeySecret,
+    input.grainBaseUrl,
+    input.grainApiToken,
+    input.zoomBaseUrl,
+    input.zoomOauthUrl,
+    input.zoomAccessToken,
+    input.zoomAccountId,
+    input.zoomClientId,
+    input.zoomClientSecret,
+    input.zoomUserId,
+    input.firefliesBaseUrl,
+    input.firefliesApiKey,
+    input.chorusBaseUrl,
+    input.chorusApiToken,
+    input.internalEmailDomains,
+    (input.providers ?? configuredCallSources(input)).join(","),
+    input.accountScope,
+    matcherLlmKey(input),
+    input.fromDate,
+    input.toDate,
+    input.maxCalls?.toString()
+  );
 }
 
-function csvCell(value: string): string {
-  const normalized = value.replace(/\r?\n/g, " ").trim();
-  if (!/[",]/.test(normalized)) {
-    return normalized;
-  }
-  return `"${normalized.replace(/"/g, "\"\"")}"`;
+function createProviders(input: BaseRequest): Array<{ source: CallSource; provider: CallProvider }> {
+  const sources = input.providers ?? configuredCallSources(input);
+  return sources.map((source) => ({ source, provider: createCallSourceProvider(source, input) }));
 }
 
-export function safeFileName(input: string): string {
-  return input.replace(/[\\/:*?"<>|]/g, " ").replace(/\s+/g, " ").trim();
+/** Account matching defaults to a smaller OpenAI model; the LLM pass is skipped without credentials. */
+function matcherLlm(input: DiscoverRequest): LlmClient | undefined {
+  const config = matcherLlmConfig(input);
+  return llmConfigIssue(config) ? undefined : createLlmClient(config);
 }
 
-export function asErrorMessage(error: unknown): string {
-  if (error instanceof Error) {
-    return error.message;
+function matcherLlmKey(input: DiscoverRequest): string {
+  const config = matcherLlmConfig(input);
+  if (llmConfigIssue(config)) {
+    return "no-llm";
   }
-  return String(error);
+  return [config.provider, config.model, config.baseUrl ?? "", config.apiKey ?? ""].join("|");
 }
 
-function createProviders(input: CreateProvidersInput): {
-  gongProvider: GongProvider;
-  grainProvider: GrainProvider;
-} {
-  const gongProvider = new GongProvider({
-    baseUrl: input.gongBaseUrl,
-    accessToken: input.gongAccessToken,
-    accessKey: input.gongAccessKey,
-    accessKeySecret: input.gongAccessKeySecret,
-    internalDomains: input.internalEmailDomains,
-  });
-
-  const grainProvider = new GrainProvider({
-    apiToken: input.grainApiToken!,
-    baseUrl: input.grainBaseUrl,
-    internalDomains: input.internalEmailDomains,
-  });
-
-  return { gongProvider, grainProvider };
+function matcherLlmConfig(input: DiscoverRequest): LlmConfig {
+  return resolveLlmConfig({ ...input, openaiModel: input.openaiModel ?? "gpt-4o-mini" });
 }
@@ -1,10 +1,31 @@
 import { z } from "zod";
+import { CALL_SOURCES, LLM_PROVIDERS } from "../config/env.js";
+import { llmConfigIssue, resolveLlmConfig } from "../llm/factory.js";
+import { DedupePolicyInputSchema } from "../pipeline/dedupePolicy.js";
+import {
+  CALL_SOURCE_LABELS,
+  callSourceCredentialHint,
+  configuredCallSources,
+  hasCallSourceCredentials,
+} from "../providers/factory.js";
 
 export const BaseRequestSchema = z
   .object({
     openaiApiKey: z.string().optional(),
     openaiModel: z.string().optional(),
 
+    // LLM backend; OpenAI with openaiApiKey/openaiModel when omitted.
+    llmProvider: z.enum(LLM_PROVIDERS).optional(),
+    llmModel: z.string().optional(),
+    llmApiKey: z.string().optional(),
+    llmBaseUrl: z.string().url().optional(),
+    llmApiVersion: z.string().optional(),
+    // Parallelism, token rate and budget for the run's LLM requests.
+    llmConcurrency: z.coerce.number().int().positive().max(32).optional(),
+    llmTokensPerMinute: z.coerce.number().int().positive().optional(),
+    maxLlmTokens: z.coerce.number().int().positive().optional(),
+    maxLlmCostUsd: z.coerce.number().positive().optional(),
+
     gongBaseUrl: z.string().url().default("https://api.gong.io"),
     gongAccessToken: z.string().optional(),
     gongAccessKey: z.string().optional(),
@@ -13,47 +34,107 @@ export const BaseRequestSchema = z
     grainBaseUrl: z.string().url().default("https://grain.com/_/public-api"),
     grainApiToken: z.string().optional(),
 
+    zoomBaseUrl: z.string().url().default("https://api.zoom.us/v2"),
+    zoomOauthUrl: z.string().url().default("https://zoom.us/oauth/token"),
+    zoomAccountId: z.string().optional(),
+    zoomClientId: z.string().optional(),
+    zoomClientSecret: z.string().optional(),
+    zoomAccessToken: z.string().optional(),
+    zoomUserId: z.string().optional(),
+
+    firefliesBaseUrl: z.string().url().default("https://api.fireflies.ai/graphql"),
+    firefliesApiKey: z.string().optional(),
+
+    chorusBaseUrl: z.string().url().default("https://chorus.ai"),
+    chorusApiToken: z.string().optional(),
+
     internalEmailDomains: z.string().optional(),
 
+    // Restricts the run to these providers; defaults to every provider with credentials.
+    providers: z.array(z.enum(CALL_SOURCES)).min(1).optional(),
+
     fromDate: z.string().optional(),
     toDate: z.string().optional(),
     maxCalls: z.coerce.number().int().positive().max(5000).optional(),
+    refresh: z.boolean().optional(),
+    fuseSegments: z.boolean().optional(),
+    dedupePolicy: DedupePolicyInputSchema.optional(),
+    minQuoteSimilarity: z.number().min(0).max(1).optional(),
+    windowTokens: z.coerce.number().int().min(1000).optional(),
+    numberLocale: z.string().min(2).optional(),
   })
-  .refine(
-    (value) =>
-      Boolean(value.gongAccessToken) ||
-      (Boolean(value.gongAccessKey) && Boolean(value.gongAccessKeySecret)),
-    {
-      message:
-        "Provide Gong credentials: GONG_ACCESS_TOKEN or GONG_ACCESS_KEY + GONG_ACCESS_KEY_SECRET",
-      path: ["gongAccessToken"],
+  .superRefine((value, ctx) => {
+    if (value.providers) {
+      for (const source of value.providers) {
+        if (!hasCallSourceCredentials(source, value)) {
+          ctx.addIssue({
+            code: "custom",
+            path: ["providers"],
+            message: `${CALL_SOURCE_LABELS[source]} was requested but its credentials are missing: ${callSourceCredentialHint(source)}`,
+          });
+        }
+      }
+      return;
+    }
+
+    if (configuredCallSources(value).length === 0) {
+      ctx.addIssue({
+        code: "custom",
+        path: ["providers"],
+        message: `Provide credentials for at least one provider: ${CALL_SOURCES.map(
+          (source) => `${CALL_SOURCE_LABELS[source]} (${callSourceCredentialHint(source)})`
+        ).join(", ")}`,
+      });
     }
-  )
-  .refine((value) => Boolean(value.grainApiToken), {
-    message: "GRAIN_API_TOKEN is required",
-    path: ["grainApiToken"],
   });
 
-export const DiscoverRequestSchema = BaseRequestSchema;
+export const DiscoverRequestSchema = BaseRequestSchema.safeExtend({
+  // "all": accounts found in every provider; "any": also single-provider accounts.
+  accountScope: z.enum(["all", "any"]).default("all"),
+});
 
-export const SelectedAccountSchema = z.object({
+const SelectedAccountObjectSchema = z.object({
   id: z.string(),
   displayName: z.string().min(1),
-  gongName: z.string().min(1),
-  grainName: z.string().min(1),
+  /** Provider name (gong, grain, zoom, ...) -> that provider's name for the account. */
+  providerNames: z
+    .partialRecord(z.enum(CALL_SOURCES), z.string().min(1))
+    .refine((value) => Object.keys(value).length > 0, "providerNames must name at least one provider"),
   confidence: z.number().optional(),
 });
 
+// Also accepts a discovered account as-is (its `providers` map) and the older
+// `gongName`/`grainName` fields.
+export const SelectedAccountSchema = z.preprocess((raw) => {
+  if (!raw || typeof raw !== "object" || "providerNames" in raw) return raw;
+  const input = raw as Record<string, unknown>;
+  const discovered = (input.providers ?? {}) as Record<string, { name?: unknown } | undefined>;
+  const providerNames: Record<string, unknown> = {};
+  for (const source of CALL_SOURCES) {
+    const name = discovered[source]?.name ?? input[`${source}Name`];
+    if (typeof name === "string") {
+      providerNames[source] = name;
+    }
+  }
+  return { ...input, providerNames };
+}, SelectedAccountObjectSchema);
+
 export const BuildRequestSchema = BaseRequestSchema.safeExtend({
-  openaiApiKey: z.string().min(1, "OpenAI API key is required"),
   storyTypeId: z.string().min(1),
   selectedAccount: SelectedAccountSchema,
+}).superRefine((value, ctx) => {
+  const issue = llmConfigIssue(resolveLlmConfig(value));
+  if (issue) {
+    ctx.addIssue({ code: "custom", path: ["llmProvider"], message: issue });
+  }
 });
 
 export const ExportRequestSchema = BaseRequestSchema.safeExtend({
   selectedAccount: SelectedAccountSchema,
 });
 
+export type BaseRequest = z.infer<typeof BaseRequestSchema>;
 export type DiscoverRequest = z.infer<typeof DiscoverRequestSchema>;
 export type BuildRequest = z.infer<typeof BuildRequestSchema>;
 export type ExportRequest = z.infer<typeof ExportRequestSchema>;
+export type SelectedAccount = z.infer<typeof SelectedAccountObjectSchema>;
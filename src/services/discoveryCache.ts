@@ -0,0 +1,77 @@
+export interface CachedValue<T> {
+  value: T;
+  generatedAt: string;
+  fromCache: boolean;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  generatedAtMs: number;
+}
+
+/**
+ * In-process TTL cache for account discovery. Concurrent lookups for the same key share one
+ * provider round-trip instead of each running their own discovery.
+ */
+export class DiscoveryCache<T> {
+  private readonly entries = new Map<string, CacheEntry<T>>();
+  private readonly inflight = new Map<string, Promise<CacheEntry<T>>>();
+
+  constructor(
+    private readonly ttlMs: number,
+    private readonly now: () => number = () => Date.now()
+  ) {}
+
+  async getOrCompute(
+    key: string,
+    compute: () => Promise<T>,
+    options: { refresh?: boolean } = {}
+  ): Promise<CachedValue<T>> {
+    if (options.refresh) {
+      this.entries.delete(key);
+    }
+
+    const cached = this.entries.get(key);
+    if (cached && this.now() - cached.generatedAtMs < this.ttlMs) {
+      return toCachedValue(cached, true);
+    }
+
+    // A refresh must not join a lookup that started before it; it starts its own and later
+    // callers share that one instead.
+    let pending = options.refresh ? undefined : this.inflight.get(key);
+    if (!pending) {
+      const started: Promise<CacheEntry<T>> = compute()
+        .then((value) => {
+          const entry = { value, generatedAtMs: this.now() };
+          if (this.inflight.get(key) === started) {
+            this.entries.set(key, entry);
+          }
+          return entry;
+        })
+        .finally(() => {
+          if (this.inflight.get(key) === started) {
+            this.inflight.delete(key);
+          }
+        });
+      this.inflight.set(key, started);
+      pending = started;
+    }
+
+    return toCachedValue(await pending, false);
+  }
+
+  /** Drops every cached entry and returns how many were removed. */
+  invalidate(): number {
+    const removed = this.entries.size;
+    this.entries.clear();
+    return removed;
+  }
+}
+
+function toCachedValue<T>(entry: CacheEntry<T>, fromCache: boolean): CachedValue<T> {
+  return {
+    value: entry.value,
+    generatedAt: new Date(entry.generatedAtMs).toISOString(),
+    fromCache,
+  };
+}
@@ -0,0 +1,148 @@
+import { createHash } from "node:crypto";
+import { rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { normalizeAccountName } from "../providers/account-utils.js";
+import type { CanonicalCall } from "../types/domain.js";
+import { readJsonFile, slugify, writeJsonFile, writeJsonFileAtomic } from "../utils/fs.js";
+
+export interface CorpusSyncWindow {
+  fromDate?: string;
+  toDate?: string;
+}
+
+export interface CorpusSyncState {
+  provider: string;
+  syncedAt: string;
+  /** Earliest date the store is complete from; null means the full provider history. */
+  coveredFrom: string | null;
+  newestOccurredAt: string | null;
+  /** Set while a sync window is only partially stored; resumes from `cursor`. */
+  pending: (CorpusSyncWindow & { cursor: string | null }) | null;
+}
+
+export interface CorpusReadFilter {
+  accountName?: string;
+  fromDate?: string;
+  toDate?: string;
+}
+
+interface CorpusIndexEntry {
+  providerCallId: string;
+  normalizedAccountName: string;
+  occurredAt: string;
+  file: string;
+}
+
+interface CorpusIndex {
+  calls: Record<string, CorpusIndexEntry>;
+}
+
+/** Tail of each store directory's queue of exclusive tasks, shared by every server in the process. */
+const storeQueues = new Map<string, Promise<unknown>>();
+
+export class CorpusStore {
+  constructor(private readonly rootDir: string) {}
+
+  static open(baseDir: string, providerName: string, fingerprint: string): CorpusStore {
+    return new CorpusStore(path.resolve(baseDir, `${slugify(providerName)}-${fingerprint}`));
+  }
+
+  async readState(): Promise<CorpusSyncState | null> {
+    return readJsonFile<CorpusSyncState>(path.join(this.rootDir, "state.json"));
+  }
+
+  async writeState(state: CorpusSyncState): Promise<void> {
+    await writeJsonFileAtomic(path.join(this.rootDir, "state.json"), state);
+  }
+
+  async upsertCalls(calls: CanonicalCall[]): Promise<void> {
+    if (calls.length === 0) return;
+
+    const index = await this.readIndex();
+    for (const call of calls) {
+      const file = `${hashKey(call.providerCallId)}.json`;
+      await writeJsonFile(path.join(this.rootDir, "calls", file), call);
+      index.calls[call.providerCallId] = {
+        providerCallId: call.providerCallId,
+        normalizedAccountName: normalizeAccountName(call.accountName),
+        occurredAt: call.occurredAt,
+        file,
+      };
+    }
+    await writeJsonFileAtomic(path.join(this.rootDir, "index.json"), index);
+  }
+
+  async readCalls(filter: CorpusReadFilter = {}): Promise<CanonicalCall[]> {
+    const index = await this.readIndex();
+    const targetAccountName = filter.accountName ? normalizeAccountName(filter.accountName) : null;
+    const fromMs = filter.fromDate ? dateBoundMs(filter.fromDate, false) : null;
+    const toMs = filter.toDate ? dateBoundMs(filter.toDate, true) : null;
+
+    const entries = Object.values(index.calls)
+      .filter((entry) => (targetAccountName ? entry.normalizedAccountName === targetAccountName : true))
+      .filter((entry) => {
+        const occurredMs = new Date(entry.occurredAt).getTime();
+        if (fromMs != null && occurredMs < fromMs) return false;
+        if (toMs != null && occurredMs > toMs) return false;
+        return true;
+      })
+      .sort((a, b) => a.occurredAt.localeCompare(b.occurredAt));
+
+    const calls: CanonicalCall[] = [];
+    for (const entry of entries) {
+      const call = await readJsonFile<CanonicalCall>(path.join(this.rootDir, "calls", entry.file));
+      if (call) calls.push(call);
+    }
+    return calls;
+  }
+
+  /**
+   * Runs `task` once every earlier exclusive task on this store directory has settled, so two
+   * syncs of the same store (web app and MCP server, say) never interleave their index updates.
+   */
+  async exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = (storeQueues.get(this.rootDir) ?? Promise.resolve()).then(task);
+    const tail = run.catch(() => undefined);
+    storeQueues.set(this.rootDir, tail);
+    try {
+      return await run;
+    } finally {
+      if (storeQueues.get(this.rootDir) === tail) storeQueues.delete(this.rootDir);
+    }
+  }
+
+  async clear(): Promise<void> {
+    await rm(this.rootDir, { recursive: true, force: true });
+  }
+
+  private async readIndex(): Promise<CorpusIndex> {
+    return (await readJsonFile<CorpusIndex>(path.join(this.rootDir, "index.json"))) ?? { calls: {} };
+  }
+}
+
+export function resolveCorpusStoreDir(dir?: string): string {
+  return path.resolve(
+    dir ?? process.env.CORPUS_STORE_DIR ?? path.join(os.homedir(), ".callcase", "corpus")
+  );
+}
+
+/** Stable, non-reversible key so separate workspaces never share a store directory. */
+export function credentialFingerprint(...parts: Array<string | null | undefined>): string {
+  return hashKey(parts.map((part) => part ?? "").join("\u0000"));
+}
+
+function hashKey(value: string): string {
+  return createHash("sha1").update(value).digest("hex").slice(0, 16);
+}
+
+function dateBoundMs(value: string, endOfDay: boolean): number {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return new Date(endOfDay ? `${value}T23:59:59.999Z` : `${value}T00:00:00.000Z`).getTime();
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid date value: ${value}`);
+  }
+  return date.getTime();
+}
@@ -0,0 +1,114 @@
+import { createHash } from "node:crypto";
+import { readdir, rm } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { readJsonFile, writeJsonFile } from "../utils/fs.js";
+
+/** Everything extraction output depends on besides the transcript's call metadata. */
+export interface ExtractionCacheKey {
+  transcriptHash: string;
+  llmProvider: string;
+  model: string;
+  promptVersion: string;
+  windowTokens: number;
+  windowOverlapTokens: number;
+}
+
+export interface ExtractionCacheEntry {
+  key: ExtractionCacheKey;
+  /** The call the entry was first written for; other calls with the same transcript reuse it. */
+  source: { provider: string; providerCallId: string; title: string };
+  createdAt: string;
+  /** Raw model response for each transcript window, in order. */
+  responses: string[];
+}
+
+/** Entries matching every given field; `stalePromptVersion` matches entries written with any other prompt. */
+export interface ExtractionCacheFilter {
+  transcriptHash?: string;
+  model?: string;
+  providerCallId?: string;
+  stalePromptVersion?: string;
+}
+
+/**
+ * Extraction responses on disk, one file per key. Responses are stored raw, so a hit is still
+ * verified against the transcript with the run's own settings.
+ */
+export class ExtractionCache {
+  private hits = 0;
+  private misses = 0;
+
+  constructor(readonly rootDir: string) {}
+
+  async get(key: ExtractionCacheKey): Promise<ExtractionCacheEntry | null> {
+    const entry = await readJsonFile<ExtractionCacheEntry>(this.entryPath(key));
+    if (entry) this.hits += 1;
+    else this.misses += 1;
+    return entry;
+  }
+
+  async put(entry: ExtractionCacheEntry): Promise<void> {
+    await writeJsonFile(this.entryPath(entry.key), entry);
+  }
+
+  async list(filter: ExtractionCacheFilter = {}): Promise<ExtractionCacheEntry[]> {
+    const entries: ExtractionCacheEntry[] = [];
+    for (const file of await this.entryFiles()) {
+      const entry = await readJsonFile<ExtractionCacheEntry>(path.join(this.rootDir, file));
+      if (entry && matches(entry, filter)) entries.push(entry);
+    }
+    return entries.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /** Removes matching entries (all of them with no filter) and returns how many were removed. */
+  async invalidate(filter: ExtractionCacheFilter = {}): Promise<number> {
+    const entries = await this.list(filter);
+    await Promise.all(entries.map((entry) => rm(this.entryPath(entry.key), { force: true })));
+    return entries.length;
+  }
+
+  /** Lookups made through this instance. */
+  stats(): { hits: number; misses: number } {
+    return { hits: this.hits, misses: this.misses };
+  }
+
+  private entryPath(key: ExtractionCacheKey): string {
+    const id = createHash("sha1")
+      .update(
+        [
+          key.transcriptHash,
+          key.llmProvider,
+          key.model,
+          key.promptVersion,
+          key.windowTokens,
+          key.windowOverlapTokens,
+        ].join("\u0000")
+      )
+      .digest("hex");
+    return path.join(this.rootDir, `${id}.json`);
+  }
+
+  private async entryFiles(): Promise<string[]> {
+    try {
+      return (await readdir(this.rootDir)).filter((file) => file.endsWith(".json"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+  }
+}
+
+export function resolveExtractionCacheDir(dir?: string): string {
+  return path.resolve(
+    dir ?? process.env.EXTRACTION_CACHE_DIR ?? path.join(os.homedir(), ".callcase", "extraction")
+  );
+}
+
+function matches(entry: ExtractionCacheEntry, filter: ExtractionCacheFilter): boolean {
+  if (filter.transcriptHash && entry.key.transcriptHash !== filter.transcriptHash) return false;
+  if (filter.model && entry.key.model !== filter.model) return false;
+  if (filter.providerCallId && entry.source.providerCallId !== filter.providerCallId) return false;
+  if (filter.stalePromptVersion && entry.key.promptVersion === filter.stalePromptVersion) return false;
+  return true;
+}
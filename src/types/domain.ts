@@ -1,7 +1,27 @@
+/** Internal: the vendor's own people; external: the customer's. */
+export type SpeakerAffiliation = "internal" | "external" | "unknown";
+
+/** Whose statements a story or output uses: "customer" leaves out the vendor's own team. */
+export type EvidenceSpeakers = "customer" | "all";
+
 export interface CallParticipant {
   name: string | null;
   email: string | null;
   role: "host" | "participant";
+  /** Reported by providers that know it (Gong); the pipeline fills it in for every call. */
+  affiliation?: SpeakerAffiliation;
+}
+
+export interface SegmentSource {
+  provider: string;
+  providerCallId: string;
+}
+
+/** Which recording each part of a fused segment came from. */
+export interface SegmentProvenance {
+  speaker: SegmentSource;
+  text: SegmentSource;
+  timing: SegmentSource;
 }
 
 export interface CallSegment {
@@ -9,6 +29,10 @@ export interface CallSegment {
   text: string;
   startMs: number | null;
   endMs: number | null;
+  /** The speaker's affiliation, set by the pipeline from the call's participants. */
+  affiliation?: SpeakerAffiliation;
+  /** Set on segments of a call fused from several providers' recordings. */
+  provenance?: SegmentProvenance;
 }
 
 export interface CanonicalCall {
@@ -25,9 +49,35 @@ export interface CanonicalCall {
   metadata?: Record<string, unknown>;
 }
 
+/** Where quoted text sits in its call's `transcriptText`; `end` is exclusive. */
+export interface TranscriptSpan {
+  start: number;
+  end: number;
+  /** Word-level similarity of the model's wording to this span; 1 is word for word. */
+  score: number;
+}
+
+/** Points a quote or claim at the exact place in its call it was taken from. */
+export interface EvidenceCitation {
+  provider: string;
+  providerCallId: string;
+  /** Character range in the call's `transcriptText`; `charEnd` is exclusive. */
+  charStart: number;
+  charEnd: number;
+  /** Indexes into the call's `segments` the text overlaps, in order; empty when none could be placed. */
+  segmentIndices: number[];
+  /** Where each cited segment's text came from; differs from the call for fused segments. */
+  segmentSources: SegmentSource[];
+  startMs: number | null;
+  endMs: number | null;
+}
+
 export interface QuoteEvidence {
+  /** The transcript's exact wording at `verbatim`. */
   quote: string;
   speaker: string | null;
+  /** Who spoke the cited segments; unknown when they are mixed or unclassified. */
+  speakerAffiliation: SpeakerAffiliation;
   metricValue: string | null;
   metricType: string | null;
   reason: string;
@@ -36,6 +86,30 @@ export interface QuoteEvidence {
   sourceCallDate: string;
   sourceTimestampMs: number | null;
   confidence: number;
+  verbatim: TranscriptSpan;
+  citation: EvidenceCitation;
+}
+
+export type UnitFamily = "currency" | "percent" | "duration" | "count" | "multiplier";
+export type ClaimPeriod = "day" | "week" | "month" | "quarter" | "year";
+export type ClaimDirection = "increase" | "decrease";
+
+/** A claim's amount in comparable form; fields are null when the text does not state them. */
+export interface NormalizedClaimValue {
+  value: number | null;
+  /** ISO 4217 code, e.g. "USD". */
+  currency: string | null;
+  unitFamily: UnitFamily | null;
+  /** "%", "x", the currency code, a duration ("days") or a counted noun ("tickets"). */
+  unit: string | null;
+  /** The span the amount covers: "$420,000 annually" is per year. */
+  period: ClaimPeriod | null;
+  direction: ClaimDirection | null;
+  /** "from 12 days to 4 days": baseline 12, after 4, delta -8, deltaPercent -66.7. */
+  baseline: number | null;
+  after: number | null;
+  delta: number | null;
+  deltaPercent: number | null;
 }
 
 export interface QuantClaim {
@@ -56,8 +130,43 @@ export interface QuantClaim {
   sourceCallTitle: string;
   sourceCallDate: string;
   sourceTimestampMs: number | null;
+  /** The transcript's exact wording at `evidenceVerbatim`. */
   evidenceQuote: string;
   confidence: number;
+  evidenceVerbatim: TranscriptSpan;
+  /** Where `evidenceQuote` was taken from. */
+  citation: EvidenceCitation;
+  /** Who spoke the evidence quote; unknown when mixed or unclassified. */
+  speakerAffiliation: SpeakerAffiliation;
+  normalized: NormalizedClaimValue;
+}
+
+/** One call's statement of a metric other calls state differently. */
+export interface ClaimConflictSource {
+  sourceCallId: string;
+  sourceCallTitle: string;
+  sourceCallDate: string;
+  /** Who spoke the cited evidence, when the transcript says. */
+  speaker: string | null;
+  speakerAffiliation: SpeakerAffiliation;
+  claim: string;
+  value: string;
+  unit: string | null;
+  normalized: NormalizedClaimValue;
+  evidenceQuote: string;
+  citation: EvidenceCitation;
+}
+
+/** Claims from several calls about the same metric that disagree on its value or direction. */
+export interface ClaimConflict {
+  /** The words the claims share, e.g. "billing error". */
+  subject: string;
+  claimType: QuantClaim["claimType"];
+  unitFamily: UnitFamily | null;
+  /** The best supported statement, and why it was chosen. */
+  consolidated: ClaimConflictSource & { basis: string };
+  /** Every statement of the metric, oldest call first. */
+  sources: ClaimConflictSource[];
 }
 
 export interface CaseStudyArtifact {
@@ -66,6 +175,15 @@ export interface CaseStudyArtifact {
   markdown: string;
 }
 
+/** A call or story the run did not process, e.g. because the LLM budget ran out. */
+export interface SkippedWork {
+  stage: "evidence" | "stories";
+  /** Provider call id for evidence, use case id for stories. */
+  id: string;
+  title: string;
+  reason: string;
+}
+
 export interface DuplicateResolution {
   keptCallId: string;
   keptProvider: string;
@@ -74,6 +192,28 @@ export interface DuplicateResolution {
   reason: string;
 }
 
+export interface DedupeCallRef {
+  provider: string;
+  providerCallId: string;
+  title: string;
+  occurredAt: string;
+}
+
+/** One pair the dedupe pass looked at, with the measurements behind its outcome. */
+export interface DedupeDecision {
+  /** kept_by_override: a rule matched but the override file said to keep both calls. */
+  outcome: "merged" | "near_miss" | "kept_by_override";
+  /** The rule that matched; null for near misses. */
+  reason: string | null;
+  score: number | null;
+  kept: DedupeCallRef;
+  other: DedupeCallRef;
+  timeDeltaMinutes: number | null;
+  durationDeltaSeconds: number | null;
+  titleSimilarity: number;
+  transcriptSimilarity: number;
+}
+
 export interface AgentRunResult {
   accountId: string;
   accountName: string;
@@ -85,6 +225,8 @@ export interface AgentRunResult {
   claimsPath: string;
   dedupeReportPath: string;
   caseStudyPaths: string[];
+  /** Calls and stories left out because the LLM budget ran out. */
+  skipped: SkippedWork[];
 }
 
 export interface ProviderFetchInput {
@@ -93,6 +235,20 @@ export interface ProviderFetchInput {
   fromDate?: string;
   toDate?: string;
   maxCalls?: number;
+  refresh?: boolean;
+}
+
+export interface ProviderSyncInput {
+  fromDate?: string;
+  toDate?: string;
+  cursor?: string | null;
+  maxCalls: number;
+}
+
+export interface ProviderSyncPage {
+  calls: CanonicalCall[];
+  cursor: string | null;
+  complete: boolean;
 }
 
 export interface DiscoveredAccount {
@@ -106,4 +262,5 @@ export interface CallProvider {
   name: string;
   fetchCalls(input: ProviderFetchInput): Promise<CanonicalCall[]>;
   discoverAccounts?(input: ProviderFetchInput): Promise<DiscoveredAccount[]>;
+  syncCalls?(input: ProviderSyncInput): Promise<ProviderSyncPage>;
 }
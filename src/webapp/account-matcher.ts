@@ -1,32 +1,47 @@
-import OpenAI from "openai";
 import { z } from "zod";
+import type { LlmClient } from "../llm/types.js";
 import { normalizeAccountName } from "../providers/account-utils.js";
 import type { DiscoveredAccount } from "../types/domain.js";
 
+export interface ProviderAccountRef {
+  name: string;
+  callCount: number;
+}
+
 export interface SharedAccountOption {
   id: string;
   displayName: string;
-  gongName: string;
-  grainName: string;
-  gongCallCount: number;
-  grainCallCount: number;
+  /** Provider name (gong, grain, zoom, ...) -> that provider's account name and call count. */
+  providers: Record<string, ProviderAccountRef>;
+  totalCallCount: number;
   confidence: number;
   matchReason: "exact" | "heuristic" | "llm";
 }
 
 interface MatcherInput {
-  gongAccounts: DiscoveredAccount[];
-  grainAccounts: DiscoveredAccount[];
-  openaiApiKey?: string;
-  openaiModel?: string;
+  /** Discovered accounts per provider, in the order they should be matched. */
+  providerAccounts: Array<{ provider: string; accounts: DiscoveredAccount[] }>;
+  /** "all" keeps accounts found in every provider; "any" also keeps single-provider accounts. */
+  scope?: "all" | "any";
+  /** Enables the LLM pass for names the heuristics could not pair. */
+  llm?: LlmClient;
+}
+
+interface AccountCluster {
+  key: string;
+  members: Map<string, DiscoveredAccount>;
+  normalizedNames: Set<string>;
+  confidence: number;
+  matchReason: SharedAccountOption["matchReason"];
+  canonicalName?: string;
 }
 
 const LlmResponseSchema = z.object({
   matches: z
     .array(
       z.object({
-        gongNormalizedName: z.string(),
-        grainNormalizedName: z.string(),
+        leftNormalizedName: z.string(),
+        rightNormalizedName: z.string(),
         canonicalName: z.string().optional(),
         confidence: z.number().min(0).max(1),
       })
@@ -34,121 +49,167 @@ const LlmResponseSchema = z.object({
     .default([]),
 });
 
+const REASON_RANK: Record<SharedAccountOption["matchReason"], number> = {
+  exact: 0,
+  heuristic: 1,
+  llm: 2,
+};
+
+/**
+ * Groups accounts that name the same company across any number of providers. Each provider is
+ * matched against the clusters built so far: exact normalized names, then token heuristics,
+ * then (with an LLM client) an LLM pass over whatever is still unresolved.
+ */
 export async function matchSharedAccounts(input: MatcherInput): Promise<SharedAccountOption[]> {
-  const gongByNormalized = new Map<string, DiscoveredAccount>();
-  const grainByNormalized = new Map<string, DiscoveredAccount>();
+  const clusters: AccountCluster[] = [];
 
-  for (const account of input.gongAccounts) {
-    gongByNormalized.set(account.normalizedName || normalizeAccountName(account.name), account);
-  }
-  for (const account of input.grainAccounts) {
-    grainByNormalized.set(account.normalizedName || normalizeAccountName(account.name), account);
-  }
+  for (const { provider, accounts } of input.providerAccounts) {
+    const byNormalized = new Map<string, DiscoveredAccount>();
+    for (const account of accounts) {
+      byNormalized.set(account.normalizedName || normalizeAccountName(account.name), account);
+    }
 
-  const usedGong = new Set<string>();
-  const usedGrain = new Set<string>();
-  const matches: SharedAccountOption[] = [];
+    const used = new Set<string>();
+    const open = () => clusters.filter((cluster) => !cluster.members.has(provider));
 
-  // 1) Exact normalized matches
-  for (const [normalized, gong] of gongByNormalized.entries()) {
-    const grain = grainByNormalized.get(normalized);
-    if (!grain) continue;
+    // 1) Exact normalized matches
+    for (const [normalized, account] of byNormalized.entries()) {
+      const cluster = open().find((candidate) => candidate.normalizedNames.has(normalized));
+      if (!cluster) continue;
 
-    usedGong.add(normalized);
-    usedGrain.add(normalized);
-    matches.push(createMatch(gong, grain, "exact", 1));
-  }
+      used.add(normalized);
+      addMember(cluster, provider, normalized, account, "exact", 1);
+    }
 
-  // 2) Heuristic matches
-  const gongRemaining = [...gongByNormalized.entries()].filter(([name]) => !usedGong.has(name));
-  const grainRemaining = [...grainByNormalized.entries()].filter(([name]) => !usedGrain.has(name));
+    // 2) Heuristic matches
+    for (const cluster of open()) {
+      let best: { normalized: string; score: number; account: DiscoveredAccount } | null = null;
 
-  for (const [gongNormalized, gong] of gongRemaining) {
-    let best: { normalized: string; score: number; account: DiscoveredAccount } | null = null;
+      for (const [normalized, account] of byNormalized.entries()) {
+        if (used.has(normalized)) continue;
 
-    for (const [grainNormalized, grain] of grainRemaining) {
-      if (usedGrain.has(grainNormalized)) continue;
+        const score = clusterSimilarity(cluster, normalized);
+        if (score < 0.82) continue;
 
-      const score = nameSimilarity(gongNormalized, grainNormalized);
-      if (score < 0.82) continue;
+        if (!best || score > best.score) {
+          best = { normalized, score, account };
+        }
+      }
 
-      if (!best || score > best.score) {
-        best = { normalized: grainNormalized, score, account: grain };
+      if (best) {
+        used.add(best.normalized);
+        addMember(cluster, provider, best.normalized, best.account, "heuristic", best.score);
       }
     }
 
-    if (best) {
-      usedGong.add(gongNormalized);
-      usedGrain.add(best.normalized);
-      matches.push(createMatch(gong, best.account, "heuristic", best.score));
+    // 3) LLM matching for unresolved accounts
+    const unresolvedClusters = open();
+    const unresolvedAccounts = [...byNormalized.entries()]
+      .filter(([normalized]) => !used.has(normalized))
+      .map(([normalized, account]) => ({ normalized, account }));
+
+    if (unresolvedClusters.length > 0 && unresolvedAccounts.length > 0 && input.llm) {
+      const clustersByKey = new Map(unresolvedClusters.map((cluster) => [cluster.key, cluster]));
+      const llmMatches = await llmMatchUnresolved({
+        leftLabel: [...new Set(unresolvedClusters.flatMap((cluster) => [...cluster.members.keys()]))]
+          .join("+")
+          .toUpperCase(),
+        rightLabel: provider.toUpperCase(),
+        left: unresolvedClusters.map((cluster) => ({
+          normalized: cluster.key,
+          account: representative(cluster),
+        })),
+        right: unresolvedAccounts,
+        llm: input.llm,
+      });
+
+      for (const llmMatch of llmMatches) {
+        const cluster = clustersByKey.get(llmMatch.leftNormalizedName);
+        const account = byNormalized.get(llmMatch.rightNormalizedName);
+
+        if (!cluster || !account) continue;
+        if (cluster.members.has(provider)) continue;
+        if (used.has(llmMatch.rightNormalizedName)) continue;
+        if (llmMatch.confidence < 0.75) continue;
+
+        used.add(llmMatch.rightNormalizedName);
+        addMember(cluster, provider, llmMatch.rightNormalizedName, account, "llm", llmMatch.confidence);
+        cluster.canonicalName = llmMatch.canonicalName?.trim() || cluster.canonicalName;
+      }
     }
-  }
 
-  // 3) LLM matching for unresolved accounts
-  const unresolvedGong = [...gongByNormalized.entries()]
-    .filter(([normalized]) => !usedGong.has(normalized))
-    .map(([normalized, account]) => ({ normalized, account }));
-
-  const unresolvedGrain = [...grainByNormalized.entries()]
-    .filter(([normalized]) => !usedGrain.has(normalized))
-    .map(([normalized, account]) => ({ normalized, account }));
-
-  if (
-    unresolvedGong.length > 0 &&
-    unresolvedGrain.length > 0 &&
-    input.openaiApiKey &&
-    input.openaiApiKey.trim().length > 0
-  ) {
-    const llmMatches = await llmMatchUnresolved({
-      unresolvedGong,
-      unresolvedGrain,
-      openaiApiKey: input.openaiApiKey,
-      openaiModel: input.openaiModel ?? "gpt-4o-mini",
-    });
-
-    for (const llmMatch of llmMatches) {
-      const gong = gongByNormalized.get(llmMatch.gongNormalizedName);
-      const grain = grainByNormalized.get(llmMatch.grainNormalizedName);
-
-      if (!gong || !grain) continue;
-      if (usedGong.has(llmMatch.gongNormalizedName)) continue;
-      if (usedGrain.has(llmMatch.grainNormalizedName)) continue;
-      if (llmMatch.confidence < 0.75) continue;
-
-      usedGong.add(llmMatch.gongNormalizedName);
-      usedGrain.add(llmMatch.grainNormalizedName);
-      matches.push(createMatch(gong, grain, "llm", llmMatch.confidence, llmMatch.canonicalName));
+    // 4) Everything left starts its own cluster
+    for (const [normalized, account] of byNormalized.entries()) {
+      if (used.has(normalized)) continue;
+      clusters.push({
+        key: normalized,
+        members: new Map([[provider, account]]),
+        normalizedNames: new Set([normalized]),
+        confidence: 1,
+        matchReason: "exact",
+      });
     }
   }
 
-  return matches
+  const providerCount = input.providerAccounts.length;
+  const scope = input.scope ?? "all";
+
+  return clusters
+    .filter((cluster) => scope === "any" || cluster.members.size === providerCount)
+    .map((cluster) => toOption(cluster))
     .sort((a, b) => {
-      const totalA = a.gongCallCount + a.grainCallCount;
-      const totalB = b.gongCallCount + b.grainCallCount;
-      if (totalB !== totalA) return totalB - totalA;
+      if (b.totalCallCount !== a.totalCallCount) return b.totalCallCount - a.totalCallCount;
       return a.displayName.localeCompare(b.displayName);
     })
     .map((match, index) => ({ ...match, id: `shared-${index + 1}` }));
 }
 
-function createMatch(
-  gong: DiscoveredAccount,
-  grain: DiscoveredAccount,
-  reason: "exact" | "heuristic" | "llm",
-  confidence: number,
-  canonicalName?: string
-): SharedAccountOption {
-  const displayName = (canonicalName?.trim() || pickBetterName(gong.name, grain.name)).trim();
+function addMember(
+  cluster: AccountCluster,
+  provider: string,
+  normalized: string,
+  account: DiscoveredAccount,
+  reason: SharedAccountOption["matchReason"],
+  confidence: number
+): void {
+  cluster.members.set(provider, account);
+  cluster.normalizedNames.add(normalized);
+  cluster.confidence = Math.min(cluster.confidence, confidence);
+  if (REASON_RANK[reason] > REASON_RANK[cluster.matchReason]) {
+    cluster.matchReason = reason;
+  }
+}
+
+function clusterSimilarity(cluster: AccountCluster, normalized: string): number {
+  return Math.max(...[...cluster.normalizedNames].map((name) => nameSimilarity(name, normalized)));
+}
+
+function representative(cluster: AccountCluster): DiscoveredAccount {
+  const members = [...cluster.members.values()];
+  return {
+    ...members[0],
+    name: members.map((member) => member.name).reduce(pickBetterName),
+    callCount: members.reduce((sum, member) => sum + member.callCount, 0),
+  };
+}
+
+function toOption(cluster: AccountCluster): SharedAccountOption {
+  const providers: Record<string, ProviderAccountRef> = {};
+  for (const [provider, account] of cluster.members.entries()) {
+    providers[provider] = { name: account.name, callCount: account.callCount };
+  }
+
+  const displayName = (
+    cluster.canonicalName || [...cluster.members.values()].map((member) => member.name).reduce(pickBetterName)
+  ).trim();
 
   return {
     id: "",
     displayName,
-    gongName: gong.name,
-    grainName: grain.name,
-    gongCallCount: gong.callCount,
-    grainCallCount: grain.callCount,
-    confidence,
-    matchReason: reason,
+    providers,
+    totalCallCount: Object.values(providers).reduce((sum, ref) => sum + ref.callCount, 0),
+    confidence: cluster.confidence,
+    matchReason: cluster.matchReason,
   };
 }
 
@@ -186,29 +247,28 @@ function nameSimilarity(a: string, b: string): number {
 }
 
 async function llmMatchUnresolved(input: {
-  unresolvedGong: Array<{ normalized: string; account: DiscoveredAccount }>;
-  unresolvedGrain: Array<{ normalized: string; account: DiscoveredAccount }>;
-  openaiApiKey: string;
-  openaiModel: string;
+  leftLabel: string;
+  rightLabel: string;
+  left: Array<{ normalized: string; account: DiscoveredAccount }>;
+  right: Array<{ normalized: string; account: DiscoveredAccount }>;
+  llm: LlmClient;
 }): Promise<Array<z.infer<typeof LlmResponseSchema>["matches"][number]>> {
-  const openai = new OpenAI({ apiKey: input.openaiApiKey });
-
-  const gong = input.unresolvedGong.slice(0, 120).map((item) => ({
+  const left = input.left.slice(0, 120).map((item) => ({
     normalizedName: item.normalized,
     rawName: item.account.name,
     callCount: item.account.callCount,
   }));
 
-  const grain = input.unresolvedGrain.slice(0, 120).map((item) => ({
+  const right = input.right.slice(0, 120).map((item) => ({
     normalizedName: item.normalized,
     rawName: item.account.name,
     callCount: item.account.callCount,
   }));
 
-  const response = await openai.chat.completions.create({
-    model: input.openaiModel,
+  const response = await input.llm.chat({
+    task: "match-accounts",
     temperature: 0,
-    response_format: { type: "json_object" },
+    json: true,
     messages: [
       {
         role: "system",
@@ -217,16 +277,16 @@ async function llmMatchUnresolved(input: {
       },
       {
         role: "user",
-        content: `Match accounts between GONG and GRAIN.\n\nRules:\n- Only include records that clearly refer to the same company.\n- Ignore weak matches.\n- Confidence must be 0..1 and >=0.75 for strong matches.\n- Return JSON format: {\"matches\":[{\"gongNormalizedName\":\"...\",\"grainNormalizedName\":\"...\",\"canonicalName\":\"...\",\"confidence\":0.0}]}\n\nGONG:\n${JSON.stringify(
-          gong,
+        content: `Match accounts between ${input.leftLabel} (left) and ${input.rightLabel} (right).\n\nRules:\n- Only include records that clearly refer to the same company.\n- Ignore weak matches.\n- Confidence must be 0..1 and >=0.75 for strong matches.\n- Return JSON format: {\"matches\":[{\"leftNormalizedName\":\"...\",\"rightNormalizedName\":\"...\",\"canonicalName\":\"...\",\"confidence\":0.0}]}\n\n${input.leftLabel}:\n${JSON.stringify(
+          left,
           null,
           2
-        )}\n\nGRAIN:\n${JSON.stringify(grain, null, 2)}`,
+        )}\n\n${input.rightLabel}:\n${JSON.stringify(right, null, 2)}`,
       },
     ],
   });
 
-  const content = response.choices[0]?.message?.content;
+  const content = response.content;
   if (!content) {
     return [];
   }
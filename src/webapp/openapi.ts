@@ -17,7 +17,7 @@ export function buildOpenApiDocument(baseUrl: string) {
       title: "CallCase Agent API",
       version: "1.0.0",
       description:
-        "Discover shared accounts across Gong and Grain, then generate attribution-backed case studies with transcript markdown outputs.",
+        "Discover shared accounts across Gong, Grain, Zoom, Fireflies and Chorus, then generate attribution-backed case studies with transcript markdown outputs.",
     },
     servers: [
       {
@@ -55,7 +55,7 @@ export function buildOpenApiDocument(baseUrl: string) {
       "/api/accounts/discover": {
         post: {
           operationId: "discoverSharedAccounts",
-          summary: "Discover deduped account menu shared by Gong and Grain",
+          summary: "Discover deduped account menu across the configured call providers",
           requestBody: {
             required: true,
             content: {
@@ -80,17 +80,38 @@ export function buildOpenApiDocument(baseUrl: string) {
                           $ref: "#/components/schemas/SharedAccount",
                         },
                       },
+                      providers: {
+                        type: "array",
+                        items: { $ref: "#/components/schemas/CallSource" },
+                        description: "Providers that were queried, in matching order.",
+                      },
+                      accountScope: { type: "string", enum: ["all", "any"] },
                       counts: {
                         type: "object",
                         properties: {
-                          gongAccounts: { type: "integer" },
-                          grainAccounts: { type: "integer" },
+                          providerAccounts: {
+                            type: "object",
+                            description: "Accounts discovered per provider.",
+                            additionalProperties: { type: "integer" },
+                          },
                           sharedAccounts: { type: "integer" },
                         },
-                        required: ["gongAccounts", "grainAccounts", "sharedAccounts"],
+                        required: ["providerAccounts", "sharedAccounts"],
+                      },
+                      generatedAt: {
+                        type: "string",
+                        description: "When this account list was produced (ISO datetime).",
                       },
+                      fromCache: { type: "boolean" },
                     },
-                    required: ["accounts", "counts"],
+                    required: [
+                      "accounts",
+                      "providers",
+                      "accountScope",
+                      "counts",
+                      "generatedAt",
+                      "fromCache",
+                    ],
                   },
                 },
               },
@@ -100,6 +121,28 @@ export function buildOpenApiDocument(baseUrl: string) {
           },
         },
       },
+      "/api/accounts/discover/invalidate": {
+        post: {
+          operationId: "invalidateDiscoveryCache",
+          summary: "Forget cached shared-account lists so the next discovery re-reads providers",
+          responses: {
+            "200": {
+              description: "Number of cached account lists removed",
+              content: {
+                "application/json": {
+                  schema: {
+                    type: "object",
+                    properties: {
+                      cleared: { type: "integer" },
+                    },
+                    required: ["cleared"],
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
       "/api/accounts/export-markdown": {
         post: {
           operationId: "exportAccountCorpus",
@@ -173,6 +216,20 @@ export function buildOpenApiDocument(baseUrl: string) {
                       quotesExtracted: { type: "integer" },
                       claimsExtracted: { type: "integer" },
                       quoteCsvRows: { type: "integer" },
+                      skipped: {
+                        type: "array",
+                        description: "Calls left out of extraction because the LLM budget ran out.",
+                        items: {
+                          type: "object",
+                          properties: {
+                            stage: { type: "string", enum: ["evidence", "stories"] },
+                            id: { type: "string" },
+                            title: { type: "string" },
+                            reason: { type: "string" },
+                          },
+                          required: ["stage", "id", "title", "reason"],
+                        },
+                      },
                     },
                     required: [
                       "accountName",
@@ -188,6 +245,7 @@ export function buildOpenApiDocument(baseUrl: string) {
                       "quotesExtracted",
                       "claimsExtracted",
                       "quoteCsvRows",
+                      "skipped",
                     ],
                   },
                 },
@@ -248,6 +306,11 @@ export function buildOpenApiDocument(baseUrl: string) {
             },
             minimumQuoteCount: { type: "integer" },
             minimumClaimCount: { type: "integer" },
+            evidenceSpeakers: {
+              type: "string",
+              enum: ["customer", "all"],
+              description: "customer: quotes and claims spoken by your own team are left out.",
+            },
           },
           required: [
             "objective",
@@ -262,48 +325,197 @@ export function buildOpenApiDocument(baseUrl: string) {
             "forbiddenMoves",
             "minimumQuoteCount",
             "minimumClaimCount",
+            "evidenceSpeakers",
           ],
         },
         DiscoverRequest: {
           type: "object",
           properties: {
-            openaiApiKey: { type: "string", description: "Optional for LLM-assisted account matching." },
+            openaiApiKey: {
+              type: "string",
+              description: "OpenAI key. Optional for discovery (enables LLM-assisted matching).",
+            },
             openaiModel: { type: "string", default: "gpt-4o" },
+            llmProvider: {
+              type: "string",
+              enum: ["openai", "azure", "anthropic", "openai-compatible", "mock"],
+              default: "openai",
+            },
+            llmModel: {
+              type: "string",
+              description: "Model name, or the deployment name for Azure. Overrides openaiModel.",
+            },
+            llmApiKey: { type: "string", description: "Key for the LLM backend. Overrides openaiApiKey." },
+            llmBaseUrl: {
+              type: "string",
+              description: "Azure resource endpoint, OpenAI-compatible server URL or Anthropic API URL.",
+            },
+            llmApiVersion: { type: "string", description: "Azure OpenAI API version." },
+            llmConcurrency: {
+              type: "integer",
+              minimum: 1,
+              maximum: 32,
+              default: 4,
+              description: "LLM requests in flight at once during extraction and story writing.",
+            },
+            llmTokensPerMinute: {
+              type: "integer",
+              minimum: 1,
+              description: "Input and output tokens allowed per rolling minute; requests wait for room.",
+            },
+            maxLlmTokens: {
+              type: "integer",
+              minimum: 1,
+              description: "Token budget for the run. Calls and stories it cannot cover are skipped and reported.",
+            },
+            maxLlmCostUsd: {
+              type: "number",
+              exclusiveMinimum: 0,
+              description: "Estimated dollar budget for the run, at the model's list price. Only for models with a known price.",
+            },
             gongBaseUrl: { type: "string", default: "https://api.gong.io" },
             gongAccessToken: { type: "string" },
             gongAccessKey: { type: "string" },
             gongAccessKeySecret: { type: "string" },
             grainBaseUrl: { type: "string", default: "https://grain.com/_/public-api" },
             grainApiToken: { type: "string" },
-            internalEmailDomains: { type: "string" },
+            zoomBaseUrl: { type: "string", default: "https://api.zoom.us/v2" },
+            zoomOauthUrl: { type: "string", default: "https://zoom.us/oauth/token" },
+            zoomAccountId: { type: "string" },
+            zoomClientId: { type: "string" },
+            zoomClientSecret: { type: "string" },
+            zoomAccessToken: { type: "string" },
+            zoomUserId: { type: "string", default: "me" },
+            firefliesBaseUrl: { type: "string", default: "https://api.fireflies.ai/graphql" },
+            firefliesApiKey: { type: "string" },
+            chorusBaseUrl: { type: "string", default: "https://chorus.ai" },
+            chorusApiToken: { type: "string" },
+            internalEmailDomains: {
+              type: "string",
+              description:
+                "Comma-separated internal domains: excluded from account detection, and their speakers' quotes are left out of customer evidence.",
+            },
+            providers: {
+              type: "array",
+              items: { $ref: "#/components/schemas/CallSource" },
+              minItems: 1,
+              description: "Providers to use. Defaults to every provider whose credentials are present.",
+            },
+            accountScope: {
+              type: "string",
+              enum: ["all", "any"],
+              default: "all",
+              description:
+                "Discovery only. all: accounts found in every provider; any: also single-provider accounts.",
+            },
             fromDate: { type: "string", description: "YYYY-MM-DD or ISO datetime" },
             toDate: { type: "string", description: "YYYY-MM-DD or ISO datetime" },
             maxCalls: { type: "integer", minimum: 1, maximum: 5000 },
+            refresh: {
+              type: "boolean",
+              description:
+                "Bypass the cached account list and local transcript store and re-fetch from providers.",
+            },
+            fuseSegments: {
+              type: "boolean",
+              description:
+                "Fuse recordings of one meeting from different providers segment by segment, keeping the best speaker, text and timestamps.",
+            },
+            dedupePolicy: { $ref: "#/components/schemas/DedupePolicy" },
+            minQuoteSimilarity: {
+              type: "number",
+              minimum: 0,
+              maximum: 1,
+              default: 0.85,
+              description:
+                "Word-level similarity a quote needs with some transcript span to be kept; the quote is replaced by that span's exact wording.",
+            },
+            windowTokens: {
+              type: "integer",
+              minimum: 1000,
+              default: 12000,
+              description:
+                "Estimated transcript tokens sent per extraction request. Longer calls are split into overlapping windows and the results merged.",
+            },
+            numberLocale: {
+              type: "string",
+              default: "en-US",
+              description:
+                "BCP 47 locale for amounts whose separators are ambiguous; de-DE reads 1.200 as 1200. Amounts like 1.200,50 parse the same in any locale.",
+            },
           },
-          required: ["grainApiToken"],
+          description: "Credentials for at least one provider are required.",
+        },
+        DedupePolicy: {
+          type: "object",
+          additionalProperties: false,
+          description: "Dedupe thresholds, rules and preferences; omitted fields keep their defaults.",
+          properties: {
+            titleWindowMinutes: { type: "number", minimum: 0, default: 7 },
+            titleDurationDeltaSeconds: { type: "number", minimum: 0, default: 180 },
+            titleSimilarity: { type: "number", minimum: 0, maximum: 1, default: 0.72 },
+            transcriptWindowMinutes: { type: "number", minimum: 0, default: 45 },
+            transcriptDurationDeltaSeconds: { type: "number", minimum: 0, default: 420 },
+            transcriptSimilarity: { type: "number", minimum: 0.75, maximum: 1, default: 0.86 },
+            providerPreference: {
+              type: "array",
+              items: { type: "string" },
+              description: "Providers whose call is kept first when duplicates are merged, in order.",
+            },
+            rules: {
+              type: "array",
+              items: {
+                type: "string",
+                enum: [
+                  "same_recording_url",
+                  "same_transcript_hash",
+                  "matching_time_and_title",
+                  "high_transcript_similarity",
+                  "contained_clip",
+                  "stitched_split_recording",
+                ],
+              },
+              description: "Enabled rules; defaults to all of them.",
+            },
+            qualityWeights: {
+              type: "object",
+              additionalProperties: false,
+              properties: {
+                segments: { type: "number", minimum: 0, default: 0.6 },
+                speakers: { type: "number", minimum: 0, default: 1.2 },
+                timestamps: { type: "number", minimum: 0, default: 1.2 },
+                transcriptLength: { type: "number", minimum: 0, default: 1 },
+                transcriptLengthCap: { type: "number", minimum: 0, default: 50 },
+              },
+            },
+          },
+        },
+        CallSource: {
+          type: "string",
+          enum: ["gong", "grain", "zoom", "fireflies", "chorus"],
         },
         SharedAccount: {
           type: "object",
           properties: {
             id: { type: "string" },
             displayName: { type: "string" },
-            gongName: { type: "string" },
-            grainName: { type: "string" },
-            gongCallCount: { type: "integer" },
-            grainCallCount: { type: "integer" },
+            providers: {
+              type: "object",
+              description: "Provider name -> that provider's account name and call count.",
+              additionalProperties: {
+                type: "object",
+                properties: {
+                  name: { type: "string" },
+                  callCount: { type: "integer" },
+                },
+                required: ["name", "callCount"],
+              },
+            },
+            totalCallCount: { type: "integer" },
             confidence: { type: "number" },
             matchReason: { type: "string", enum: ["exact", "heuristic", "llm"] },
           },
-          required: [
-            "id",
-            "displayName",
-            "gongName",
-            "grainName",
-            "gongCallCount",
-            "grainCallCount",
-            "confidence",
-            "matchReason",
-          ],
+          required: ["id", "displayName", "providers", "totalCallCount", "confidence", "matchReason"],
         },
         BuildRequest: {
           allOf: [
@@ -313,11 +525,11 @@ export function buildOpenApiDocument(baseUrl: string) {
             {
               type: "object",
               properties: {
-                openaiApiKey: { type: "string" },
                 storyTypeId: { type: "string" },
                 selectedAccount: { $ref: "#/components/schemas/SharedAccountSelection" },
               },
-              required: ["openaiApiKey", "storyTypeId", "selectedAccount"],
+              required: ["storyTypeId", "selectedAccount"],
+              description: "LLM credentials for the chosen llmProvider are required.",
             },
           ],
         },
@@ -350,8 +562,9 @@ export function buildOpenApiDocument(baseUrl: string) {
                 callFiles: { type: "array", items: { type: "string" } },
                 mergedFile: { type: "string" },
                 dedupeReport: { type: "string" },
+                dedupeReview: { type: "string" },
               },
-              required: ["callFiles", "mergedFile", "dedupeReport"],
+              required: ["callFiles", "mergedFile", "dedupeReport", "dedupeReview"],
             },
             storyTypeOptions: {
               type: "array",
@@ -374,11 +587,15 @@ export function buildOpenApiDocument(baseUrl: string) {
           properties: {
             id: { type: "string" },
             displayName: { type: "string" },
-            gongName: { type: "string" },
-            grainName: { type: "string" },
+            providerNames: {
+              type: "object",
+              description:
+                "Provider name -> that provider's account name. A SharedAccount from discovery is also accepted.",
+              additionalProperties: { type: "string" },
+            },
             confidence: { type: "number" },
           },
-          required: ["id", "displayName", "gongName", "grainName"],
+          required: ["id", "displayName", "providerNames"],
         },
         ErrorBody: {
           type: "object",
@@ -410,9 +627,9 @@ export function buildAiPluginManifest(baseUrl: string) {
     name_for_human: "CallCase Agent",
     name_for_model: "callcase_agent",
     description_for_human:
-      "Generate transcript-backed B2B case studies from Gong + Grain account call recordings.",
+      "Generate transcript-backed B2B case studies from Gong, Grain, Zoom, Fireflies and Chorus account call recordings.",
     description_for_model:
-      "Use this tool to discover accounts shared across Gong and Grain and generate evidence-backed case-study markdown with direct quote attribution and quantitative claims.",
+      "Use this tool to discover accounts shared across the configured call providers and generate evidence-backed case-study markdown with direct quote attribution and quantitative claims.",
     auth: {
       type: "none",
     },
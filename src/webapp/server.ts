@@ -9,6 +9,7 @@ import {
   buildStory,
   discoverSharedAccounts,
   exportAccountCorpus,
+  invalidateDiscoveryCache,
   listStoryTypes,
 } from "../services/caseflow.js";
 import { buildAiPluginManifest, buildOpenApiDocument, inferBaseUrl } from "./openapi.js";
@@ -45,6 +46,10 @@ app.post("/api/accounts/discover", async (req, res) => {
   }
 });
 
+app.post("/api/accounts/discover/invalidate", (_req, res) => {
+  res.json(invalidateDiscoveryCache());
+});
+
 app.post("/api/accounts/export-markdown", async (req, res) => {
   const parsed = ExportRequestSchema.safeParse(req.body);
   if (!parsed.success) {